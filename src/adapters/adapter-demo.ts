@@ -9,7 +9,8 @@ import {
   testAdapters,
   getRecommendedModel,
   AdapterType,
-  BaseLLMAdapter
+  BaseLLMAdapter,
+  FileSystemCacheStore
 } from './index.js';
 import { LLMRequest, LLMResponse } from '../types/index.js';
 
@@ -233,9 +234,13 @@ async function example5_advancedFeatures() {
     }
   });
   
-  // 1. Caching demo
+  // 1. Caching demo, persisted so repeated runs are answered from disk
   console.log('1. Caching Demo:');
-  adapter.setCacheEnabled(true);
+  adapter.configureCache({
+    store: new FileSystemCacheStore('.llm-cache'),
+    ttlMs: 24 * 60 * 60 * 1000,
+    deterministicTtlMs: Infinity
+  });
   
   const cachedRequest: LLMRequest = {
     model: 'gpt-3.5-turbo',
@@ -267,13 +272,13 @@ async function example5_advancedFeatures() {
   console.log('- Total cost: $', metrics.totalCost.toFixed(4));
   console.log('- Average latency:', Math.round(metrics.averageLatency), 'ms');
   console.log('- Cache size:', metrics.cacheSize);
+  console.log('- Cache hit rate:', (metrics.cacheHitRate * 100).toFixed(0), '%');
+  console.log('- Cache bytes saved:', metrics.cacheBytesSaved);
   
-  // 3. Clear cache and reset metrics
+  // 3. Reset metrics; the cache stays on disk for the next run
   console.log('\n3. Cleanup:');
-  adapter.clearCache();
   adapter.resetMetrics();
-  console.log('- Cache cleared');
-  console.log('- Metrics reset');
+  console.log('- Metrics reset (cache kept in .llm-cache)');
 }
 
 // === Helper Functions ===
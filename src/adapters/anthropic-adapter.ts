@@ -9,7 +9,8 @@ import {
   TokenUsage, 
   LLMError
 } from '../types/index.js';
-import { BaseLLMAdapter, LLMAdapterConfig } from './base-llm-adapter.js';
+import { BaseLLMAdapter, LLMAdapterConfig, StreamState } from './base-llm-adapter.js';
+import { ServerSentEvent } from './server-sent-events.js';
 
 export interface AnthropicConfig extends LLMAdapterConfig {
   anthropicVersion?: string;
@@ -61,24 +62,26 @@ export class AnthropicAdapter extends BaseLLMAdapter {
       preparedRequest.system = request.systemPrompt;
     }
     
+    // Structured output: force a call to a tool whose input schema is the response schema
+    if (request.responseSchema) {
+      preparedRequest.tools = [{
+        name: request.responseSchema.name,
+        description: request.responseSchema.description || 'Record the response',
+        input_schema: request.responseSchema.schema
+      }];
+      preparedRequest.tool_choice = { type: 'tool', name: request.responseSchema.name };
+    }
+    
     return preparedRequest;
   }
 
-  protected async makeAPICall(preparedRequest: any): Promise<any> {
+  protected async makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any> {
     const endpoint = `${this.baseURL}/messages`;
-    
-    const headers: Record<string, string> = {
-      ...this.getHeaders(),
-      'x-api-key': this.apiKey,
-      'anthropic-version': this.anthropicVersion
-    };
-    
-    if (this.anthropicBeta) {
-      headers['anthropic-beta'] = this.anthropicBeta;
-    }
+    const headers = this.getAuthHeaders();
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkAbortSignal(controller, signal);
     
     try {
       const response = await fetch(endpoint, {
@@ -91,13 +94,13 @@ export class AnthropicAdapter extends BaseLLMAdapter {
       clearTimeout(timeoutId);
       
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(error.error?.message || `API error: ${response.status}`);
+        throw await this.createHTTPError(response);
       }
       
       return await response.json();
     } catch (error: any) {
       clearTimeout(timeoutId);
+      this.throwIfAborted(signal);
       
       if (error.name === 'AbortError') {
         throw new LLMError(
@@ -108,11 +111,17 @@ export class AnthropicAdapter extends BaseLLMAdapter {
       }
       
       throw error;
+    } finally {
+      unlink();
     }
   }
 
   protected processResponse(response: any, request: LLMRequest): LLMResponse {
-    const content = response.content[0].text;
+    const blocks: any[] = response.content || [];
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks.filter(block => block.type === 'text').map(block => block.text).join('');
     const usage = response.usage;
     
     const tokenUsage: TokenUsage = {
@@ -143,6 +152,67 @@ export class AnthropicAdapter extends BaseLLMAdapter {
     };
   }
 
+  protected supportsStreaming(): boolean {
+    return true;
+  }
+
+  protected supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  protected async openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseURL}/messages`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(preparedRequest),
+      signal
+    });
+    
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+    
+    return response;
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    const payload = JSON.parse(event.data);
+    
+    switch (payload.type) {
+      case 'message_start':
+        state.model = payload.message.model;
+        state.promptTokens = payload.message.usage?.input_tokens;
+        state.metadata.id = payload.message.id;
+        return '';
+        
+      case 'content_block_delta':
+        if (payload.delta?.type === 'input_json_delta') {
+          return payload.delta.partial_json; // Forced tool input for structured output
+        }
+        return payload.delta?.type === 'text_delta' ? payload.delta.text : '';
+        
+      case 'message_delta':
+        state.completionTokens = payload.usage?.output_tokens ?? state.completionTokens;
+        if (payload.delta?.stop_reason) {
+          state.metadata.stopReason = payload.delta.stop_reason;
+        }
+        return '';
+        
+      case 'error': {
+        const error: any = new Error(payload.error?.message || 'Stream error');
+        // Overloaded errors are transient, like a 529 response
+        if (payload.error?.type === 'overloaded_error') {
+          error.status = 529;
+        }
+        throw error;
+      }
+        
+      default:
+        // ping, content_block_start/stop, message_stop
+        return '';
+    }
+  }
+
   protected calculateCost(usage: TokenUsage, model: string): number {
     // Pricing as of early 2024 (per 1M tokens)
     const pricing: Record<string, { input: number; output: number }> = {
@@ -162,6 +232,20 @@ export class AnthropicAdapter extends BaseLLMAdapter {
     return inputCost + outputCost;
   }
 
+  private getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.getHeaders(),
+      'x-api-key': this.apiKey,
+      'anthropic-version': this.anthropicVersion
+    };
+    
+    if (this.anthropicBeta) {
+      headers['anthropic-beta'] = this.anthropicBeta;
+    }
+    
+    return headers;
+  }
+
   /**
    * Get available models
    */
@@ -3,12 +3,46 @@
  * Provides common functionality for all LLM providers
  */
 
+import { createHash } from 'crypto';
 import { 
   LLMRequest, 
   LLMResponse, 
+  EmbeddingResponse,
   TokenUsage, 
   LLMError 
 } from '../types/index.js';
+import { ServerSentEvent, readServerSentEvents } from './server-sent-events.js';
+import { RateLimiter, RateLimitPermit, isRateLimitError, getRetryAfterMs, parseRetryAfter } from './rate-limiter.js';
+import {
+  StructuredOutputResult,
+  parseStructuredOutput,
+  withSchemaInstructions,
+  buildRepairRequest
+} from './structured-output.js';
+import { Tokenizer, getTokenizer } from './tokenizer.js';
+import { ResponseCache, ResponseCacheConfig, ResponseCacheStats } from './response-cache.js';
+
+export type TokenCallback = (token: string) => void;
+
+/**
+ * Accumulated state of an in-progress streamed completion
+ */
+export interface StreamState {
+  content: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Vectors for one batch of texts as returned by a provider
+ */
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  promptTokens?: number; // Estimated when the provider does not report it
+  model?: string;
+}
 
 export interface LLMAdapterConfig {
   apiKey: string;
@@ -17,6 +51,8 @@ export interface LLMAdapterConfig {
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
+  structuredRepairAttempts?: number; // Repair prompts sent when output fails its responseSchema (default 2)
+  cache?: ResponseCacheConfig; // Enables response caching with this store and policy
 }
 
 export abstract class BaseLLMAdapter {
@@ -26,6 +62,7 @@ export abstract class BaseLLMAdapter {
   protected timeout: number;
   protected maxRetries: number;
   protected retryDelay: number;
+  protected structuredRepairAttempts: number;
   
   // Metrics tracking
   protected totalRequests: number = 0;
@@ -34,9 +71,15 @@ export abstract class BaseLLMAdapter {
   protected averageLatency: number = 0;
   
   // Cache for responses (optional)
-  protected cache: Map<string, LLMResponse> = new Map();
-  protected cacheEnabled: boolean = false;
+  protected responseCache: ResponseCache | null = null;
   protected cacheMaxSize: number = 1000;
+  
+  // Embeddings are deterministic, so they are always cached
+  protected embeddingCache: Map<string, number[]> = new Map();
+  protected embeddingBatchSize: number = 100;
+  
+  // Shared provider scheduler (optional)
+  protected rateLimiter: RateLimiter | null = null;
 
   constructor(config: LLMAdapterConfig) {
     this.apiKey = config.apiKey;
@@ -45,18 +88,65 @@ export abstract class BaseLLMAdapter {
     this.timeout = config.timeout || 30000; // 30 seconds
     this.maxRetries = config.maxRetries || 3;
     this.retryDelay = config.retryDelay || 1000; // 1 second
+    this.structuredRepairAttempts = config.structuredRepairAttempts ?? 2;
+    
+    if (config.cache) {
+      this.responseCache = new ResponseCache(config.cache);
+    }
   }
 
   /**
-   * Main method to generate completion
+   * Main method to generate completion. With a responseSchema, the content is
+   * parsed and validated, and invalid output is sent back with a repair prompt.
+   * T is the type the schema describes, for LLMResponse.parsed.
    */
-  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+  async generateCompletion<T = unknown>(request: LLMRequest): Promise<LLMResponse<T>> {
+    if (!request.responseSchema) {
+      return this.completeWithRetries(request);
+    }
+    
+    const spec = request.responseSchema;
+    const startTime = Date.now();
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    
+    let attemptRequest = this.supportsStructuredOutput(request) ? request : withSchemaInstructions(request, spec);
+    let response: LLMResponse;
+    let result: StructuredOutputResult;
+    let repairs = 0;
+    
+    while (true) {
+      response = await this.completeWithRetries(attemptRequest);
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      usage.cost += response.usage.cost;
+      
+      result = parseStructuredOutput(response.content, spec.schema);
+      if (result.errors.length === 0 || repairs >= this.structuredRepairAttempts) {
+        break;
+      }
+      
+      repairs++;
+      attemptRequest = buildRepairRequest(request, spec, response.content, result.errors);
+    }
+    
+    return {
+      ...response,
+      usage,
+      latency: Date.now() - startTime,
+      parsed: result.value,
+      validationErrors: result.errors,
+      metadata: { ...response.metadata, repairAttempts: repairs }
+    };
+  }
+
+  private async completeWithRetries(request: LLMRequest): Promise<LLMResponse> {
     const startTime = Date.now();
     
     // Check cache if enabled
     const cacheKey = this.getCacheKey(request);
-    if (this.cacheEnabled && this.cache.has(cacheKey)) {
-      const cached = this.cache.get(cacheKey)!;
+    const cached = this.responseCache?.lookup(cacheKey, request);
+    if (cached) {
       return {
         ...cached,
         metadata: { ...cached.metadata, fromCache: true }
@@ -67,15 +157,19 @@ export abstract class BaseLLMAdapter {
     
     // Retry logic
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      this.throwIfAborted(request.signal);
+      const permit = await this.acquirePermit(this.estimateRequestTokens(request), request.signal);
+      
       try {
         // Prepare request
         const preparedRequest = this.prepareRequest(request);
         
         // Make API call
-        const response = await this.makeAPICall(preparedRequest);
+        const response = await this.makeAPICall(preparedRequest, request.signal);
         
         // Process response
         const processedResponse = this.processResponse(response, request);
+        permit?.release(processedResponse.usage.totalTokens);
         
         // Calculate metrics
         const latency = Date.now() - startTime;
@@ -88,14 +182,14 @@ export abstract class BaseLLMAdapter {
         };
         
         // Cache if enabled
-        if (this.cacheEnabled) {
-          this.addToCache(cacheKey, finalResponse);
-        }
+        this.responseCache?.store(cacheKey, request, finalResponse);
         
         return finalResponse;
         
       } catch (error) {
         lastError = error as Error;
+        permit?.release();
+        const retryDelay = this.handleRateLimit(error, attempt);
         
         // Check if error is retryable
         if (!this.isRetryableError(error) || attempt === this.maxRetries - 1) {
@@ -107,8 +201,8 @@ export abstract class BaseLLMAdapter {
           );
         }
         
-        // Wait before retry with exponential backoff
-        await this.delay(this.retryDelay * Math.pow(2, attempt));
+        // Wait before retry, as long as the provider asked or with exponential backoff
+        await this.delay(retryDelay, request.signal);
       }
     }
     
@@ -119,35 +213,238 @@ export abstract class BaseLLMAdapter {
     );
   }
 
+  /**
+   * Generate a completion, delivering text to onToken as it arrives.
+   * The resolved response carries the full content, usage and cost.
+   * Adapters without streaming support emit the whole content once.
+   */
+  async streamCompletion<T = unknown>(request: LLMRequest, onToken?: TokenCallback): Promise<LLMResponse<T>> {
+    const tokenCallback = onToken ?? request.onToken;
+    
+    if (!this.supportsStreaming()) {
+      const response = await this.generateCompletion<T>(request);
+      tokenCallback?.(response.content);
+      return response;
+    }
+    
+    const spec = request.responseSchema;
+    if (!spec) {
+      return this.streamWithRetries(request, tokenCallback);
+    }
+    
+    // Streamed tokens cannot be taken back, so invalid output is reported rather than repaired
+    const response = await this.streamWithRetries(
+      this.supportsStructuredOutput(request) ? request : withSchemaInstructions(request, spec),
+      tokenCallback
+    );
+    const result = parseStructuredOutput(response.content, spec.schema);
+    return { ...response, parsed: result.value, validationErrors: result.errors };
+  }
+
+  private async streamWithRetries(request: LLMRequest, tokenCallback?: TokenCallback): Promise<LLMResponse> {
+    const startTime = Date.now();
+    
+    // Check cache if enabled
+    const cacheKey = this.getCacheKey(request);
+    const cached = this.responseCache?.lookup(cacheKey, request);
+    if (cached) {
+      tokenCallback?.(cached.content);
+      return {
+        ...cached,
+        metadata: { ...cached.metadata, fromCache: true }
+      };
+    }
+    
+    let lastError: Error | null = null;
+    
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      const state: StreamState = { content: '', metadata: {} };
+      this.throwIfAborted(request.signal);
+      const permit = await this.acquirePermit(this.estimateRequestTokens(request), request.signal);
+      
+      try {
+        await this.consumeStream(this.prepareStreamRequest(request), state, tokenCallback, request.signal);
+        
+        const processedResponse = this.finalizeStream(state, request);
+        permit?.release(processedResponse.usage.totalTokens);
+        
+        const latency = Date.now() - startTime;
+        this.updateMetrics(processedResponse, latency);
+        
+        const finalResponse: LLMResponse = {
+          ...processedResponse,
+          latency
+        };
+        
+        this.responseCache?.store(cacheKey, request, finalResponse);
+        
+        return finalResponse;
+        
+      } catch (error) {
+        lastError = error as Error;
+        permit?.release(state.content ? this.estimateTokens(state.content) : undefined);
+        const retryDelay = this.handleRateLimit(error, attempt);
+        
+        // Tokens already delivered cannot be taken back, so only retry before the first one
+        if (state.content.length > 0 || !this.isRetryableError(error) || attempt === this.maxRetries - 1) {
+          throw new LLMError(
+            `LLM streaming call failed: ${error instanceof Error ? error.message : String(error)}`,
+            'LLM_STREAM_ERROR',
+            { provider: this.getProviderName(), request, error, partialContent: state.content },
+            false
+          );
+        }
+        
+        await this.delay(retryDelay, request.signal);
+      }
+    }
+    
+    throw new LLMError(
+      `Failed after ${this.maxRetries} attempts: ${lastError?.message}`,
+      'LLM_MAX_RETRIES',
+      { provider: this.getProviderName(), request, lastError }
+    );
+  }
+
+  /**
+   * Embed texts with the provider's embedding model. Cached texts are not sent
+   * again; the rest go out in batches of embeddingBatchSize, each retried and
+   * rate limited like a completion. Usage and cost cover only the texts sent.
+   */
+  async embed(texts: string[], model?: string, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+    const embeddingModel = model || this.getDefaultEmbeddingModel();
+    
+    if (!this.supportsEmbeddings()) {
+      throw new LLMError(
+        `Embeddings are not supported by ${this.getProviderName()}`,
+        'EMBEDDINGS_NOT_SUPPORTED',
+        { provider: this.getProviderName() },
+        false
+      );
+    }
+    
+    const cacheKey = (text: string) => `${embeddingModel}\u0000${text}`;
+    const vectors = new Map<string, number[]>();
+    texts.forEach(text => {
+      const cached = this.embeddingCache.get(cacheKey(text));
+      if (cached) vectors.set(text, cached);
+    });
+    const cachedCount = texts.filter(text => vectors.has(text)).length;
+    const missing = Array.from(new Set(texts.filter(text => !vectors.has(text))));
+    
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    let responseModel = embeddingModel;
+    let batchCount = 0;
+    
+    for (let start = 0; start < missing.length; start += this.embeddingBatchSize) {
+      const batch = missing.slice(start, start + this.embeddingBatchSize);
+      const result = await this.embedBatch(batch, embeddingModel, signal);
+      
+      const promptTokens = result.promptTokens ?? batch.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+      usage.promptTokens += promptTokens;
+      usage.cost += this.calculateEmbeddingCost(promptTokens, embeddingModel);
+      responseModel = result.model || responseModel;
+      batchCount++;
+      
+      batch.forEach((text, i) => {
+        vectors.set(text, result.embeddings[i]);
+        this.addToEmbeddingCache(cacheKey(text), result.embeddings[i]);
+      });
+    }
+    usage.totalTokens = usage.promptTokens;
+    
+    const latency = Date.now() - startTime;
+    if (batchCount > 0) {
+      this.totalRequests += batchCount;
+      this.totalTokens += usage.totalTokens;
+      this.totalCost += usage.cost;
+    }
+    
+    return {
+      embeddings: texts.map(text => [...vectors.get(text)!]),
+      model: responseModel,
+      usage,
+      latency,
+      metadata: {
+        provider: this.getProviderName(),
+        cachedCount,
+        batchCount
+      }
+    };
+  }
+
+  /**
+   * Route every attempt through a shared rate limiter (null to disable)
+   */
+  setRateLimiter(rateLimiter: RateLimiter | null): void {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Tokenizer for counting prompts sent to this adapter's model (or its default model)
+   */
+  getTokenizer(model?: string): Tokenizer {
+    return getTokenizer(this.getProviderName(), model || this.defaultModel);
+  }
+
+  getRateLimiter(): RateLimiter | null {
+    return this.rateLimiter;
+  }
+
   /**
    * Get metrics for monitoring
    */
   getMetrics() {
+    const cache = this.responseCache?.getStats();
     return {
       totalRequests: this.totalRequests,
       totalTokens: this.totalTokens,
       totalCost: this.totalCost,
       averageLatency: this.averageLatency,
-      cacheSize: this.cache.size,
-      cacheHitRate: this.getCacheHitRate()
+      cacheSize: cache?.size ?? 0,
+      cacheHitRate: this.getCacheHitRate(),
+      cacheHits: cache?.hits ?? 0,
+      cacheMisses: cache?.misses ?? 0,
+      cacheBytesSaved: cache?.bytesSaved ?? 0,
+      cacheTokensSaved: cache?.tokensSaved ?? 0,
+      cacheCostSaved: cache?.costSaved ?? 0
     };
   }
 
   /**
-   * Enable/disable caching
+   * Enable/disable caching. Enabling uses the in-memory LRU store with the
+   * default TTL; use configureCache for a persistent store or another policy.
    */
   setCacheEnabled(enabled: boolean): void {
-    this.cacheEnabled = enabled;
     if (!enabled) {
-      this.cache.clear();
+      this.responseCache = null;
+    } else if (!this.responseCache) {
+      this.responseCache = new ResponseCache();
     }
   }
 
+  /**
+   * Cache responses with the given store and policy (null to disable).
+   * Persistent stores keep their entries when the cache is disabled.
+   */
+  configureCache(config: ResponseCacheConfig | null): void {
+    this.responseCache = config ? new ResponseCache(config) : null;
+  }
+
+  /**
+   * Cache statistics, or null when caching is disabled
+   */
+  getCacheStats(): ResponseCacheStats | null {
+    return this.responseCache?.getStats() ?? null;
+  }
+
   /**
    * Clear cache
    */
   clearCache(): void {
-    this.cache.clear();
+    this.responseCache?.clear();
+    this.embeddingCache.clear();
   }
 
   /**
@@ -158,6 +455,7 @@ export abstract class BaseLLMAdapter {
     this.totalTokens = 0;
     this.totalCost = 0;
     this.averageLatency = 0;
+    this.responseCache?.resetStats();
   }
 
   // === Abstract methods to be implemented by providers ===
@@ -166,32 +464,345 @@ export abstract class BaseLLMAdapter {
   protected abstract getDefaultBaseURL(): string;
   protected abstract getDefaultModel(): string;
   protected abstract prepareRequest(request: LLMRequest): any;
-  protected abstract makeAPICall(preparedRequest: any): Promise<any>;
+  protected abstract makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any>;
   protected abstract processResponse(response: any, request: LLMRequest): LLMResponse;
   protected abstract calculateCost(usage: TokenUsage, model: string): number;
   
+  // === Embedding hooks, overridden by providers that support it ===
+
+  protected supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    return '';
+  }
+
+  /**
+   * Embed one batch of texts; vectors must be in input order
+   */
+  protected makeEmbeddingCall(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    return Promise.reject(new LLMError(
+      `Embeddings are not supported by ${this.getProviderName()}`,
+      'EMBEDDINGS_NOT_SUPPORTED',
+      { provider: this.getProviderName() },
+      false
+    ));
+  }
+
+  protected calculateEmbeddingCost(promptTokens: number, model: string): number {
+    return 0;
+  }
+  
+  // === Structured output hook ===
+
+  /**
+   * Whether prepareRequest passes request.responseSchema to the provider natively
+   * for this request's model. Otherwise the schema is written into the system prompt.
+   */
+  protected supportsStructuredOutput(request?: LLMRequest): boolean {
+    return false;
+  }
+  
+  // === Streaming hooks, overridden by providers that support it ===
+
+  protected supportsStreaming(): boolean {
+    return false;
+  }
+
+  protected prepareStreamRequest(request: LLMRequest): any {
+    return { ...this.prepareRequest(request), stream: true };
+  }
+
+  /**
+   * Open the streaming HTTP request and return the (ok) response
+   */
+  protected openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    return Promise.reject(new LLMError(
+      `Streaming is not supported by ${this.getProviderName()}`,
+      'STREAMING_NOT_SUPPORTED',
+      { provider: this.getProviderName() },
+      false
+    ));
+  }
+
+  /**
+   * Split the response body into events; SSE unless the provider uses another framing
+   */
+  protected readStreamEvents(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: ServerSentEvent) => void
+  ): Promise<void> {
+    return readServerSentEvents(body, onEvent);
+  }
+
+  /**
+   * Update state from one SSE event and return the text delta it carries
+   */
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    return '';
+  }
+
+  /**
+   * Build the final response once the stream has ended
+   */
+  protected finalizeStream(state: StreamState, request: LLMRequest): LLMResponse {
+    const promptTokens = state.promptTokens ?? this.estimateTokens(request.prompt);
+    const completionTokens = state.completionTokens ?? this.estimateTokens(state.content);
+    
+    const tokenUsage: TokenUsage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: 0
+    };
+    tokenUsage.cost = this.calculateCost(tokenUsage, request.model || this.defaultModel);
+    
+    return {
+      content: state.content,
+      model: state.model || request.model || this.defaultModel,
+      usage: tokenUsage,
+      latency: 0, // Set by streamCompletion
+      metadata: {
+        ...request.metadata,
+        ...state.metadata,
+        streamed: true
+      }
+    };
+  }
+  
   // === Helper methods ===
 
+  /**
+   * One embedding batch with the same retry and rate-limit handling as completions
+   */
+  private async embedBatch(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    const estimatedTokens = texts.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+    let lastError: Error | null = null;
+    
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      this.throwIfAborted(signal);
+      const permit = await this.acquirePermit(estimatedTokens, signal);
+      
+      try {
+        const result = await this.makeEmbeddingCall(texts, model, signal);
+        permit?.release(result.promptTokens ?? estimatedTokens);
+        
+        if (result.embeddings.length !== texts.length) {
+          throw new LLMError(
+            `Expected ${texts.length} embeddings, got ${result.embeddings.length}`,
+            'EMBEDDING_COUNT_MISMATCH',
+            { provider: this.getProviderName(), model },
+            false
+          );
+        }
+        
+        return result;
+      } catch (error) {
+        lastError = error as Error;
+        permit?.release();
+        const retryDelay = this.handleRateLimit(error, attempt);
+        
+        if (!this.isRetryableError(error) || attempt === this.maxRetries - 1) {
+          throw new LLMError(
+            `Embedding call failed: ${error instanceof Error ? error.message : String(error)}`,
+            'EMBEDDING_API_ERROR',
+            { provider: this.getProviderName(), model, textCount: texts.length, error },
+            false
+          );
+        }
+        
+        await this.delay(retryDelay, signal);
+      }
+    }
+    
+    throw new LLMError(
+      `Failed after ${this.maxRetries} attempts: ${lastError?.message}`,
+      'LLM_MAX_RETRIES',
+      { provider: this.getProviderName(), model, lastError }
+    );
+  }
+
+  /**
+   * POST a JSON body and parse the JSON response, with the adapter's timeout
+   * and the caller's abort signal
+   */
+  protected async postJSON(
+    endpoint: string,
+    body: any,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkAbortSignal(controller, signal);
+    
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+      
+      if (!response.ok) {
+        throw await this.createHTTPError(response);
+      }
+      
+      return await response.json();
+    } catch (error: any) {
+      this.throwIfAborted(signal);
+      
+      if (error.name === 'AbortError') {
+        throw new LLMError(
+          'Request timed out',
+          'TIMEOUT_ERROR',
+          { timeout: this.timeout }
+        );
+      }
+      
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      unlink();
+    }
+  }
+
+  private addToEmbeddingCache(key: string, embedding: number[]): void {
+    if (this.embeddingCache.size >= this.cacheMaxSize) {
+      const firstKey = this.embeddingCache.keys().next().value;
+      if (firstKey !== undefined) {
+        this.embeddingCache.delete(firstKey);
+      }
+    }
+    this.embeddingCache.set(key, embedding);
+  }
+
+  /**
+   * Read a streaming response into state. The timeout applies to
+   * inactivity between events rather than to the whole stream.
+   */
+  protected async consumeStream(
+    preparedRequest: any,
+    state: StreamState,
+    onToken?: TokenCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkAbortSignal(controller, signal);
+    
+    try {
+      const response = await this.openStream(preparedRequest, controller.signal);
+      if (!response.body) {
+        throw new Error('Streaming response has no body');
+      }
+      
+      await this.readStreamEvents(response.body, event => {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        
+        const token = this.parseStreamEvent(event, state);
+        if (token) {
+          state.content += token;
+          onToken?.(token);
+        }
+      });
+    } catch (error: any) {
+      this.throwIfAborted(signal);
+      
+      if (error.name === 'AbortError') {
+        throw new LLMError(
+          'Stream timed out',
+          'TIMEOUT_ERROR',
+          { timeout: this.timeout }
+        );
+      }
+      
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      unlink();
+    }
+  }
+
+  /**
+   * Abort controller when the caller's signal aborts. Returns a function that detaches the listener.
+   */
+  protected linkAbortSignal(controller: AbortController, signal?: AbortSignal): () => void {
+    if (!signal) {
+      return () => {};
+    }
+    
+    if (signal.aborted) {
+      controller.abort();
+      return () => {};
+    }
+    
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort);
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Throw a non-retryable error if the caller has cancelled the request
+   */
+  protected throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new LLMError(
+        'Request aborted by caller',
+        'REQUEST_ABORTED',
+        { provider: this.getProviderName(), reason: signal.reason instanceof Error ? signal.reason.message : signal.reason },
+        false
+      );
+    }
+  }
+
+  /**
+   * Build an error for a failed HTTP response, keeping the status for retry decisions
+   */
+  protected async createHTTPError(response: Response): Promise<Error> {
+    const body = await response.json().catch(() => ({ error: { message: response.statusText } }));
+    const error: any = new Error(body.error?.message || `API error: ${response.status}`);
+    error.status = response.status;
+    error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    return error;
+  }
+
+  /**
+   * Identifies what a request asks, whichever provider answers it (fixture keys)
+   */
+  protected getRequestKey(request: LLMRequest): string {
+    return JSON.stringify(this.getRequestKeyFields(request));
+  }
+
+  /**
+   * Identifies a request to this provider, so a cache store shared between
+   * adapters never answers one provider's request with another's response
+   */
   protected getCacheKey(request: LLMRequest): string {
-    const key = {
+    return JSON.stringify({
+      provider: this.getProviderName(),
+      baseURL: this.baseURL,
+      ...this.getRequestKeyFields(request),
+      model: request.model || this.defaultModel
+    });
+  }
+
+  private getRequestKeyFields(request: LLMRequest): Record<string, any> {
+    return {
       model: request.model,
       prompt: request.prompt,
       systemPrompt: request.systemPrompt,
       temperature: request.temperature,
-      maxTokens: request.maxTokens
-    };
-    return JSON.stringify(key);
-  }
-
-  protected addToCache(key: string, response: LLMResponse): void {
-    // Implement LRU cache
-    if (this.cache.size >= this.cacheMaxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey !== undefined) {
-        this.cache.delete(firstKey);
+      maxTokens: request.maxTokens,
+      // Same-named schemas that differ ask for different output
+      responseSchema: request.responseSchema && {
+        name: request.responseSchema.name,
+        strict: request.responseSchema.strict,
+        hash: createHash('sha256').update(canonicalJSON(request.responseSchema.schema), 'utf8').digest('hex')
       }
-    }
-    this.cache.set(key, response);
+    };
   }
 
   protected updateMetrics(response: LLMResponse, latency: number): void {
@@ -205,8 +816,7 @@ export abstract class BaseLLMAdapter {
   }
 
   protected getCacheHitRate(): number {
-    // This would need to track hits vs misses
-    return 0; // Simplified for now
+    return this.responseCache?.getStats().hitRate ?? 0;
   }
 
   protected isRetryableError(error: any): boolean {
@@ -216,7 +826,7 @@ export abstract class BaseLLMAdapter {
     }
     
     // Check for rate limit errors (status 429)
-    if (error.status === 429 || error.statusCode === 429) {
+    if (isRateLimitError(error)) {
       return true;
     }
     
@@ -228,17 +838,70 @@ export abstract class BaseLLMAdapter {
     return false;
   }
 
-  protected delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Pause the shared limiter on a rate-limit error and return the delay before the next attempt
+   */
+  protected handleRateLimit(error: any, attempt: number): number {
+    const backoff = this.retryDelay * Math.pow(2, attempt);
+    if (!isRateLimitError(error)) {
+      return backoff;
+    }
+    
+    const retryAfter = getRetryAfterMs(error) ?? backoff;
+    this.rateLimiter?.pause(retryAfter);
+    return retryAfter;
+  }
+
+  /**
+   * Tokens to reserve before a call: prompt estimate plus the completion budget
+   */
+  protected estimateRequestTokens(request: LLMRequest): number {
+    return this.estimateTokens((request.systemPrompt || '') + request.prompt, request.model) + (request.maxTokens || 0);
+  }
+
+  /**
+   * Wait ms, or reject with REQUEST_ABORTED as soon as signal aborts
+   */
+  protected delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.throwIfAborted(signal);
+      const onAbort = () => {
+        clearTimeout(timer);
+        try {
+          this.throwIfAborted(signal);
+        } catch (error) {
+          reject(error);
+        }
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
-   * Estimate token count (rough approximation)
+   * Wait for the shared limiter's permission to send a call. A caller that
+   * aborts while queued leaves the queue; one that aborts just as it is let
+   * through hands the slot back unused.
    */
-  protected estimateTokens(text: string): number {
-    // Rough estimate: 1 token ≈ 4 characters
-    // This varies by model and tokenizer
-    return Math.ceil(text.length / 4);
+  private async acquirePermit(estimatedTokens: number, signal?: AbortSignal): Promise<RateLimitPermit | null> {
+    if (!this.rateLimiter) return null;
+    
+    const permit = await this.rateLimiter.acquire(estimatedTokens, signal);
+    if (signal?.aborted) {
+      permit.cancel();
+      this.throwIfAborted(signal);
+    }
+    return permit;
+  }
+
+  /**
+   * Estimate token count with the model's tokenizer, for providers that don't report usage
+   */
+  protected estimateTokens(text: string, model?: string): number {
+    return this.getTokenizer(model).countTokens(text);
   }
 
   /**
@@ -250,4 +913,19 @@ export abstract class BaseLLMAdapter {
       'User-Agent': '-LLM-System/1.0'
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * JSON with object keys sorted, so equal values always serialize the same
+ */
+function canonicalJSON(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,196 @@
+/**
+ * Circuit Breaker for LLM providers
+ * Stops sending calls to a provider whose recent error rate is too high, that
+ * keeps returning server errors, or that reports it cannot serve at all.
+ * After a cooldown a single probe call decides whether it closes again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  windowSize?: number;              // Recent calls the error rate is taken over (default 10)
+  minimumCalls?: number;            // Calls in the window before the rate can trip (default 4)
+  failureRateThreshold?: number;    // Error rate that trips the breaker (default 0.5)
+  consecutiveServerErrors?: number; // 5xx responses in a row that trip it (default 3)
+  cooldownMs?: number;              // Time open before a probe is allowed (default 30000)
+  tripCodes?: string[];             // Error codes that trip it immediately
+}
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  failureRate: number;
+  recentCalls: number;
+  consecutiveServerErrors: number;
+  tripCount: number;
+  lastTripReason?: string;
+  openUntil?: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<CircuitBreakerConfig> = {
+  windowSize: 10,
+  minimumCalls: 4,
+  failureRateThreshold: 0.5,
+  consecutiveServerErrors: 3,
+  cooldownMs: 30000,
+  tripCodes: ['LMSTUDIO_NOT_READY', 'CONNECTION_REFUSED']
+};
+
+export class CircuitBreaker {
+  private readonly config: Required<CircuitBreakerConfig>;
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = []; // true = success, most recent last
+  private serverErrorStreak: number = 0;
+  private openUntil: number = 0;
+  private probeInFlight: boolean = false;
+  private tripCount: number = 0;
+  private lastTripReason?: string;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Whether a call may be sent now. Once the cooldown has passed, lets exactly one probe through.
+   */
+  allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state === 'half_open') {
+      this.close();
+      return;
+    }
+
+    this.serverErrorStreak = 0;
+    this.pushOutcome(true);
+  }
+
+  /**
+   * Give back a probe that ended without telling anything about the provider
+   * (e.g. the caller aborted). The breaker stays open, ready for the next probe,
+   * and no failure is counted.
+   */
+  releaseProbe(): void {
+    if (this.state === 'half_open' && this.probeInFlight) {
+      this.state = 'open';
+      this.probeInFlight = false;
+    }
+  }
+
+  recordFailure(error: any): void {
+    const code = getErrorCode(error);
+    const status = getErrorStatus(error);
+
+    if (this.state === 'half_open') {
+      this.trip(`probe failed${code ? ` (${code})` : ''}`);
+      return;
+    }
+
+    this.pushOutcome(false);
+    this.serverErrorStreak = status !== undefined && status >= 500 ? this.serverErrorStreak + 1 : 0;
+
+    if (code && this.config.tripCodes.includes(code)) {
+      this.trip(code);
+    } else if (this.serverErrorStreak >= this.config.consecutiveServerErrors) {
+      this.trip(`${this.serverErrorStreak} consecutive server errors`);
+    } else if (this.outcomes.length >= this.config.minimumCalls &&
+      this.getFailureRate() >= this.config.failureRateThreshold) {
+      this.trip(`error rate ${(this.getFailureRate() * 100).toFixed(0)}%`);
+    }
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() >= this.openUntil) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  getStats(): CircuitBreakerStats {
+    return {
+      state: this.getState(),
+      failureRate: this.getFailureRate(),
+      recentCalls: this.outcomes.length,
+      consecutiveServerErrors: this.serverErrorStreak,
+      tripCount: this.tripCount,
+      lastTripReason: this.lastTripReason,
+      openUntil: this.state === 'open' ? this.openUntil : undefined
+    };
+  }
+
+  reset(): void {
+    this.close();
+    this.tripCount = 0;
+    this.lastTripReason = undefined;
+  }
+
+  // === Private helpers ===
+
+  private trip(reason: string): void {
+    this.state = 'open';
+    this.openUntil = Date.now() + this.config.cooldownMs;
+    this.probeInFlight = false;
+    this.tripCount++;
+    this.lastTripReason = reason;
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.serverErrorStreak = 0;
+    this.probeInFlight = false;
+  }
+
+  private pushOutcome(success: boolean): void {
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.config.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private getFailureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(success => !success).length / this.outcomes.length;
+  }
+}
+
+/**
+ * Follow LLMError wrappers (context.error / context.lastError) down to the original error
+ */
+export function getRootError(error: any): any {
+  let current = error;
+  for (let depth = 0; depth < 5; depth++) {
+    const inner = current?.context?.error ?? current?.context?.lastError;
+    if (!inner) break;
+    current = inner;
+  }
+  return current;
+}
+
+/**
+ * Most specific error code in a chain of wrapped errors
+ */
+export function getErrorCode(error: any): string | undefined {
+  const root = getRootError(error);
+  return root?.code ?? error?.code;
+}
+
+/**
+ * HTTP status of a failed call, if any error in the chain carries one
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const root = getRootError(error);
+  return root?.status ?? root?.statusCode ?? error?.status;
+}
@@ -0,0 +1,216 @@
+/**
+ * Fallback Adapter for  System
+ * Tries an ordered list of adapters (e.g. OpenAI → Anthropic → LM Studio)
+ * until one answers, skipping providers whose circuit breaker is open.
+ * The response metadata records which provider actually answered.
+ */
+
+import {
+  LLMRequest,
+  LLMResponse,
+  TokenUsage,
+  LLMError
+} from '../types/index.js';
+import { BaseLLMAdapter, TokenCallback } from './base-llm-adapter.js';
+import { Tokenizer } from './tokenizer.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerStats,
+  getErrorCode
+} from './circuit-breaker.js';
+
+export interface FallbackTarget {
+  name: string;            // Provider name recorded in response metadata
+  adapter: BaseLLMAdapter;
+  model?: string;          // Model for this provider; the first target defaults to the request's model, others to the adapter's default
+}
+
+export interface FallbackAdapterConfig {
+  targets: FallbackTarget[]; // In order of preference
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export interface FallbackAttempt {
+  provider: string;
+  skipped?: boolean; // Circuit was open, no call made
+  code?: string;
+  error?: string;
+}
+
+// Failures caused by the caller rather than the provider; trying another provider won't help
+const NON_FALLBACK_CODES = ['REQUEST_ABORTED', 'BUDGET_EXHAUSTED', 'BUDGET_DEADLINE'];
+
+export class FallbackAdapter extends BaseLLMAdapter {
+  private targets: FallbackTarget[];
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private failoverCount: number = 0;
+
+  constructor(config: FallbackAdapterConfig) {
+    super({ apiKey: 'not-required', maxRetries: 1 });
+
+    if (config.targets.length === 0) {
+      throw new LLMError('FallbackAdapter needs at least one target adapter', 'NO_FALLBACK_TARGETS', {}, false);
+    }
+
+    this.targets = config.targets;
+    this.targets.forEach(target => {
+      this.breakers.set(target.name, new CircuitBreaker(config.circuitBreaker));
+    });
+  }
+
+  async generateCompletion<T = unknown>(request: LLMRequest): Promise<LLMResponse<T>> {
+    return this.withFallback(request, (target, targetRequest) => target.adapter.generateCompletion<T>(targetRequest));
+  }
+
+  async streamCompletion<T = unknown>(request: LLMRequest, onToken?: TokenCallback): Promise<LLMResponse<T>> {
+    const tokenCallback = onToken ?? request.onToken;
+    let delivered = false;
+
+    return this.withFallback(
+      request,
+      (target, targetRequest) => target.adapter.streamCompletion<T>(
+        { ...targetRequest, onToken: undefined },
+        tokenCallback && ((token: string) => {
+          delivered = true;
+          tokenCallback(token);
+        })
+      ),
+      // Tokens already delivered cannot be taken back, so only fall back before the first one
+      () => !delivered
+    );
+  }
+
+  /**
+   * Circuit state of each provider, in fallback order
+   */
+  getCircuitStates(): Record<string, CircuitBreakerStats> {
+    const states: Record<string, CircuitBreakerStats> = {};
+    this.targets.forEach(target => {
+      states[target.name] = this.breakers.get(target.name)!.getStats();
+    });
+    return states;
+  }
+
+  /**
+   * Close every circuit, e.g. after fixing a provider's configuration
+   */
+  resetCircuits(): void {
+    this.breakers.forEach(breaker => breaker.reset());
+  }
+
+  /**
+   * Calls answered by a provider other than the first
+   */
+  getFailoverCount(): number {
+    return this.failoverCount;
+  }
+
+  /**
+   * Prompts are sized for the first provider
+   */
+  getTokenizer(model?: string): Tokenizer {
+    return this.targets[0].adapter.getTokenizer(model ?? this.targets[0].model);
+  }
+
+  protected getProviderName(): string {
+    return 'fallback';
+  }
+
+  protected getDefaultBaseURL(): string {
+    return '';
+  }
+
+  protected getDefaultModel(): string {
+    return '';
+  }
+
+  protected prepareRequest(request: LLMRequest): any {
+    return request;
+  }
+
+  protected async makeAPICall(preparedRequest: any): Promise<any> {
+    return this.generateCompletion(preparedRequest);
+  }
+
+  protected processResponse(response: any, request: LLMRequest): LLMResponse {
+    return response;
+  }
+
+  protected calculateCost(usage: TokenUsage, model: string): number {
+    // The answering adapter has already priced the call
+    return usage.cost;
+  }
+
+  // === Private helpers ===
+
+  private async withFallback<T>(
+    request: LLMRequest,
+    call: (target: FallbackTarget, request: LLMRequest) => Promise<LLMResponse<T>>,
+    canFallBack: () => boolean = () => true
+  ): Promise<LLMResponse<T>> {
+    const attempts: FallbackAttempt[] = [];
+
+    for (const [index, target] of this.targets.entries()) {
+      this.throwIfAborted(request.signal);
+
+      const breaker = this.breakers.get(target.name)!;
+      if (!breaker.allowRequest()) {
+        attempts.push({ provider: target.name, skipped: true });
+        continue;
+      }
+
+      const targetRequest: LLMRequest = {
+        ...request,
+        model: target.model ?? (index === 0 ? request.model : undefined)
+      };
+
+      try {
+        const response = await call(target, targetRequest);
+        breaker.recordSuccess();
+        return this.finish(response, target, attempts);
+      } catch (error) {
+        const code = getErrorCode(error);
+        if (request.signal?.aborted || (code && NON_FALLBACK_CODES.includes(code))) {
+          // The provider was never judged, so a probe call must not hold its circuit half open
+          breaker.releaseProbe();
+          throw error;
+        }
+
+        breaker.recordFailure(error);
+        attempts.push({
+          provider: target.name,
+          code,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        if (!canFallBack()) {
+          throw error;
+        }
+      }
+    }
+
+    throw new LLMError(
+      `All providers failed: ${attempts.map(a => `${a.provider} (${a.skipped ? 'circuit open' : a.code ?? a.error})`).join(', ')}`,
+      'ALL_PROVIDERS_FAILED',
+      { attempts, circuits: this.getCircuitStates() },
+      false
+    );
+  }
+
+  private finish<T>(response: LLMResponse<T>, target: FallbackTarget, attempts: FallbackAttempt[]): LLMResponse<T> {
+    if (target !== this.targets[0]) {
+      this.failoverCount++;
+    }
+    this.updateMetrics(response, response.latency);
+
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        answeredBy: target.name,
+        failedOver: attempts.length > 0 ? attempts : undefined
+      }
+    };
+  }
+}
@@ -9,7 +9,8 @@ import {
   TokenUsage, 
   LLMError 
 } from '../types/index.js';
-import { BaseLLMAdapter, LLMAdapterConfig } from './base-llm-adapter.js';
+import { BaseLLMAdapter, LLMAdapterConfig, StreamState, EmbeddingBatch } from './base-llm-adapter.js';
+import { ServerSentEvent } from './server-sent-events.js';
 
 export interface GeminiConfig extends LLMAdapterConfig {
   projectId?: string;
@@ -88,15 +89,21 @@ export class GeminiAdapter extends BaseLLMAdapter {
       preparedRequest.systemInstruction = systemInstruction;
     }
     
+    if (request.responseSchema) {
+      preparedRequest.generationConfig.responseMimeType = 'application/json';
+      preparedRequest.generationConfig.responseSchema = this.toGeminiSchema(request.responseSchema.schema);
+    }
+    
     return preparedRequest;
   }
 
-  protected async makeAPICall(preparedRequest: any): Promise<any> {
+  protected async makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any> {
     const model = preparedRequest.model || this.defaultModel;
     const endpoint = `${this.baseURL}/models/${model}:generateContent?key=${this.apiKey}`;
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkAbortSignal(controller, signal);
     
     try {
       const response = await fetch(endpoint, {
@@ -128,13 +135,16 @@ export class GeminiAdapter extends BaseLLMAdapter {
           );
         }
         
-        throw new Error(error.error?.message || `API error: ${response.status}`);
+        const httpError: any = new Error(error.error?.message || `API error: ${response.status}`);
+        httpError.status = response.status;
+        throw httpError;
       }
       
       return await response.json();
       
     } catch (error: any) {
       clearTimeout(timeoutId);
+      this.throwIfAborted(signal);
       
       if (error.name === 'AbortError') {
         throw new LLMError(
@@ -145,6 +155,8 @@ export class GeminiAdapter extends BaseLLMAdapter {
       }
       
       throw error;
+    } finally {
+      unlink();
     }
   }
 
@@ -201,6 +213,79 @@ export class GeminiAdapter extends BaseLLMAdapter {
     };
   }
 
+  protected supportsStreaming(): boolean {
+    return true;
+  }
+
+  protected supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  protected prepareStreamRequest(request: LLMRequest): any {
+    // Streaming is selected by the endpoint, not a request field
+    return this.prepareRequest(request);
+  }
+
+  protected async openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    const model = preparedRequest.model || this.defaultModel;
+    const endpoint = `${this.baseURL}/models/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
+    
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(preparedRequest),
+      signal
+    });
+    
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+    
+    return response;
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    const chunk = JSON.parse(event.data);
+    
+    if (chunk.usageMetadata) {
+      state.promptTokens = chunk.usageMetadata.promptTokenCount ?? state.promptTokens;
+      state.completionTokens = chunk.usageMetadata.candidatesTokenCount ?? state.completionTokens;
+    }
+    
+    const candidate = chunk.candidates?.[0];
+    if (!candidate) {
+      if (chunk.promptFeedback?.blockReason) {
+        throw new LLMError(
+          'No response generated - content may have been blocked',
+          'CONTENT_BLOCKED',
+          { promptFeedback: chunk.promptFeedback }
+        );
+      }
+      return '';
+    }
+    
+    if (candidate.finishReason === 'SAFETY') {
+      throw new LLMError(
+        'Response blocked due to safety filters',
+        'SAFETY_FILTER',
+        { safetyRatings: candidate.safetyRatings }
+      );
+    }
+    
+    if (candidate.finishReason) {
+      state.metadata.finishReason = candidate.finishReason;
+    }
+    if (candidate.safetyRatings) {
+      state.metadata.safetyRatings = candidate.safetyRatings;
+    }
+    if (candidate.citationMetadata) {
+      state.metadata.citationMetadata = candidate.citationMetadata;
+    }
+    
+    const parts: any[] = candidate.content?.parts || [];
+    return parts.map(part => part.text || '').join('');
+  }
+
   protected calculateCost(usage: TokenUsage, model: string): number {
     // Pricing as of early 2024 (per 1K tokens)
     const pricing: Record<string, { input: number; output: number }> = {
@@ -220,6 +305,40 @@ export class GeminiAdapter extends BaseLLMAdapter {
     return inputCost + outputCost;
   }
 
+  protected supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    return 'text-embedding-004';
+  }
+
+  protected async makeEmbeddingCall(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    // batchEmbedContents takes at most 100 requests, the base class default batch size
+    const endpoint = `${this.baseURL}/models/${model}:batchEmbedContents?key=${this.apiKey}`;
+    const response = await this.postJSON(endpoint, {
+      requests: texts.map(text => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] }
+      }))
+    }, this.getHeaders(), signal);
+    
+    // No token counts are reported for embeddings
+    return {
+      embeddings: response.embeddings.map((embedding: any) => embedding.values)
+    };
+  }
+
+  protected calculateEmbeddingCost(promptTokens: number, model: string): number {
+    // Pricing per 1K tokens
+    const pricing: Record<string, number> = {
+      'text-embedding-004': 0,
+      'gemini-embedding-001': 0.00015
+    };
+    
+    return (promptTokens / 1000) * (pricing[model] ?? 0);
+  }
+
   /**
    * Get available models
    */
@@ -359,4 +478,34 @@ export class GeminiAdapter extends BaseLLMAdapter {
     
     return contextWindows[model] || 32768;
   }
-}
\ No newline at end of file
+
+  /**
+   * Gemini accepts an OpenAPI subset of JSON Schema; drop the keywords it rejects
+   */
+  private toGeminiSchema(schema: any): any {
+    const supported = ['type', 'format', 'description', 'nullable', 'enum', 'properties',
+      'required', 'items', 'minItems', 'maxItems', 'minimum', 'maximum'];
+    const converted: any = {};
+    
+    for (const key of supported) {
+      if (schema[key] === undefined) continue;
+      
+      if (key === 'properties') {
+        converted.properties = {};
+        Object.entries(schema.properties).forEach(([name, child]) => {
+          converted.properties[name] = this.toGeminiSchema(child);
+        });
+      } else if (key === 'type' && Array.isArray(schema.type)) {
+        // A single type, with null expressed as nullable
+        converted.type = schema.type.find((t: string) => t !== 'null');
+        converted.nullable = schema.type.includes('null') || undefined;
+      } else if (key === 'items') {
+        converted.items = this.toGeminiSchema(schema.items);
+      } else {
+        converted[key] = schema[key];
+      }
+    }
+    
+    return converted;
+  }
+}
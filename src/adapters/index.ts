@@ -4,23 +4,45 @@
  */
 
 export * from './base-llm-adapter.js';
+export * from './server-sent-events.js';
+export * from './rate-limiter.js';
 export * from './openai-adapter.js';
 export * from './anthropic-adapter.js';
 export * from './lmstudio-adapter.js';
 export * from './gemini-adapter.js';
+export * from './openai-compatible-adapter.js';
+export * from './ollama-adapter.js';
+export * from './llm-fixtures.js';
+export * from './recording-adapter.js';
+export * from './replay-adapter.js';
+export * from './structured-output.js';
+export * from './tokenizer.js';
+export * from './response-cache.js';
+export * from './circuit-breaker.js';
+export * from './fallback-adapter.js';
 
 import { BaseLLMAdapter, LLMAdapterConfig } from './base-llm-adapter.js';
 import { OpenAIAdapter, OpenAIConfig } from './openai-adapter.js';
 import { AnthropicAdapter, AnthropicConfig } from './anthropic-adapter.js';
 import { LMStudioAdapter, LMStudioConfig } from './lmstudio-adapter.js';
 import { GeminiAdapter, GeminiConfig } from './gemini-adapter.js';
-import { LLMError } from '../types/index.js';
+import { OpenAICompatibleAdapter, OpenAICompatibleConfig } from './openai-compatible-adapter.js';
+import { OllamaAdapter, OllamaConfig } from './ollama-adapter.js';
+import { LLMError, LLMModel, LLMProvider, RateLimit } from '../types/index.js';
 
-export type AdapterType = 'openai' | 'anthropic' | 'lmstudio' | 'gemini' | 'azure-openai';
+export type AdapterType = 'openai' | 'anthropic' | 'lmstudio' | 'gemini' | 'azure-openai' | 'openai-compatible' | 'ollama';
 
 export interface AdapterFactoryConfig {
   type: AdapterType;
-  config: LLMAdapterConfig | OpenAIConfig | AnthropicConfig | LMStudioConfig | GeminiConfig;
+  providerId?: string; // LLMProvider.id the adapter serves; defaults to the type
+  config: LLMAdapterConfig | OpenAIConfig | AnthropicConfig | LMStudioConfig | GeminiConfig | OpenAICompatibleConfig | OllamaConfig;
+}
+
+/**
+ * Adapter that can list the models it serves
+ */
+export interface ModelDiscoveryAdapter extends BaseLLMAdapter {
+  getAvailableModels(): Promise<LLMModel[]>;
 }
 
 /**
@@ -49,6 +71,12 @@ export function createLLMAdapter(params: AdapterFactoryConfig): BaseLLMAdapter {
     case 'gemini':
       return new GeminiAdapter(config as GeminiConfig);
       
+    case 'openai-compatible':
+      return new OpenAICompatibleAdapter(config as OpenAICompatibleConfig);
+      
+    case 'ollama':
+      return new OllamaAdapter(config as OllamaConfig);
+      
     default:
       throw new LLMError(
         `Unknown adapter type: ${type}`,
@@ -59,19 +87,63 @@ export function createLLMAdapter(params: AdapterFactoryConfig): BaseLLMAdapter {
 }
 
 /**
- * Create multiple adapters from configuration
+ * Create multiple adapters from configuration, keyed by provider id (the
+ * adapter type unless providerId is given), as the Orchestrator expects
  */
 export function createAdapters(configs: AdapterFactoryConfig[]): Map<string, BaseLLMAdapter> {
   const adapters = new Map<string, BaseLLMAdapter>();
   
   for (const config of configs) {
-    const adapter = createLLMAdapter(config);
-    adapters.set(config.type, adapter);
+    const key = config.providerId || config.type;
+    if (adapters.has(key)) {
+      throw new LLMError(
+        `Duplicate adapter for provider: ${key}`,
+        'DUPLICATE_ADAPTER',
+        { providerId: key },
+        false
+      );
+    }
+    adapters.set(key, createLLMAdapter(config));
   }
   
   return adapters;
 }
 
+/**
+ * Build an LLMProvider entry from the models an adapter reports, for
+ * servers whose model list is only known at runtime (Ollama, vLLM, ...)
+ */
+export async function discoverProvider(
+  id: string,
+  adapter: ModelDiscoveryAdapter,
+  options: { name?: string; rateLimit?: RateLimit } = {}
+): Promise<LLMProvider> {
+  const models = (await adapter.getAvailableModels())
+    .filter(model => !(model.capabilities.length === 1 && model.capabilities[0] === 'embedding'));
+
+  if (models.length === 0) {
+    throw new LLMError(
+      `Provider ${id} reported no chat models`,
+      'NO_MODELS_AVAILABLE',
+      { providerId: id },
+      false
+    );
+  }
+
+  return {
+    id,
+    name: options.name || id,
+    models,
+    // Local servers process only a few requests at a time
+    rateLimit: options.rateLimit || {
+      requestsPerMinute: 600,
+      tokensPerMinute: 1000000,
+      concurrentRequests: 2
+    },
+    capabilities: Array.from(new Set(models.flatMap(model => model.capabilities)))
+  };
+}
+
 /**
  * Default adapter configurations for quick setup
  */
@@ -100,6 +172,17 @@ export const DEFAULT_ADAPTER_CONFIGS: Record<AdapterType, Partial<LLMAdapterConf
     defaultModel: 'gemini-pro',
     timeout: 30000,
     maxRetries: 3
+  },
+  'openai-compatible': {
+    baseURL: 'http://localhost:8000/v1',
+    timeout: 60000,
+    maxRetries: 2
+  },
+  'ollama': {
+    baseURL: 'http://localhost:11434',
+    defaultModel: 'llama3.2',
+    timeout: 120000, // First call loads the model
+    maxRetries: 2
   }
 };
 
@@ -107,8 +190,8 @@ export const DEFAULT_ADAPTER_CONFIGS: Record<AdapterType, Partial<LLMAdapterConf
  * Helper to validate API keys
  */
 export function validateApiKey(type: AdapterType, apiKey: string): boolean {
-  if (type === 'lmstudio') {
-    return true; // LM Studio doesn't need API key
+  if (type === 'lmstudio' || type === 'ollama' || type === 'openai-compatible') {
+    return true; // Local servers don't need an API key
   }
   
   if (!apiKey || apiKey.trim() === '') {
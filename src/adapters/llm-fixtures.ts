@@ -0,0 +1,73 @@
+/**
+ * LLM Fixtures
+ * On-disk format shared by RecordingAdapter and ReplayAdapter
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMResponse, LLMError } from '../types/index.js';
+
+export const LLM_FIXTURE_VERSION = 1;
+
+export interface LLMFixtureEntry {
+  request: any; // Decoded cache key, kept for readable diffs
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+export interface LLMFixtureFile {
+  version: number;
+  entries: Record<string, LLMFixtureEntry>; // Keyed by hashFixtureKey(cache key)
+}
+
+/**
+ * Stable fixture key for an adapter cache key
+ */
+export function hashFixtureKey(cacheKey: string): string {
+  return createHash('sha256').update(cacheKey, 'utf8').digest('hex');
+}
+
+/**
+ * Load a fixture file. A missing file yields an empty set unless required.
+ */
+export function loadFixtureFile(filePath: string, required: boolean = false): LLMFixtureFile {
+  if (!fs.existsSync(filePath)) {
+    if (required) {
+      throw new LLMError(
+        `Fixture file not found: ${filePath}`,
+        'FIXTURE_NOT_FOUND',
+        { filePath },
+        false
+      );
+    }
+    return { version: LLM_FIXTURE_VERSION, entries: {} };
+  }
+
+  const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf8')) as LLMFixtureFile;
+  if (fixtures.version !== LLM_FIXTURE_VERSION) {
+    throw new LLMError(
+      `Unsupported fixture file version ${fixtures.version} in ${filePath}`,
+      'FIXTURE_VERSION_MISMATCH',
+      { filePath, version: fixtures.version },
+      false
+    );
+  }
+
+  return fixtures;
+}
+
+/**
+ * Write a fixture file atomically, with entries sorted for stable diffs
+ */
+export function saveFixtureFile(filePath: string, fixtures: LLMFixtureFile): void {
+  const sorted: Record<string, LLMFixtureEntry> = {};
+  for (const key of Object.keys(fixtures.entries).sort()) {
+    sorted[key] = fixtures.entries[key];
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify({ version: fixtures.version, entries: sorted }, null, 2) + '\n', 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
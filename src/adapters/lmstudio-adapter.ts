@@ -9,7 +9,8 @@ import {
   TokenUsage, 
   LLMError 
 } from '../types/index.js';
-import { BaseLLMAdapter, LLMAdapterConfig } from './base-llm-adapter.js';
+import { BaseLLMAdapter, LLMAdapterConfig, StreamState, EmbeddingBatch } from './base-llm-adapter.js';
+import { ServerSentEvent } from './server-sent-events.js';
 
 export interface LMStudioConfig extends LLMAdapterConfig {
   port?: number;
@@ -27,8 +28,8 @@ export class LMStudioAdapter extends BaseLLMAdapter {
     this.port = config.port || 1234;
     this.enableGPU = config.enableGPU ?? true;
     
-    // Update base URL with port
-    this.baseURL = `http://localhost:${this.port}/v1`;
+    // The default base URL needs the port, which isn't set until after super()
+    this.baseURL = config.baseURL || `http://localhost:${this.port}/v1`;
   }
 
   protected getProviderName(): string {
@@ -76,11 +77,12 @@ export class LMStudioAdapter extends BaseLLMAdapter {
     };
   }
 
-  protected async makeAPICall(preparedRequest: any): Promise<any> {
+  protected async makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any> {
     const endpoint = `${this.baseURL}/chat/completions`;
     
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkAbortSignal(controller, signal);
     
     try {
       const response = await fetch(endpoint, {
@@ -101,8 +103,7 @@ export class LMStudioAdapter extends BaseLLMAdapter {
           );
         }
         
-        const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(error.error?.message || `API error: ${response.status}`);
+        throw await this.createHTTPError(response);
       }
       
       this.isConnected = true;
@@ -110,6 +111,7 @@ export class LMStudioAdapter extends BaseLLMAdapter {
       
     } catch (error: any) {
       clearTimeout(timeoutId);
+      this.throwIfAborted(signal);
       
       if (error.name === 'AbortError') {
         throw new LLMError(
@@ -128,6 +130,8 @@ export class LMStudioAdapter extends BaseLLMAdapter {
       }
       
       throw error;
+    } finally {
+      unlink();
     }
   }
 
@@ -160,11 +164,122 @@ export class LMStudioAdapter extends BaseLLMAdapter {
     };
   }
 
+  protected supportsStreaming(): boolean {
+    return true;
+  }
+
+  protected async openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(preparedRequest),
+        signal
+      });
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNREFUSED') {
+        throw new LLMError(
+          'Cannot connect to LM Studio. Make sure it is running.',
+          'CONNECTION_REFUSED',
+          { port: this.port }
+        );
+      }
+      throw error;
+    }
+    
+    if (!response.ok) {
+      if (response.status === 503) {
+        throw new LLMError(
+          'LM Studio is not running or no model is loaded',
+          'LMSTUDIO_NOT_READY',
+          { port: this.port }
+        );
+      }
+      throw await this.createHTTPError(response);
+    }
+    
+    this.isConnected = true;
+    return response;
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    if (event.data === '[DONE]') {
+      return '';
+    }
+    
+    const chunk = JSON.parse(event.data);
+    state.model = chunk.model || state.model;
+    
+    // Only some LM Studio versions report usage when streaming
+    if (chunk.usage) {
+      state.promptTokens = chunk.usage.prompt_tokens;
+      state.completionTokens = chunk.usage.completion_tokens;
+    }
+    
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return '';
+    }
+    if (choice.finish_reason) {
+      state.metadata.finishReason = choice.finish_reason;
+    }
+    
+    return choice.delta?.content || '';
+  }
+
+  protected finalizeStream(state: StreamState, request: LLMRequest): LLMResponse {
+    const response = super.finalizeStream(state, request);
+    return {
+      ...response,
+      model: state.model || 'local-model',
+      metadata: {
+        ...response.metadata,
+        localModel: true,
+        gpuEnabled: this.enableGPU
+      }
+    };
+  }
+
   protected calculateCost(usage: TokenUsage, model: string): number {
     // Local models have no API cost
     return 0;
   }
 
+  protected supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    // Must be loaded in LM Studio alongside the chat model
+    return 'text-embedding-nomic-embed-text-v1.5';
+  }
+
+  protected async makeEmbeddingCall(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    try {
+      const response = await this.postJSON(`${this.baseURL}/embeddings`, { model, input: texts }, this.getHeaders(), signal);
+      this.isConnected = true;
+      
+      return {
+        embeddings: [...response.data]
+          .sort((a: any, b: any) => a.index - b.index)
+          .map((item: any) => item.embedding),
+        promptTokens: response.usage?.prompt_tokens,
+        model: response.model
+      };
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNREFUSED') {
+        throw new LLMError(
+          'Cannot connect to LM Studio. Make sure it is running.',
+          'CONNECTION_REFUSED',
+          { port: this.port }
+        );
+      }
+      
+      throw error;
+    }
+  }
+
   /**
    * Check if LM Studio is running
    */
@@ -0,0 +1,311 @@
+/**
+ * Ollama Adapter for  System
+ * Supports local models served by Ollama through its native /api/chat endpoint
+ */
+
+import {
+  LLMRequest,
+  LLMResponse,
+  LLMModel,
+  TokenUsage,
+  LLMError
+} from '../types/index.js';
+import { BaseLLMAdapter, LLMAdapterConfig, StreamState, EmbeddingBatch } from './base-llm-adapter.js';
+import { ServerSentEvent, readJSONLines } from './server-sent-events.js';
+
+export interface OllamaConfig extends Omit<LLMAdapterConfig, 'apiKey'> {
+  apiKey?: string;     // Only needed behind an authenticating proxy
+  numCtx?: number;     // Context window to request (options.num_ctx); Ollama's default otherwise
+  keepAlive?: string;  // How long the model stays loaded after a call, e.g. '5m'
+}
+
+// Ollama's context window when num_ctx is not set
+const OLLAMA_DEFAULT_CONTEXT = 2048;
+
+export class OllamaAdapter extends BaseLLMAdapter {
+  private numCtx?: number;
+  private keepAlive?: string;
+
+  constructor(config: OllamaConfig = {}) {
+    super({ ...config, apiKey: config.apiKey || 'not-required' });
+    this.baseURL = this.baseURL.replace(/\/+$/, '');
+    this.numCtx = config.numCtx;
+    this.keepAlive = config.keepAlive;
+  }
+
+  protected getProviderName(): string {
+    return 'ollama';
+  }
+
+  protected getDefaultBaseURL(): string {
+    return 'http://localhost:11434';
+  }
+
+  protected getDefaultModel(): string {
+    return 'llama3.2';
+  }
+
+  protected prepareRequest(request: LLMRequest): any {
+    const messages = [];
+
+    if (request.systemPrompt) {
+      messages.push({
+        role: 'system',
+        content: request.systemPrompt
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: request.prompt
+    });
+
+    const preparedRequest: any = {
+      model: request.model || this.defaultModel,
+      messages,
+      stream: false,
+      options: {
+        temperature: request.temperature ?? 0.7,
+        num_predict: request.maxTokens ?? 2000,
+        num_ctx: this.numCtx
+      }
+    };
+
+    // Ollama constrains generation to a JSON schema passed as format
+    if (request.responseSchema) {
+      preparedRequest.format = request.responseSchema.schema;
+    }
+
+    if (this.keepAlive) {
+      preparedRequest.keep_alive = this.keepAlive;
+    }
+
+    return preparedRequest;
+  }
+
+  protected async makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any> {
+    return this.withConnectionErrors(
+      () => this.postJSON(`${this.baseURL}/api/chat`, preparedRequest, this.getRequestHeaders(), signal)
+    );
+  }
+
+  protected processResponse(response: any, request: LLMRequest): LLMResponse {
+    const content = response.message?.content || '';
+    const promptTokens = response.prompt_eval_count ?? this.estimateTokens(request.prompt);
+    const completionTokens = response.eval_count ?? this.estimateTokens(content);
+
+    return {
+      content,
+      model: response.model || request.model || this.defaultModel,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        cost: 0 // Local models have no API cost
+      },
+      latency: 0, // Will be set by base class
+      metadata: {
+        ...request.metadata,
+        finishReason: response.done_reason,
+        localModel: true,
+        loadDurationMs: response.load_duration !== undefined ? response.load_duration / 1e6 : undefined
+      }
+    };
+  }
+
+  protected supportsStreaming(): boolean {
+    return true;
+  }
+
+  protected supportsStructuredOutput(): boolean {
+    return true;
+  }
+
+  protected async openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    const response = await this.withConnectionErrors(() => fetch(`${this.baseURL}/api/chat`, {
+      method: 'POST',
+      headers: this.getRequestHeaders(),
+      body: JSON.stringify(preparedRequest),
+      signal
+    }));
+
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+
+    return response;
+  }
+
+  protected readStreamEvents(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: ServerSentEvent) => void
+  ): Promise<void> {
+    // Ollama streams one JSON object per line rather than SSE
+    return readJSONLines(body, onEvent);
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    const chunk = JSON.parse(event.data);
+    if (chunk.error) {
+      throw new Error(chunk.error);
+    }
+
+    state.model = chunk.model || state.model;
+
+    // The final chunk carries the counts and the stop reason
+    if (chunk.done) {
+      state.promptTokens = chunk.prompt_eval_count ?? state.promptTokens;
+      state.completionTokens = chunk.eval_count ?? state.completionTokens;
+      state.metadata.finishReason = chunk.done_reason;
+      state.metadata.localModel = true;
+    }
+
+    return chunk.message?.content || '';
+  }
+
+  protected calculateCost(usage: TokenUsage, model: string): number {
+    // Local models have no API cost
+    return 0;
+  }
+
+  protected supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    // Must be pulled first: ollama pull nomic-embed-text
+    return 'nomic-embed-text';
+  }
+
+  protected async makeEmbeddingCall(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    const response = await this.withConnectionErrors(
+      () => this.postJSON(`${this.baseURL}/api/embed`, { model, input: texts }, this.getRequestHeaders(), signal)
+    );
+
+    return {
+      embeddings: response.embeddings,
+      promptTokens: response.prompt_eval_count,
+      model: response.model
+    };
+  }
+
+  /**
+   * Ollama reports errors as {"error": "..."} rather than OpenAI's {"error": {"message": ...}}
+   */
+  protected async createHTTPError(response: Response): Promise<Error> {
+    const body = await response.json().catch(() => ({}));
+    const error: any = new Error(
+      typeof body.error === 'string' ? body.error : (body.error?.message || `API error: ${response.status}`)
+    );
+    error.status = response.status;
+    return error;
+  }
+
+  /**
+   * Locally pulled models, with context windows from /api/show
+   */
+  async getAvailableModels(): Promise<LLMModel[]> {
+    const response = await this.withConnectionErrors(() => fetch(`${this.baseURL}/api/tags`, {
+      headers: this.getRequestHeaders()
+    }));
+
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+
+    const data = await response.json();
+    const models: LLMModel[] = [];
+
+    for (const model of data.models || []) {
+      const info = await this.showModel(model.name).catch(() => null);
+      models.push({
+        id: model.name,
+        name: model.details?.parameter_size ? `${model.name} (${model.details.parameter_size})` : model.name,
+        contextWindow: this.getContextWindow(info),
+        capabilities: this.getModelCapabilities(model.name, info),
+        costPerToken: 0,
+        latency: 2000
+      });
+    }
+
+    return models;
+  }
+
+  /**
+   * Check if Ollama is running
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseURL}/api/version`, { headers: this.getRequestHeaders() });
+      return response.ok;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get model capabilities, from /api/show when available and the model name otherwise
+   */
+  getModelCapabilities(model: string, info?: any): string[] {
+    const capabilities = ['text-generation', 'chat'];
+    const name = model.toLowerCase();
+
+    if (info?.capabilities?.includes('embedding') && !info.capabilities.includes('completion')) {
+      return ['embedding'];
+    }
+
+    if (name.includes('code') || name.includes('coder')) {
+      capabilities.push('code-generation');
+    }
+
+    if (name.includes('instruct') || name.includes('chat') || info?.capabilities?.includes('tools')) {
+      capabilities.push('instruction-following');
+    }
+
+    return capabilities;
+  }
+
+  // === Private helpers ===
+
+  private async showModel(model: string): Promise<any> {
+    return this.postJSON(`${this.baseURL}/api/show`, { model }, this.getRequestHeaders());
+  }
+
+  /**
+   * The window calls actually get: num_ctx when configured, else Ollama's default, capped by what the model supports
+   */
+  private getContextWindow(info: any): number {
+    const modelInfo: Record<string, any> = info?.model_info || {};
+    const key = Object.keys(modelInfo).find(k => k.endsWith('.context_length'));
+    const supported = key ? Number(modelInfo[key]) : undefined;
+    const requested = this.numCtx ?? OLLAMA_DEFAULT_CONTEXT;
+
+    return supported ? Math.min(requested, supported) : requested;
+  }
+
+  private getRequestHeaders(): Record<string, string> {
+    const headers = this.getHeaders();
+    if (this.apiKey !== 'not-required') {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Report an unreachable server as CONNECTION_REFUSED
+   */
+  private async withConnectionErrors<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNREFUSED') {
+        throw new LLMError(
+          'Cannot connect to Ollama. Make sure it is running.',
+          'CONNECTION_REFUSED',
+          { baseURL: this.baseURL }
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -9,23 +9,32 @@ import {
   TokenUsage, 
   LLMError 
 } from '../types/index.js';
-import { BaseLLMAdapter, LLMAdapterConfig } from './base-llm-adapter.js';
+import { BaseLLMAdapter, LLMAdapterConfig, StreamState, EmbeddingBatch } from './base-llm-adapter.js';
+import { ServerSentEvent } from './server-sent-events.js';
 
 export interface OpenAIConfig extends LLMAdapterConfig {
   organization?: string;
   azureDeployment?: string; // For Azure OpenAI
+  structuredOutput?: boolean; // Send response_format json_schema for every model (default: only models known to accept it)
 }
 
+// Models that accept response_format json_schema (the first gpt-4o snapshot predates it)
+const STRUCTURED_OUTPUT_MODELS = /^(ft:)?(gpt-4o|gpt-4\.1|gpt-5|o\d)/;
+const NO_STRUCTURED_OUTPUT_MODELS = ['gpt-4o-2024-05-13'];
+
 export class OpenAIAdapter extends BaseLLMAdapter {
   private organization?: string;
   private azureDeployment?: string;
   private isAzure: boolean;
+  private structuredOutput?: boolean;
 
   constructor(config: OpenAIConfig) {
     super(config);
     this.organization = config.organization;
     this.azureDeployment = config.azureDeployment;
     this.isAzure = !!config.azureDeployment;
+    this.structuredOutput = config.structuredOutput;
+    this.embeddingBatchSize = 2048; // Maximum inputs per embeddings request
   }
 
   protected getProviderName(): string {
@@ -59,7 +68,7 @@ export class OpenAIAdapter extends BaseLLMAdapter {
       content: request.prompt
     });
     
-    return {
+    const preparedRequest: any = {
       model: request.model || this.defaultModel,
       messages,
       temperature: request.temperature ?? 0.7,
@@ -70,29 +79,29 @@ export class OpenAIAdapter extends BaseLLMAdapter {
       n: 1,
       stream: false
     };
-  }
-
-  protected async makeAPICall(preparedRequest: any): Promise<any> {
-    const endpoint = this.isAzure 
-      ? `${this.baseURL}/openai/deployments/${preparedRequest.model}/chat/completions?api-version=2024-02-15-preview`
-      : `${this.baseURL}/chat/completions`;
     
-    const headers: Record<string, string> = this.isAzure
-      ? {
-          ...this.getHeaders(),
-          'api-key': this.apiKey
+    if (request.responseSchema && this.supportsStructuredOutput(request)) {
+      preparedRequest.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseSchema.name,
+          description: request.responseSchema.description,
+          schema: request.responseSchema.schema,
+          strict: request.responseSchema.strict ?? false
         }
-      : {
-          ...this.getHeaders(),
-          'Authorization': `Bearer ${this.apiKey}`
-        };
-    
-    if (this.organization && !this.isAzure) {
-      headers['OpenAI-Organization'] = this.organization;
+      };
     }
     
+    return preparedRequest;
+  }
+
+  protected async makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any> {
+    const endpoint = this.getCompletionsEndpoint(preparedRequest.model);
+    const headers = this.getAuthHeaders();
+    
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const unlink = this.linkAbortSignal(controller, signal);
     
     try {
       const response = await fetch(endpoint, {
@@ -105,13 +114,13 @@ export class OpenAIAdapter extends BaseLLMAdapter {
       clearTimeout(timeoutId);
       
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(error.error?.message || `API error: ${response.status}`);
+        throw await this.createHTTPError(response);
       }
       
       return await response.json();
     } catch (error: any) {
       clearTimeout(timeoutId);
+      this.throwIfAborted(signal);
       
       if (error.name === 'AbortError') {
         throw new LLMError(
@@ -122,6 +131,8 @@ export class OpenAIAdapter extends BaseLLMAdapter {
       }
       
       throw error;
+    } finally {
+      unlink();
     }
   }
 
@@ -157,6 +168,77 @@ export class OpenAIAdapter extends BaseLLMAdapter {
     };
   }
 
+  protected supportsStreaming(): boolean {
+    return true;
+  }
+
+  /**
+   * Older models (gpt-4, gpt-4-turbo, gpt-3.5) reject json_schema with a 400,
+   * so they get the schema as prompt instructions and the repair path instead
+   */
+  protected supportsStructuredOutput(request?: LLMRequest): boolean {
+    if (this.structuredOutput !== undefined) {
+      return this.structuredOutput;
+    }
+    
+    const model = request?.model || this.defaultModel;
+    return STRUCTURED_OUTPUT_MODELS.test(model) &&
+      !NO_STRUCTURED_OUTPUT_MODELS.some(prefix => model.startsWith(prefix));
+  }
+
+  protected prepareStreamRequest(request: LLMRequest): any {
+    return {
+      ...this.prepareRequest(request),
+      stream: true,
+      stream_options: { include_usage: true } // Final chunk carries usage
+    };
+  }
+
+  protected async openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(this.getCompletionsEndpoint(preparedRequest.model), {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(preparedRequest),
+      signal
+    });
+    
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+    
+    return response;
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    if (event.data === '[DONE]') {
+      return '';
+    }
+    
+    const chunk = JSON.parse(event.data);
+    if (chunk.error) {
+      throw new Error(chunk.error.message || 'Stream error');
+    }
+    
+    state.model = chunk.model || state.model;
+    if (chunk.system_fingerprint) {
+      state.metadata.systemFingerprint = chunk.system_fingerprint;
+    }
+    if (chunk.usage) {
+      state.promptTokens = chunk.usage.prompt_tokens;
+      state.completionTokens = chunk.usage.completion_tokens;
+    }
+    
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return '';
+    }
+    if (choice.finish_reason) {
+      state.metadata.finishReason = choice.finish_reason;
+    }
+    
+    return choice.delta?.content || '';
+  }
+
   protected calculateCost(usage: TokenUsage, model: string): number {
     // Pricing as of early 2024 (per 1K tokens)
     const pricing: Record<string, { input: number; output: number }> = {
@@ -176,6 +258,65 @@ export class OpenAIAdapter extends BaseLLMAdapter {
     return inputCost + outputCost;
   }
 
+  protected supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    return 'text-embedding-3-small';
+  }
+
+  protected async makeEmbeddingCall(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    const endpoint = this.isAzure
+      ? `${this.baseURL}/openai/deployments/${model}/embeddings?api-version=2024-02-15-preview`
+      : `${this.baseURL}/embeddings`;
+    
+    const response = await this.postJSON(endpoint, { model, input: texts }, this.getAuthHeaders(), signal);
+    
+    return {
+      embeddings: [...response.data]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding),
+      promptTokens: response.usage?.prompt_tokens,
+      model: response.model
+    };
+  }
+
+  protected calculateEmbeddingCost(promptTokens: number, model: string): number {
+    // Pricing per 1K tokens
+    const pricing: Record<string, number> = {
+      'text-embedding-3-small': 0.00002,
+      'text-embedding-3-large': 0.00013,
+      'text-embedding-ada-002': 0.0001
+    };
+    
+    return (promptTokens / 1000) * (pricing[model] ?? pricing['text-embedding-3-small']);
+  }
+
+  private getCompletionsEndpoint(model: string): string {
+    return this.isAzure 
+      ? `${this.baseURL}/openai/deployments/${model}/chat/completions?api-version=2024-02-15-preview`
+      : `${this.baseURL}/chat/completions`;
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = this.isAzure
+      ? {
+          ...this.getHeaders(),
+          'api-key': this.apiKey
+        }
+      : {
+          ...this.getHeaders(),
+          'Authorization': `Bearer ${this.apiKey}`
+        };
+    
+    if (this.organization && !this.isAzure) {
+      headers['OpenAI-Organization'] = this.organization;
+    }
+    
+    return headers;
+  }
+
   /**
    * Get available models
    */
@@ -0,0 +1,334 @@
+/**
+ * OpenAI-Compatible Adapter for  System
+ * Supports any server exposing the OpenAI chat completions API,
+ * such as vLLM, llama.cpp server and LocalAI
+ */
+
+import {
+  LLMRequest,
+  LLMResponse,
+  LLMModel,
+  TokenUsage,
+  LLMError
+} from '../types/index.js';
+import { BaseLLMAdapter, LLMAdapterConfig, StreamState, EmbeddingBatch } from './base-llm-adapter.js';
+import { ServerSentEvent } from './server-sent-events.js';
+
+export interface OpenAICompatibleModelConfig {
+  id: string;
+  name?: string;
+  contextWindow?: number;
+  capabilities?: string[];
+  costPerToken?: number;
+  latency?: number;
+}
+
+export interface OpenAICompatibleConfig extends Omit<LLMAdapterConfig, 'apiKey'> {
+  baseURL: string;                  // e.g. http://localhost:8000/v1
+  apiKey?: string;                  // Sent as a bearer token when set
+  providerName?: string;            // Name reported in errors and metrics (default 'openai-compatible')
+  headers?: Record<string, string>; // Extra headers sent with every request
+  models?: Array<string | OpenAICompatibleModelConfig>; // Static model list; skips /models discovery
+  contextWindow?: number;           // Context window of discovered models the server doesn't describe (default 4096)
+  costPerToken?: number;            // Cost of models without their own (default 0)
+  structuredOutput?: boolean;       // Server honours response_format json_schema (default false)
+  embeddingModel?: string;          // Enables embed() with this model
+}
+
+const NO_API_KEY = 'not-required';
+
+export class OpenAICompatibleAdapter extends BaseLLMAdapter {
+  private providerName: string;
+  private extraHeaders: Record<string, string>;
+  private modelConfigs?: OpenAICompatibleModelConfig[];
+  private contextWindow: number;
+  private costPerToken: number;
+  private structuredOutput: boolean;
+  private embeddingModel?: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super({ ...config, apiKey: config.apiKey || NO_API_KEY });
+    this.baseURL = config.baseURL.replace(/\/+$/, '');
+    this.providerName = config.providerName || 'openai-compatible';
+    this.extraHeaders = config.headers || {};
+    this.modelConfigs = config.models?.map(model => typeof model === 'string' ? { id: model } : model);
+    this.contextWindow = config.contextWindow ?? 4096;
+    this.costPerToken = config.costPerToken ?? 0;
+    this.structuredOutput = config.structuredOutput ?? false;
+    this.embeddingModel = config.embeddingModel;
+
+    // Without an explicit default, use the first configured model
+    if (!config.defaultModel && this.modelConfigs?.length) {
+      this.defaultModel = this.modelConfigs[0].id;
+    }
+  }
+
+  protected getProviderName(): string {
+    return this.providerName ?? 'openai-compatible';
+  }
+
+  protected getDefaultBaseURL(): string {
+    return 'http://localhost:8000/v1';
+  }
+
+  protected getDefaultModel(): string {
+    // Servers serving a single model generally accept any name
+    return 'default';
+  }
+
+  protected prepareRequest(request: LLMRequest): any {
+    const messages = [];
+
+    if (request.systemPrompt) {
+      messages.push({
+        role: 'system',
+        content: request.systemPrompt
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: request.prompt
+    });
+
+    const preparedRequest: any = {
+      model: request.model || this.defaultModel,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 2000,
+      stream: false
+    };
+
+    if (request.responseSchema && this.structuredOutput) {
+      preparedRequest.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseSchema.name,
+          schema: request.responseSchema.schema,
+          strict: request.responseSchema.strict ?? false
+        }
+      };
+    }
+
+    return preparedRequest;
+  }
+
+  protected async makeAPICall(preparedRequest: any, signal?: AbortSignal): Promise<any> {
+    return this.withConnectionErrors(
+      () => this.postJSON(`${this.baseURL}/chat/completions`, preparedRequest, this.getRequestHeaders(), signal)
+    );
+  }
+
+  protected processResponse(response: any, request: LLMRequest): LLMResponse {
+    const choice = response.choices[0];
+    const usage = response.usage || {};
+
+    // Not every server reports token counts
+    const promptTokens = usage.prompt_tokens ?? this.estimateTokens(request.prompt);
+    const completionTokens = usage.completion_tokens ?? this.estimateTokens(choice.message.content || '');
+    const model = response.model || request.model || this.defaultModel;
+
+    const tokenUsage: TokenUsage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens ?? (promptTokens + completionTokens),
+      cost: 0
+    };
+    tokenUsage.cost = this.calculateCost(tokenUsage, model);
+
+    return {
+      content: choice.message.content || '',
+      model,
+      usage: tokenUsage,
+      latency: 0, // Will be set by base class
+      metadata: {
+        ...request.metadata,
+        finishReason: choice.finish_reason,
+        provider: this.providerName
+      }
+    };
+  }
+
+  protected supportsStreaming(): boolean {
+    return true;
+  }
+
+  protected supportsStructuredOutput(): boolean {
+    return this.structuredOutput;
+  }
+
+  protected prepareStreamRequest(request: LLMRequest): any {
+    return {
+      ...this.prepareRequest(request),
+      stream: true,
+      stream_options: { include_usage: true } // Ignored by servers that don't report usage
+    };
+  }
+
+  protected async openStream(preparedRequest: any, signal: AbortSignal): Promise<Response> {
+    const response = await this.withConnectionErrors(() => fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: this.getRequestHeaders(),
+      body: JSON.stringify(preparedRequest),
+      signal
+    }));
+
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+
+    return response;
+  }
+
+  protected parseStreamEvent(event: ServerSentEvent, state: StreamState): string {
+    if (event.data === '[DONE]') {
+      return '';
+    }
+
+    const chunk = JSON.parse(event.data);
+    if (chunk.error) {
+      throw new Error(chunk.error.message || 'Stream error');
+    }
+
+    state.model = chunk.model || state.model;
+    if (chunk.usage) {
+      state.promptTokens = chunk.usage.prompt_tokens;
+      state.completionTokens = chunk.usage.completion_tokens;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      return '';
+    }
+    if (choice.finish_reason) {
+      state.metadata.finishReason = choice.finish_reason;
+    }
+
+    return choice.delta?.content || '';
+  }
+
+  protected calculateCost(usage: TokenUsage, model: string): number {
+    const configured = this.modelConfigs?.find(m => m.id === model);
+    return usage.totalTokens * (configured?.costPerToken ?? this.costPerToken);
+  }
+
+  protected supportsEmbeddings(): boolean {
+    return !!this.embeddingModel;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    return this.embeddingModel || '';
+  }
+
+  protected async makeEmbeddingCall(texts: string[], model: string, signal?: AbortSignal): Promise<EmbeddingBatch> {
+    const response = await this.withConnectionErrors(
+      () => this.postJSON(`${this.baseURL}/embeddings`, { model, input: texts }, this.getRequestHeaders(), signal)
+    );
+
+    return {
+      embeddings: [...response.data]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding),
+      promptTokens: response.usage?.prompt_tokens,
+      model: response.model
+    };
+  }
+
+  /**
+   * Models served, from the configured list or the server's /models endpoint
+   */
+  async getAvailableModels(): Promise<LLMModel[]> {
+    if (this.modelConfigs) {
+      return this.modelConfigs.map(model => this.toLLMModel(model));
+    }
+
+    const response = await this.withConnectionErrors(() => fetch(`${this.baseURL}/models`, {
+      headers: this.getRequestHeaders()
+    }));
+
+    if (!response.ok) {
+      throw await this.createHTTPError(response);
+    }
+
+    const data = await response.json();
+    return (data.data || []).map((model: any) => this.toLLMModel({
+      id: model.id,
+      // vLLM reports max_model_len, llama.cpp server its training context
+      contextWindow: model.max_model_len ?? model.meta?.n_ctx_train
+    }));
+  }
+
+  /**
+   * Check if the server is reachable
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseURL}/models`, { headers: this.getRequestHeaders() });
+      return response.ok;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get model capabilities (estimated from the model name)
+   */
+  getModelCapabilities(model: string): string[] {
+    const capabilities = ['text-generation', 'chat'];
+    const name = model.toLowerCase();
+
+    if (name.includes('code') || name.includes('coder')) {
+      capabilities.push('code-generation');
+    }
+
+    if (name.includes('instruct') || name.includes('chat')) {
+      capabilities.push('instruction-following');
+    }
+
+    return capabilities;
+  }
+
+  // === Private helpers ===
+
+  private toLLMModel(model: OpenAICompatibleModelConfig): LLMModel {
+    return {
+      id: model.id,
+      name: model.name || model.id,
+      contextWindow: model.contextWindow ?? this.contextWindow,
+      capabilities: model.capabilities || this.getModelCapabilities(model.id),
+      costPerToken: model.costPerToken ?? this.costPerToken,
+      latency: model.latency ?? 1000
+    };
+  }
+
+  private getRequestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.getHeaders(),
+      ...this.extraHeaders
+    };
+
+    if (this.apiKey !== NO_API_KEY) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Report an unreachable server as CONNECTION_REFUSED
+   */
+  private async withConnectionErrors<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED' || error.cause?.code === 'ECONNREFUSED') {
+        throw new LLMError(
+          `Cannot connect to ${this.providerName} at ${this.baseURL}. Make sure the server is running.`,
+          'CONNECTION_REFUSED',
+          { baseURL: this.baseURL }
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Rate Limiter for LLM providers
+ * Token-bucket scheduler enforcing requests/minute, tokens/minute and
+ * concurrent request limits. Shared by every caller of a provider's adapter.
+ */
+
+import { LLMError, RateLimit } from '../types/index.js';
+
+export interface RateLimitPermit {
+  /**
+   * Return the slot. Pass the actual token usage to reconcile the
+   * estimate; omit it when the call failed and consumed nothing.
+   */
+  release(actualTokens?: number): void;
+  /**
+   * Return the slot for a call that was never sent, refunding its request
+   * and its token reservation
+   */
+  cancel(): void;
+}
+
+export interface RateLimiterStats {
+  queued: number;
+  inFlight: number;
+  availableRequests: number;
+  availableTokens: number;
+  pausedForMs: number;
+  totalWaitMs: number;
+  rateLimitedCount: number;
+}
+
+interface QueuedAcquire {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: (permit: RateLimitPermit) => void;
+  detach: () => void; // Stops listening for the caller's abort
+}
+
+export class RateLimiter {
+  private readonly limits: RateLimit;
+  private requestBucket: number;
+  private tokenBucket: number;
+  private lastRefill: number;
+  private inFlight: number = 0;
+  private pausedUntil: number = 0;
+  private queue: QueuedAcquire[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Metrics
+  private totalWaitMs: number = 0;
+  private rateLimitedCount: number = 0;
+
+  constructor(limits: RateLimit) {
+    this.limits = { ...limits };
+    this.requestBucket = limits.requestsPerMinute || 0;
+    this.tokenBucket = limits.tokensPerMinute || 0;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for capacity for a call expected to use estimatedTokens. If signal
+   * aborts first, the caller leaves the queue and the promise rejects with
+   * REQUEST_ABORTED.
+   */
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<RateLimitPermit> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index === -1) return; // Already granted
+        this.queue.splice(index, 1);
+        reject(abortError(signal!));
+        this.pump(); // It may have been holding back the rest of the queue
+      };
+      const waiter: QueuedAcquire = {
+        tokens: Math.max(0, estimatedTokens),
+        enqueuedAt: Date.now(),
+        resolve,
+        detach: () => signal?.removeEventListener('abort', onAbort)
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Stop starting new calls for ms (e.g. after a 429 with Retry-After)
+   */
+  pause(ms: number): void {
+    this.rateLimitedCount++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.pump();
+  }
+
+  getStats(): RateLimiterStats {
+    const now = Date.now();
+    this.refill(now);
+
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      availableRequests: Math.floor(this.requestBucket),
+      availableTokens: Math.floor(this.tokenBucket),
+      pausedForMs: Math.max(0, this.pausedUntil - now),
+      totalWaitMs: this.totalWaitMs,
+      rateLimitedCount: this.rateLimitedCount
+    };
+  }
+
+  // === Private helpers ===
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    this.refill(now);
+
+    // FIFO: a large request at the head holds back smaller ones behind it
+    while (this.queue.length > 0) {
+      const head = this.queue[0];
+      const tokens = this.clampTokens(head.tokens);
+      const wait = this.getWaitTime(tokens, now);
+
+      if (wait === Infinity) {
+        return; // A release() will pump again
+      }
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, wait);
+        return;
+      }
+
+      this.queue.shift();
+      if (this.limits.requestsPerMinute > 0) this.requestBucket -= 1;
+      if (this.limits.tokensPerMinute > 0) this.tokenBucket -= tokens;
+      this.inFlight++;
+      this.totalWaitMs += now - head.enqueuedAt;
+      head.detach();
+      head.resolve(this.createPermit(tokens));
+    }
+  }
+
+  private getWaitTime(tokens: number, now: number): number {
+    const { requestsPerMinute, tokensPerMinute, concurrentRequests } = this.limits;
+
+    if (concurrentRequests > 0 && this.inFlight >= concurrentRequests) {
+      return Infinity;
+    }
+
+    let wait = Math.max(0, this.pausedUntil - now);
+
+    if (requestsPerMinute > 0 && this.requestBucket < 1) {
+      wait = Math.max(wait, (1 - this.requestBucket) / (requestsPerMinute / 60000));
+    }
+
+    if (tokensPerMinute > 0 && this.tokenBucket < tokens) {
+      wait = Math.max(wait, (tokens - this.tokenBucket) / (tokensPerMinute / 60000));
+    }
+
+    return Math.ceil(wait);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    if (elapsed <= 0) return;
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    if (requestsPerMinute > 0) {
+      this.requestBucket = Math.min(requestsPerMinute, this.requestBucket + elapsed * requestsPerMinute / 60000);
+    }
+    if (tokensPerMinute > 0) {
+      this.tokenBucket = Math.min(tokensPerMinute, this.tokenBucket + elapsed * tokensPerMinute / 60000);
+    }
+  }
+
+  private clampTokens(tokens: number): number {
+    // A request larger than the whole budget would otherwise never run
+    return this.limits.tokensPerMinute > 0 ? Math.min(tokens, this.limits.tokensPerMinute) : tokens;
+  }
+
+  private createPermit(reservedTokens: number): RateLimitPermit {
+    let released = false;
+
+    const release = (actualTokens: number, refundRequest: boolean) => {
+      if (released) return;
+      released = true;
+
+      this.inFlight--;
+      if (refundRequest && this.limits.requestsPerMinute > 0) {
+        this.requestBucket = Math.min(this.limits.requestsPerMinute, this.requestBucket + 1);
+      }
+      if (this.limits.tokensPerMinute > 0) {
+        // Refund the unused reservation, or go into debt if the estimate was low
+        const refund = reservedTokens - actualTokens;
+        this.tokenBucket = Math.min(this.limits.tokensPerMinute, this.tokenBucket + refund);
+      }
+      this.pump();
+    };
+
+    return {
+      release: (actualTokens?: number) => release(actualTokens ?? 0, false),
+      cancel: () => release(0, true)
+    };
+  }
+}
+
+function abortError(signal: AbortSignal): LLMError {
+  return new LLMError(
+    'Request aborted by caller',
+    'REQUEST_ABORTED',
+    { reason: signal.reason instanceof Error ? signal.reason.message : signal.reason },
+    false
+  );
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether an adapter error represents a provider rate limit
+ */
+export function isRateLimitError(error: any): boolean {
+  return error?.status === 429 || error?.statusCode === 429 || error?.code === 'RATE_LIMIT_ERROR';
+}
+
+/**
+ * Retry delay requested by the provider for an adapter error, if any
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  if (typeof error?.retryAfterMs === 'number') {
+    return error.retryAfterMs;
+  }
+  return parseRetryAfter(error?.context?.retryAfter);
+}
@@ -0,0 +1,118 @@
+/**
+ * Recording Adapter for  System
+ * Wraps any adapter and records request → response pairs to a fixture file
+ * for later offline replay with ReplayAdapter
+ */
+
+import {
+  LLMRequest,
+  LLMResponse,
+  TokenUsage
+} from '../types/index.js';
+import { BaseLLMAdapter, TokenCallback } from './base-llm-adapter.js';
+import { Tokenizer } from './tokenizer.js';
+import {
+  LLMFixtureFile,
+  hashFixtureKey,
+  loadFixtureFile,
+  saveFixtureFile
+} from './llm-fixtures.js';
+
+export interface RecordingAdapterConfig {
+  adapter: BaseLLMAdapter; // Adapter that makes the real calls
+  fixturePath: string;
+  autoSave?: boolean;      // Write the file after every recorded call (default true)
+}
+
+export class RecordingAdapter extends BaseLLMAdapter {
+  private inner: BaseLLMAdapter;
+  private fixturePath: string;
+  private autoSave: boolean;
+  private fixtures: LLMFixtureFile;
+  private recordedCount: number = 0;
+
+  constructor(config: RecordingAdapterConfig) {
+    super({ apiKey: 'not-required', maxRetries: 1 });
+    this.inner = config.adapter;
+    this.fixturePath = config.fixturePath;
+    this.autoSave = config.autoSave ?? true;
+
+    // Extend existing fixtures rather than replacing them
+    this.fixtures = loadFixtureFile(this.fixturePath);
+  }
+
+  async generateCompletion<T = unknown>(request: LLMRequest): Promise<LLMResponse<T>> {
+    const response = await this.inner.generateCompletion<T>(request);
+    this.record(request, response);
+    return response;
+  }
+
+  async streamCompletion<T = unknown>(request: LLMRequest, onToken?: TokenCallback): Promise<LLMResponse<T>> {
+    const response = await this.inner.streamCompletion<T>(request, onToken);
+    this.record(request, response);
+    return response;
+  }
+
+  /**
+   * Write recorded fixtures to disk
+   */
+  save(): void {
+    saveFixtureFile(this.fixturePath, this.fixtures);
+  }
+
+  /**
+   * Number of calls recorded by this instance
+   */
+  getRecordedCount(): number {
+    return this.recordedCount;
+  }
+
+  getTokenizer(model?: string): Tokenizer {
+    return this.inner.getTokenizer(model);
+  }
+
+  protected getProviderName(): string {
+    return 'recording';
+  }
+
+  protected getDefaultBaseURL(): string {
+    return '';
+  }
+
+  protected getDefaultModel(): string {
+    return '';
+  }
+
+  protected prepareRequest(request: LLMRequest): any {
+    return request;
+  }
+
+  protected async makeAPICall(preparedRequest: any): Promise<any> {
+    return this.inner.generateCompletion(preparedRequest);
+  }
+
+  protected processResponse(response: any, request: LLMRequest): LLMResponse {
+    return response;
+  }
+
+  protected calculateCost(usage: TokenUsage, model: string): number {
+    // The wrapped adapter has already priced the call
+    return usage.cost;
+  }
+
+  private record(request: LLMRequest, response: LLMResponse): void {
+    const requestKey = this.getRequestKey(request);
+
+    this.fixtures.entries[hashFixtureKey(requestKey)] = {
+      request: JSON.parse(requestKey),
+      response,
+      recordedAt: new Date().toISOString()
+    };
+    this.recordedCount++;
+    this.updateMetrics(response, response.latency);
+
+    if (this.autoSave) {
+      this.save();
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Replay Adapter for  System
+ * Serves responses recorded by RecordingAdapter with no network access.
+ * Any request that was not recorded fails immediately.
+ */
+
+import {
+  LLMRequest,
+  LLMResponse,
+  TokenUsage,
+  LLMError
+} from '../types/index.js';
+import { BaseLLMAdapter, TokenCallback } from './base-llm-adapter.js';
+import {
+  LLMFixtureFile,
+  hashFixtureKey,
+  loadFixtureFile
+} from './llm-fixtures.js';
+
+export interface ReplayAdapterConfig {
+  fixturePath: string;
+}
+
+export class ReplayAdapter extends BaseLLMAdapter {
+  private fixturePath: string;
+  private fixtures: LLMFixtureFile;
+  private replayedKeys: Set<string> = new Set();
+
+  constructor(config: ReplayAdapterConfig) {
+    super({ apiKey: 'not-required', maxRetries: 1 });
+    this.fixturePath = config.fixturePath;
+    this.fixtures = loadFixtureFile(this.fixturePath, true);
+  }
+
+  async generateCompletion<T = unknown>(request: LLMRequest): Promise<LLMResponse<T>> {
+    const response = this.lookup(request);
+    this.updateMetrics(response, response.latency);
+    return response;
+  }
+
+  async streamCompletion<T = unknown>(request: LLMRequest, onToken?: TokenCallback): Promise<LLMResponse<T>> {
+    const response = await this.generateCompletion<T>(request);
+    const tokenCallback = onToken ?? request.onToken;
+
+    // Deliver line by line so streaming consumers see incremental output
+    if (tokenCallback) {
+      for (const chunk of response.content.match(/[^\n]*\n|[^\n]+/g) || []) {
+        tokenCallback(chunk);
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Fixture keys that have not been requested yet, useful for spotting stale fixtures
+   */
+  getUnusedFixtureKeys(): string[] {
+    return Object.keys(this.fixtures.entries).filter(key => !this.replayedKeys.has(key));
+  }
+
+  protected getProviderName(): string {
+    return 'replay';
+  }
+
+  protected getDefaultBaseURL(): string {
+    return '';
+  }
+
+  protected getDefaultModel(): string {
+    return '';
+  }
+
+  protected prepareRequest(request: LLMRequest): any {
+    return request;
+  }
+
+  protected async makeAPICall(preparedRequest: any): Promise<any> {
+    return this.lookup(preparedRequest);
+  }
+
+  protected processResponse(response: any, request: LLMRequest): LLMResponse {
+    return response;
+  }
+
+  protected calculateCost(usage: TokenUsage, model: string): number {
+    return usage.cost;
+  }
+
+  private lookup(request: LLMRequest): LLMResponse {
+    const key = hashFixtureKey(this.getRequestKey(request));
+    const entry = this.fixtures.entries[key];
+
+    if (!entry) {
+      throw new LLMError(
+        `No recorded response for request ${key.slice(0, 12)} (model: ${request.model}, purpose: ${request.metadata?.purpose ?? 'unknown'}) in ${this.fixturePath}. Re-record with RecordingAdapter.`,
+        'REPLAY_FIXTURE_MISSING',
+        {
+          fixturePath: this.fixturePath,
+          key,
+          model: request.model,
+          promptPreview: request.prompt.slice(0, 200)
+        },
+        false
+      );
+    }
+
+    this.replayedKeys.add(key);
+
+    return {
+      ...entry.response,
+      metadata: { ...entry.response.metadata, replayed: true }
+    };
+  }
+}
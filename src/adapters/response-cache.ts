@@ -0,0 +1,367 @@
+/**
+ * Response Cache for LLM adapters
+ * Completions keyed by their request, kept in a pluggable store: an in-memory
+ * LRU, one file per entry in a directory, or a single append-only file. Entries
+ * expire after a TTL; hits, misses and what they saved are tracked.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMRequest, LLMResponse } from '../types/index.js';
+import { hashFixtureKey } from './llm-fixtures.js';
+
+export interface CacheEntry {
+  response: LLMResponse;
+  storedAt: number;
+  expiresAt: number | null; // Null never expires
+}
+
+export interface ResponseCacheStore {
+  readonly name: string;
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+  size(): number;
+}
+
+export interface ResponseCacheConfig {
+  store?: ResponseCacheStore;   // Default: in-memory LRU of 1000 entries
+  ttlMs?: number;               // Default 1 hour; Infinity keeps entries until evicted
+  deterministicOnly?: boolean;  // Only cache temperature-0 requests
+  deterministicTtlMs?: number;  // TTL for temperature-0 requests, when they should live longer
+}
+
+export interface ResponseCacheStats {
+  store: string;
+  size: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  expired: number;      // Misses caused by an expired entry
+  bytesSaved: number;   // Response content served from the cache
+  tokensSaved: number;
+  costSaved: number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MEMORY_ENTRIES = 1000;
+
+/**
+ * Least-recently-used entries are evicted first
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  readonly name = 'memory';
+  private entries: Map<string, CacheEntry> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = DEFAULT_MEMORY_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map order is insertion order, so re-inserting marks the entry as recent
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * One JSON file per entry, named by the hashed key and sharded by its first
+ * two characters. Survives restarts and can be shared between processes.
+ */
+export class FileSystemCacheStore implements ResponseCacheStore {
+  readonly name = 'filesystem';
+  private readonly directory: string;
+  private entryCount: number | null = null; // Counted from disk once, then kept up to date
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const filePath = this.entryPath(key);
+    if (!fs.existsSync(filePath)) return undefined;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      // Hash collisions are vanishingly rare, but a wrong answer is worse than a miss
+      return stored.key === key ? stored.entry : undefined;
+    } catch (error) {
+      // Partially written or corrupt entries count as misses
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    const filePath = this.entryPath(key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (this.entryCount !== null && !fs.existsSync(filePath)) this.entryCount++;
+
+    // Write then rename, so readers never see a partial entry
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ key, entry }), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  delete(key: string): void {
+    const filePath = this.entryPath(key);
+    if (this.entryCount !== null && fs.existsSync(filePath)) this.entryCount--;
+    fs.rmSync(filePath, { force: true });
+  }
+
+  clear(): void {
+    fs.rmSync(this.directory, { recursive: true, force: true });
+    this.entryCount = 0;
+  }
+
+  /**
+   * Entries written or removed by other processes sharing the directory are
+   * not seen after the first call
+   */
+  size(): number {
+    if (this.entryCount === null) {
+      this.entryCount = this.countEntries();
+    }
+    return this.entryCount;
+  }
+
+  private countEntries(): number {
+    if (!fs.existsSync(this.directory)) return 0;
+
+    return fs.readdirSync(this.directory).reduce((count, shard) => {
+      const shardPath = path.join(this.directory, shard);
+      return fs.statSync(shardPath).isDirectory()
+        ? count + fs.readdirSync(shardPath).filter(file => file.endsWith('.json')).length
+        : count;
+    }, 0);
+  }
+
+  private entryPath(key: string): string {
+    const hash = hashFixtureKey(key);
+    return path.join(this.directory, hash.slice(0, 2), `${hash}.json`);
+  }
+}
+
+/**
+ * Every entry in one append-only file of JSON lines, indexed in memory on open.
+ * Like a SQLite database it is a single file to copy or delete; the log is
+ * compacted once superseded lines outnumber live entries.
+ */
+export class SingleFileCacheStore implements ResponseCacheStore {
+  readonly name = 'single-file';
+  private readonly filePath: string;
+  private entries: Map<string, CacheEntry> = new Map();
+  private staleLines: number = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  get(key: string): CacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    if (this.entries.has(key)) this.staleLines++;
+    this.entries.set(key, entry);
+    this.append({ key, entry });
+  }
+
+  delete(key: string): void {
+    if (!this.entries.delete(key)) return;
+    this.staleLines += 2; // The entry and its tombstone
+    this.append({ key, deleted: true });
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.staleLines = 0;
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Rewrite the file with only live entries
+   */
+  compact(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    const lines = Array.from(this.entries.entries()).map(([key, entry]) => JSON.stringify({ key, entry }) + '\n');
+    fs.writeFileSync(tempPath, lines.join(''), 'utf8');
+    fs.renameSync(tempPath, this.filePath);
+    this.staleLines = 0;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    let corrupt = false;
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        // A write cut short by a crash leaves a partial last line
+        corrupt = true;
+        continue;
+      }
+
+      if (this.entries.has(record.key)) this.staleLines++;
+      if (record.deleted) {
+        this.entries.delete(record.key);
+        this.staleLines++;
+      } else {
+        this.entries.set(record.key, record.entry);
+      }
+    }
+
+    // Rewrite before appending, so the next line doesn't run on from the partial one
+    if (corrupt) {
+      this.compact();
+    }
+  }
+
+  private append(record: any): void {
+    if (this.staleLines > 100 && this.staleLines > this.entries.size) {
+      this.compact();
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+  }
+}
+
+/**
+ * TTL and admission policy over a store, with hit statistics
+ */
+export class ResponseCache {
+  private readonly backend: ResponseCacheStore;
+  private readonly ttlMs: number;
+  private readonly deterministicOnly: boolean;
+  private readonly deterministicTtlMs: number;
+
+  // Statistics
+  private hits: number = 0;
+  private misses: number = 0;
+  private expired: number = 0;
+  private bytesSaved: number = 0;
+  private tokensSaved: number = 0;
+  private costSaved: number = 0;
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.backend = config.store || new MemoryCacheStore();
+    this.ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
+    this.deterministicOnly = config.deterministicOnly ?? false;
+    this.deterministicTtlMs = config.deterministicTtlMs ?? this.ttlMs;
+  }
+
+  /**
+   * Whether the policy admits a request
+   */
+  isCacheable(request: LLMRequest): boolean {
+    return !this.deterministicOnly || request.temperature === 0;
+  }
+
+  /**
+   * Cached response for a request, recording a hit or a miss
+   */
+  lookup(key: string, request: LLMRequest): LLMResponse | undefined {
+    if (!this.isCacheable(request)) return undefined;
+
+    let entry = this.backend.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.backend.delete(key);
+      this.expired++;
+      entry = undefined;
+    }
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.bytesSaved += Buffer.byteLength(entry.response.content, 'utf8');
+    this.tokensSaved += entry.response.usage.totalTokens;
+    this.costSaved += entry.response.usage.cost;
+    return entry.response;
+  }
+
+  /**
+   * Store a response, if the policy admits its request
+   */
+  store(key: string, request: LLMRequest, response: LLMResponse): void {
+    if (!this.isCacheable(request)) return;
+
+    const ttl = request.temperature === 0 ? this.deterministicTtlMs : this.ttlMs;
+    const storedAt = Date.now();
+    this.backend.set(key, {
+      response,
+      storedAt,
+      expiresAt: Number.isFinite(ttl) ? storedAt + ttl : null
+    });
+  }
+
+  clear(): void {
+    this.backend.clear();
+  }
+
+  getStats(): ResponseCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.backend.name,
+      size: this.backend.size(),
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      expired: this.expired,
+      bytesSaved: this.bytesSaved,
+      tokensSaved: this.tokensSaved,
+      costSaved: this.costSaved
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.expired = 0;
+    this.bytesSaved = 0;
+    this.tokensSaved = 0;
+    this.costSaved = 0;
+  }
+}
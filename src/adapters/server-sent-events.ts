@@ -0,0 +1,120 @@
+/**
+ * Server-Sent Events reader for streaming LLM responses
+ * Implements the subset of the SSE wire format used by LLM providers,
+ * plus the newline-delimited JSON framing some local servers use instead
+ */
+
+export interface ServerSentEvent {
+  event?: string; // Value of the `event:` field, if any
+  data: string;   // `data:` lines joined with newlines
+}
+
+/**
+ * Read an SSE body, invoking onEvent for each dispatched event.
+ * Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join('\n') });
+    }
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+
+    // Comment lines (often used as keep-alives)
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') {
+      eventName = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        processLine(buffer.slice(0, newline).replace(/\r$/, ''));
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+
+    // Flush whatever the provider left without a trailing blank line
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      processLine(buffer.replace(/\r$/, ''));
+    }
+    dispatch();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a newline-delimited JSON body (as streamed by Ollama), invoking
+ * onEvent with each non-empty line as the event data
+ */
+export async function readJSONLines(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const processLine = (line: string) => {
+    const data = line.trim();
+    if (data) {
+      onEvent({ data });
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        processLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+
+    buffer += decoder.decode();
+    processLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
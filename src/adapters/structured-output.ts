@@ -0,0 +1,182 @@
+/**
+ * Structured Output for  System
+ * Parses a completion as JSON, validates it against the request's JSON
+ * schema, and builds the repair prompt sent when validation fails.
+ * Covers the schema keywords the extractors use, not all of JSON Schema.
+ */
+
+import { LLMRequest, JSONSchema, StructuredOutputSchema } from '../types/index.js';
+
+export interface StructuredOutputResult {
+  value?: any;       // Parsed JSON, present whenever the content parsed
+  errors: string[];  // Empty when the value matches the schema
+}
+
+/**
+ * Parse content as JSON, tolerating code fences, surrounding prose and trailing commas
+ */
+export function extractJSON(content: string): { ok: true; value: any } | { ok: false; error: string } {
+  const stripped = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const candidates = [stripped];
+  const start = stripped.search(/[[{]/);
+  const end = Math.max(stripped.lastIndexOf('}'), stripped.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    const sliced = stripped.slice(start, end + 1);
+    candidates.push(sliced, sliced.replace(/,\s*([}\]])/g, '$1'));
+  }
+
+  let lastError = 'No JSON found in response';
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return { ok: false, error: lastError };
+}
+
+/**
+ * Parse and validate a completion against a schema
+ */
+export function parseStructuredOutput(content: string, schema: JSONSchema): StructuredOutputResult {
+  const parsed = extractJSON(content);
+  if (!parsed.ok) {
+    return { errors: [`Response is not valid JSON: ${parsed.error}`] };
+  }
+  return { value: parsed.value, errors: validateJSONSchema(parsed.value, schema) };
+}
+
+/**
+ * Validation errors of value against schema, each prefixed with its JSON path
+ */
+export function validateJSONSchema(value: any, schema: JSONSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: any) => option === value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((o: any) => JSON.stringify(o)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJSONSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+
+    (schema.required || []).forEach((key: string) => {
+      if (!(key in value)) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    });
+
+    Object.entries(value).forEach(([key, child]) => {
+      if (properties[key]) {
+        errors.push(...validateJSONSchema(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJSONSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Request with the schema spelled out in the system prompt, for providers without native support
+ */
+export function withSchemaInstructions(request: LLMRequest, spec: StructuredOutputSchema): LLMRequest {
+  const instructions = `Respond ONLY with a JSON value matching this JSON schema${spec.description ? ` (${spec.description})` : ''}:
+${JSON.stringify(spec.schema)}`;
+
+  return {
+    ...request,
+    systemPrompt: request.systemPrompt ? `${request.systemPrompt}\n\n${instructions}` : instructions
+  };
+}
+
+/**
+ * Follow-up request asking the model to fix its previous output
+ */
+export function buildRepairRequest(
+  request: LLMRequest,
+  spec: StructuredOutputSchema,
+  previousContent: string,
+  errors: string[]
+): LLMRequest {
+  return withSchemaInstructions({
+    ...request,
+    prompt: `${request.prompt}
+
+Your previous response did not match the required JSON schema.
+
+PREVIOUS RESPONSE:
+${previousContent}
+
+PROBLEMS:
+${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+Return ONLY the corrected JSON, with no other text.`,
+    temperature: Math.min(request.temperature ?? 0.7, 0.2)
+  }, spec);
+}
+
+// === Private helpers ===
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'null': return value === null;
+    default: return typeof value === type; // string, boolean
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,268 @@
+/**
+ * Tokenizers for  System
+ * Token counts for prompt sizing and context-window checks. OpenAI models are
+ * counted with byte-pair encoding when the encoding's rank file is available
+ * (tiktoken's .tiktoken format, found in TIKTOKEN_RANKS_DIR or registered with
+ * loadBPEEncoding); other providers, and OpenAI without rank files, get an
+ * approximation tuned to the provider's tokenizer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Tokenizer {
+  readonly name: string;
+  readonly exact: boolean; // False for approximations
+  countTokens(text: string): number;
+}
+
+export type BPEEncodingName = 'cl100k_base' | 'o200k_base';
+
+// Pre-tokenization patterns of the tiktoken encodings. Built at runtime because
+// Unicode property escapes need an es2018 target at compile time.
+const CONTRACTIONS = `'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])`;
+const SPLIT_PATTERNS: Record<BPEEncodingName, string> = {
+  cl100k_base: `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+  o200k_base: [
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+    `\\p{N}{1,3}`,
+    ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+    `\\s*[\\r\\n]+`,
+    `\\s+(?!\\S)`,
+    `\\s+`
+  ].join('|')
+};
+
+const PIECE_CACHE_SIZE = 10000;
+
+/**
+ * Byte-level BPE as used by OpenAI models
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name: string;
+  readonly exact = true;
+  private readonly ranks: Map<string, number>; // Token bytes as a latin1 string → rank
+  private readonly pattern: string;
+  private pieceCache: Map<string, number> = new Map();
+
+  constructor(name: BPEEncodingName, ranks: Map<string, number>) {
+    this.name = name;
+    this.ranks = ranks;
+    this.pattern = SPLIT_PATTERNS[name];
+  }
+
+  /**
+   * Load ranks from a .tiktoken file: one "<base64 token> <rank>" pair per line
+   */
+  static fromFile(name: BPEEncodingName, filePath: string): BPETokenizer {
+    const ranks = new Map<string, number>();
+
+    for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+      const [token, rank] = line.trim().split(' ');
+      if (token && rank) {
+        ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+      }
+    }
+
+    return new BPETokenizer(name, ranks);
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const match of text.matchAll(new RegExp(this.pattern, 'gu'))) {
+      count += this.countPiece(match[0]);
+    }
+    return count;
+  }
+
+  private countPiece(piece: string): number {
+    const cached = this.pieceCache.get(piece);
+    if (cached !== undefined) return cached;
+
+    const count = this.bytePairCount(Buffer.from(piece, 'utf8').toString('latin1'));
+
+    if (this.pieceCache.size >= PIECE_CACHE_SIZE) {
+      this.pieceCache.clear();
+    }
+    this.pieceCache.set(piece, count);
+    return count;
+  }
+
+  /**
+   * Merge the lowest-ranked adjacent pair until none is in the vocabulary
+   */
+  private bytePairCount(bytes: string): number {
+    if (this.ranks.has(bytes)) return 1;
+
+    const parts = bytes.split('');
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+
+      if (best === -1) break;
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+
+    return parts.length;
+  }
+}
+
+export interface ApproximationProfile {
+  wordCharsPerToken: number; // Letters per token within a word
+  scale: number;             // Correction applied to the total
+}
+
+/**
+ * Per-provider profiles, fitted on English prose and code
+ */
+export const APPROXIMATION_PROFILES: Record<string, ApproximationProfile> = {
+  openai: { wordCharsPerToken: 5.5, scale: 1.0 },
+  anthropic: { wordCharsPerToken: 5.0, scale: 1.12 },
+  gemini: { wordCharsPerToken: 5.5, scale: 0.95 },
+  local: { wordCharsPerToken: 5.0, scale: 1.05 }, // Llama, Mistral, Qwen and similar
+  default: { wordCharsPerToken: 5.0, scale: 1.1 }
+};
+
+/**
+ * Token estimate from the same pre-tokenization as BPE, without a vocabulary:
+ * words cost by length, digit groups and punctuation runs by count, and
+ * non-Latin characters one each
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  readonly name: string;
+  readonly exact = false;
+  private readonly profile: ApproximationProfile;
+  private readonly pattern = new RegExp(SPLIT_PATTERNS.cl100k_base, 'gu');
+
+  constructor(profileName: string) {
+    this.name = `approximate:${profileName}`;
+    this.profile = APPROXIMATION_PROFILES[profileName] || APPROXIMATION_PROFILES.default;
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+
+    for (const match of text.matchAll(this.pattern)) {
+      const piece = match[0].trim();
+      if (!piece) {
+        count += 1; // Whitespace runs
+      } else if (/^[A-Za-z']+$/.test(piece)) {
+        count += Math.ceil(piece.length / this.profile.wordCharsPerToken);
+      } else {
+        const nonLatin = (piece.match(/[^\x00-\x7f]/g) || []).length;
+        const ascii = piece.length - nonLatin;
+        count += nonLatin + Math.ceil(ascii / (/^\d+$/.test(piece) ? 3 : 2));
+      }
+    }
+
+    return Math.ceil(count * this.profile.scale);
+  }
+}
+
+// === Registry ===
+
+const bpeEncodings: Map<BPEEncodingName, BPETokenizer | null> = new Map();
+const approximations: Map<string, ApproximateTokenizer> = new Map();
+const overrides: Map<string, Tokenizer> = new Map();
+
+/**
+ * Load a BPE encoding's rank file for OpenAI models
+ */
+export function loadBPEEncoding(name: BPEEncodingName, filePath: string): BPETokenizer {
+  const tokenizer = BPETokenizer.fromFile(name, filePath);
+  bpeEncodings.set(name, tokenizer);
+  return tokenizer;
+}
+
+/**
+ * Use a custom tokenizer for a provider, or for one model ("provider/model")
+ */
+export function registerTokenizer(key: string, tokenizer: Tokenizer): void {
+  overrides.set(key, tokenizer);
+}
+
+/**
+ * BPE encoding of an OpenAI model
+ */
+export function getOpenAIEncoding(model: string): BPEEncodingName {
+  return /^(gpt-4o|gpt-4\.1|gpt-5|o[1-9]|chatgpt-4o)/.test(model) ? 'o200k_base' : 'cl100k_base';
+}
+
+/**
+ * Tokenizer for a provider (adapter provider name or LLMProvider id) and model
+ */
+export function getTokenizer(provider: string = 'default', model: string = ''): Tokenizer {
+  const override = overrides.get(`${provider}/${model}`) || overrides.get(provider);
+  if (override) return override;
+
+  const isOpenAI = provider === 'openai' || provider === 'azure-openai' ||
+    /^(gpt-|o[1-9]|chatgpt|text-embedding-)/.test(model);
+
+  if (isOpenAI) {
+    const bpe = getBPEEncoding(getOpenAIEncoding(model));
+    if (bpe) return bpe;
+  }
+
+  return getApproximation(isOpenAI ? 'openai' : profileForProvider(provider));
+}
+
+/**
+ * Longest prefix of text within maxTokens, cut at a word boundary when possible
+ */
+export function truncateToTokens(tokenizer: Tokenizer, text: string, maxTokens: number, marker: string = '…'): string {
+  if (tokenizer.countTokens(text) <= maxTokens) return text;
+  if (maxTokens <= 0) return '';
+
+  // Binary search on length; token counts grow with prefix length
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (tokenizer.countTokens(text.slice(0, mid) + marker) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const prefix = text.slice(0, low);
+  const boundary = prefix.lastIndexOf(' ');
+  return (boundary > low * 0.8 ? prefix.slice(0, boundary) : prefix) + marker;
+}
+
+// === Private helpers ===
+
+function getBPEEncoding(name: BPEEncodingName): BPETokenizer | null {
+  if (!bpeEncodings.has(name)) {
+    const dir = process.env.TIKTOKEN_RANKS_DIR;
+    const filePath = dir ? path.join(dir, `${name}.tiktoken`) : '';
+
+    // Looked up once; without the file OpenAI models are approximated
+    bpeEncodings.set(name, filePath && fs.existsSync(filePath) ? BPETokenizer.fromFile(name, filePath) : null);
+  }
+  return bpeEncodings.get(name)!;
+}
+
+function getApproximation(profileName: string): ApproximateTokenizer {
+  let tokenizer = approximations.get(profileName);
+  if (!tokenizer) {
+    tokenizer = new ApproximateTokenizer(profileName);
+    approximations.set(profileName, tokenizer);
+  }
+  return tokenizer;
+}
+
+function profileForProvider(provider: string): string {
+  if (provider in APPROXIMATION_PROFILES) return provider;
+  if (['lmstudio', 'ollama', 'openai-compatible'].includes(provider)) return 'local';
+  return 'default';
+}
@@ -9,7 +9,7 @@
 import { SpecializationEngine } from './specialization-engine';
 import { MorphologyManager, EmergentProperty } from './morphology-manager';
 import { CapabilityEvolution } from './capability-evolution';
-import { PerformanceTracker } from './performance-tracker';
+import { PerformanceTracker, PerformanceTrackerSnapshot } from './performance-tracker';
 
 export interface AgentCapability {
   id: string;
@@ -38,6 +38,19 @@ export interface AgentMorphology {
   adaptationHistory: any[];
 }
 
+/**
+ * Serializable learned state of an AdaptiveAgent
+ */
+export interface AdaptiveAgentSnapshot {
+  id: string;
+  capabilities: AgentCapability[];
+  morphology: AgentMorphology;
+  adaptationHistory: any[];
+  fitnessScore: number;
+  generationCount: number;
+  performance: PerformanceTrackerSnapshot;
+}
+
 /**
  * AdaptiveAgent - Self-modifying agent with dynamic specialization
  */
@@ -215,6 +228,37 @@ export class AdaptiveAgent {
     };
   }
 
+  /**
+   * Capture learned state (capabilities, morphology, fitness, performance)
+   */
+  saveState(): AdaptiveAgentSnapshot {
+    return {
+      id: this.id,
+      capabilities: Array.from(this.capabilities.values()),
+      morphology: this.currentMorphology,
+      adaptationHistory: [...this.adaptationHistory],
+      fitnessScore: this.fitnessScore,
+      generationCount: this.generationCount,
+      performance: this.performanceTracker.saveState()
+    };
+  }
+
+  /**
+   * Restore learned state captured by saveState()
+   */
+  loadState(snapshot: AdaptiveAgentSnapshot): void {
+    this.capabilities = new Map();
+    snapshot.capabilities.forEach(cap => {
+      const normalizedCap = this.normalizeCapability(cap);
+      this.capabilities.set(normalizedCap.id, normalizedCap);
+    });
+    this.currentMorphology = snapshot.morphology;
+    this.adaptationHistory = [...snapshot.adaptationHistory];
+    this.fitnessScore = snapshot.fitnessScore;
+    this.generationCount = snapshot.generationCount;
+    this.performanceTracker.loadState(snapshot.performance);
+  }
+
   /**
    * Crossover with another agent for evolutionary development
    */
@@ -35,6 +35,11 @@ export interface PerformanceRecord {
   userSatisfaction?: number;
 }
 
+export interface PerformanceTrackerSnapshot {
+  history: PerformanceRecord[];
+  learningCurves: LearningCurve[];
+}
+
 export interface LearningCurve {
   capability: string;
   dataPoints: LearningPoint[];
@@ -246,6 +251,25 @@ export class PerformanceTracker {
     };
   }
 
+  /**
+   * Capture recorded history and learning curves
+   */
+  saveState(): PerformanceTrackerSnapshot {
+    return {
+      history: [...this.performanceHistory],
+      learningCurves: Array.from(this.learningCurves.values())
+    };
+  }
+
+  /**
+   * Restore state captured by saveState(); derived analyses are recomputed lazily
+   */
+  loadState(snapshot: PerformanceTrackerSnapshot): void {
+    this.performanceHistory = [...snapshot.history];
+    this.learningCurves = new Map(snapshot.learningCurves.map(curve => [curve.capability, curve]));
+    this.analysisCache.clear();
+  }
+
   /**
    * Analyze performance patterns
    */
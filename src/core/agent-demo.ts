@@ -218,7 +218,9 @@ Return ONLY the JSON object, no explanation or additional text.`;
     };
 
     try {
-      const response = await openAIAdapter.generateCompletion(enhancedRequest);
+      const response = request.onToken
+        ? await openAIAdapter.streamCompletion(enhancedRequest, request.onToken)
+        : await openAIAdapter.generateCompletion(enhancedRequest);
 
       // Debug: Log raw response if enabled
       if (process.env.DEBUG_OPENAI_RESPONSES === 'true') {
@@ -382,7 +384,14 @@ async function example1_basicQueryProcessing() {
   const query = "What are the primary feedback loops in climate change?";
   console.log(`Query: "${query}"\n`);
   
+  // Show reasoning steps live as the model streams them
+  agent.setReasoningStepListener((step, capability) => {
+    console.log(`  ▸ [${capability.name}] ${step.type.toUpperCase()} (${step.concept}): ${step.content}`);
+  });
+  
   const message = await agent.processQuery(query, { domain: 'climate_science' }, openAILLMInterface);
+  agent.setReasoningStepListener(null);
+  console.log('');
   
   // Display comprehensive reasoning chain visualization
   await displayReasoningChain(message, openAILLMInterface);
@@ -9,12 +9,14 @@ import {
   Message,
   MessageContent,
   MessageMetadata,
+  ContextTrimRecord,
   ReasoningChain,
   ReasoningStep,
   ReasoningType,
   Evidence,
   ConfidenceInterval,
   BayesianBelief,
+  BeliefDelta,
   HTMState,
   TemporalContext,
   SemanticPosition,
@@ -23,6 +25,7 @@ import {
   Prediction,
   LLMRequest,
   LLMResponse,
+  EmbeddingInterface,
   AgentError,
   Config,
   LogicalStatement,
@@ -34,15 +37,58 @@ import {
 } from '../types/index.js';
 
 // Import our  components
-import { HTMRegion } from '../core/htm/htm-region.js';
+import { HTMRegion, HTMRegionSnapshot } from '../core/htm/htm-region.js';
 import { SequenceMemory } from '../core/temporal/sequence-memory.js';
 import { TemporalContextManager } from '../core/temporal/temporal-context.js';
-import { BayesianNetwork } from '../evidence/bayesian/bayesian-network.js';
+import { BayesianNetwork, BayesianNetworkState } from '../evidence/bayesian/bayesian-network.js';
 import { InferenceEngine } from '../evidence/bayesian/inference-engine.js';
+import { EvidenceCase, ParameterLearner, SoftEvidenceCase } from '../evidence/bayesian/parameter-learner.js';
+import {
+  DynamicBayesianNetwork,
+  DynamicBayesianNetworkState,
+  BeliefSlice
+} from '../evidence/bayesian/dynamic-bayesian-network.js';
+import {
+  StructureLearner,
+  StructureLearningOptions,
+  StructureLearningResult,
+  StructureComparison
+} from '../evidence/bayesian/structure-learner.js';
 import { UncertaintyMetrics } from '../evidence/uncertainty/uncertainty-metrics.js';
-import { AdaptiveAgent } from '../agents/dynamic/adaptive-agent.js';
-import { SemanticEncoder, SemanticEncodingResult } from './semantic/index.js';
+import { AdaptiveAgent, AdaptiveAgentSnapshot } from '../agents/dynamic/adaptive-agent.js';
+import { SemanticEncoder, SemanticEncodingResult, SemanticEncoderState } from './semantic/index.js';
 import { DomainAwareAnomalyCalculator } from './htm/domain-aware-anomaly.js';
+import { SnapshotFormat, encodeSnapshot, decodeSnapshot } from './snapshot-codec.js';
+import { PromptBudget, availablePromptTokens, fitContext } from './context-budget.js';
+import { Tokenizer, truncateToTokens } from '../adapters/tokenizer.js';
+
+export const AGENT_CHECKPOINT_VERSION = 1;
+
+// Parameter learning runs after every query, so it sees a bounded window and few EM iterations
+const MAX_EVIDENCE_CASES = 50;
+const PARAMETER_LEARNING_ITERATIONS = 10;
+
+// Rounds of new evidence between structure re-fits
+const STRUCTURE_REFIT_INTERVAL = 10;
+
+// Smaller belief changes are not reported
+const BELIEF_DELTA_EPSILON = 1e-6;
+
+// Outcome predictions forecast this many queries ahead, for the most decided concepts
+const OUTCOME_FORECAST_STEPS = 3;
+const MAX_OUTCOME_PREDICTIONS = 3;
+const DEFAULT_QUERY_INTERVAL_MS = 60000; // Until there are two queries to measure
+
+export type ReasoningStepListener = (step: ReasoningStep, capability: AgentCapability) => void;
+
+/**
+ * A structure re-fit, and how its edges differ from those it replaced
+ */
+export interface StructureFit {
+  result: StructureLearningResult;
+  comparison: StructureComparison; // Learned vs. previous (heuristic) edges
+  fittedAt: Date;
+}
 
 export interface AgentConfig {
   id: string;
@@ -50,6 +96,32 @@ export interface AgentConfig {
   description: string;
   initialCapabilities: AgentCapability[];
   config: Partial<Config>;
+  semanticEncoder?: SemanticEncoder; // Shared with other agents; otherwise each agent builds its own
+  embeddingInterface?: EmbeddingInterface; // Provider embeddings for the encoder the agent builds
+}
+
+/**
+ * Everything needed to bring a trained agent back on another machine
+ */
+export interface AgentCheckpoint {
+  version: number;
+  createdAt: Date;
+  identity: { id: string; name: string; description: string };
+  config: Config;
+  capabilities: AgentCapability[];
+  morphology: AgentMorphology;
+  adaptiveCore: AdaptiveAgentSnapshot;
+  htmRegion: HTMRegionSnapshot;
+  bayesianNetwork: BayesianNetworkState;
+  currentBelief: BayesianBelief;
+  currentHTMState: HTMState;
+  previousHTMPredictions: number[];
+  iteration: number;
+  messageHistory: Message[];
+  performanceHistory: PerformanceMetric[];
+  semanticEncoder: SemanticEncoderState | null; // null if the encoder was never created
+  evidenceCases?: Array<SoftEvidenceCase | EvidenceCase>; // Absent before parameter learning; observed states before soft evidence learning
+  beliefDynamics?: DynamicBayesianNetworkState; // Absent in checkpoints from before belief filtering
 }
 
 export class Agent {
@@ -72,10 +144,20 @@ export class Agent {
   private bayesianNetwork!: BayesianNetwork;
   private inferenceEngine!: InferenceEngine;
   private uncertaintyMetrics!: UncertaintyMetrics;
+  private evidenceCases: SoftEvidenceCase[] = []; // Recent soft evidence the CPTs are learned from
+  private beliefDynamics!: DynamicBayesianNetwork; // Beliefs filtered across queries
+  private casesSinceStructureFit: number = 0;
+  private lastStructureFit: StructureFit | null = null;
   
   // Semantic encoding
   private semanticEncoder!: SemanticEncoder;
+  private sharedSemanticEncoder: boolean = false;
+  private embeddingInterface?: EmbeddingInterface;
   private lastSemanticEncoding: SemanticEncodingResult | null = null;
+  private pendingSemanticState: SemanticEncoderState | null = null; // Restored before the encoder exists
+  
+  // Live reasoning output
+  private reasoningStepListener: ReasoningStepListener | null = null;
   
   // Domain-aware anomaly detection
   private domainAnomalyCalculator?: DomainAwareAnomalyCalculator;
@@ -99,6 +181,12 @@ export class Agent {
     // Initialize configuration with defaults
     this.config = this.mergeWithDefaults(config.config);
     
+    if (config.semanticEncoder) {
+      this.semanticEncoder = config.semanticEncoder;
+      this.sharedSemanticEncoder = true;
+    }
+    this.embeddingInterface = config.embeddingInterface;
+    
     // Initialize capabilities
     this.capabilities = new Map();
     config.initialCapabilities.forEach(cap => {
@@ -146,37 +234,39 @@ export class Agent {
   }
 
   /**
-   * Process a query and generate a  response
+   * Process a query and generate a  response. With a prompt budget, reasoning
+   * prompts are trimmed to fit the model's context window. A deliberation
+   * round (context.deliberation) revisits a question already answered, so its
+   * evidence updates beliefs without being learned from again.
    */
   async processQuery(
     query: string,
     context: any = {},
-    llmInterface: (request: LLMRequest) => Promise<LLMResponse>
+    llmInterface: (request: LLMRequest) => Promise<LLMResponse>,
+    promptBudget?: PromptBudget
   ): Promise<Message> {
     const startTime = Date.now();
     
     // Initialize semantic encoder if not already done
-    if (!this.semanticEncoder) {
-      this.semanticEncoder = new SemanticEncoder(llmInterface, {
-        numColumns: this.config.htm.columnCount,
-        sparsity: 0.08,  // Increased from 0.02 to allow more overlap
-        // Pass through semantic configuration if provided
-        ...(this.config.semantic || {})
-      });
-    }
+    this.ensureSemanticEncoder(llmInterface);
+    
+    // A deliberation round re-asks a question the agent already answered: it
+    // reasons again, but learns nothing and records nothing from it
+    const learn = context?.deliberation === undefined;
     
     try {
       // 1. Update temporal context
-      const temporalPattern = await this.updateTemporalContext(query);
+      const { temporalPattern, htmState } = await this.updateTemporalContext(query, learn);
       
       // 2. Generate reasoning chain
-      const reasoning = await this.generateReasoning(query, context, llmInterface);
+      const contextTrimming: ContextTrimRecord[] = [];
+      const reasoning = await this.generateReasoning(query, context, llmInterface, promptBudget, contextTrimming);
       
       // 3. Gather evidence
       const evidence = await this.gatherEvidence(query, reasoning, context);
       
       // 4. Update Bayesian beliefs
-      const belief = await this.updateBeliefs(evidence, reasoning);
+      const { belief, beliefDeltas } = await this.updateBeliefs(evidence, reasoning, learn);
       
       // 5. Calculate semantic position
       const semanticPosition = await this.calculateSemanticPosition(query, reasoning);
@@ -195,21 +285,27 @@ export class Agent {
         temporalContext: temporalPattern,
         predictions
       }, {
-        htmState: this.currentHTMState,
+        htmState,
         bayesianBelief: belief,
         uncertainty,
         morphologySnapshot: this.morphology,
-        processingTime: Date.now() - startTime
+        processingTime: Date.now() - startTime,
+        contextTrimming: contextTrimming.length > 0 ? contextTrimming : undefined,
+        beliefDeltas: beliefDeltas.length > 0 ? beliefDeltas : undefined
       });
       
-      // 9. Update performance tracking
-      await this.updatePerformance(message, query);
-      
-      // 10. Adapt if necessary
-      await this.adaptIfNecessary(message);
-      
-      // 11. Increment iteration counter
-      this.iteration++;
+      if (learn) {
+        this.recordMessage(message);
+        
+        // 9. Update performance tracking
+        await this.updatePerformance(message, query);
+        
+        // 10. Adapt if necessary
+        await this.adaptIfNecessary(message);
+        
+        // 11. Increment iteration counter
+        this.iteration++;
+      }
       
       return message;
       
@@ -223,9 +319,13 @@ export class Agent {
   }
 
   /**
-   * Update temporal context with new query
+   * Update temporal context with new query. Without learning, the HTM state
+   * is computed for this query only and the agent's context stays as it was.
    */
-  private async updateTemporalContext(query: string): Promise<TemporalContext> {
+  private async updateTemporalContext(
+    query: string,
+    learn: boolean
+  ): Promise<{ temporalPattern: TemporalContext; htmState: HTMState }> {
     // Encode query using semantic encoding and store the full result
     let encoding: boolean[];
     try {
@@ -238,18 +338,20 @@ export class Agent {
     }
     
     // Process through HTM
-    const output = this.htmRegion.compute(encoding, true);
+    const output = this.htmRegion.compute(encoding, learn);
     
     // Update temporal context
-    const contextPattern = new Array(50).fill(0); // 50 is the context dimensions
-    // Fill pattern with semantic information
-    const activeIndices = encoding.map((bit, idx) => bit ? idx : -1).filter(idx => idx >= 0);
-    for (let i = 0; i < Math.min(activeIndices.length, 50); i++) {
-      contextPattern[i] = activeIndices[i] / this.config.htm.columnCount; // Normalize to 0-1
+    if (learn) {
+      const contextPattern = new Array(50).fill(0); // 50 is the context dimensions
+      // Fill pattern with semantic information
+      const activeIndices = encoding.map((bit, idx) => bit ? idx : -1).filter(idx => idx >= 0);
+      for (let i = 0; i < Math.min(activeIndices.length, 50); i++) {
+        contextPattern[i] = activeIndices[i] / this.config.htm.columnCount; // Normalize to 0-1
+      }
+      
+      this.temporalContext.updateContext(contextPattern, Date.now());
     }
     
-    this.temporalContext.updateContext(contextPattern, Date.now());
-    
     // Get current context
     const contextData = this.temporalContext.getCurrentContext();
     
@@ -323,24 +425,31 @@ export class Agent {
       );
     }
     
-    this.currentHTMState = {
+    const htmState: HTMState = {
       activeColumns: activeColumnIndices,
       predictedColumns: predictedColumnIndices,
       anomalyScore: anomalyScore,
       sequenceId: this.generateSequenceId(),
-      learningEnabled: true
+      learningEnabled: learn
     };
     
-    // Store current predictions for next iteration
-    this.previousHTMPredictions = predictedColumnIndices;
+    if (learn) {
+      this.currentHTMState = htmState;
+      
+      // Store current predictions for next iteration
+      this.previousHTMPredictions = predictedColumnIndices;
+    }
     
     // Build temporal context
     return {
-      currentPattern: this.extractPatternFromArray(output.activeColumns),
-      patternHistory: this.getRecentPatterns(),
-      predictions: await this.getTemporalPredictions(),
-      stability: output.stability || 0.5,
-      periodicity: []
+      temporalPattern: {
+        currentPattern: this.extractPatternFromArray(output.activeColumns),
+        patternHistory: this.getRecentPatterns(),
+        predictions: await this.getTemporalPredictions(),
+        stability: output.stability || 0.5,
+        periodicity: []
+      },
+      htmState
     };
   }
 
@@ -350,29 +459,44 @@ export class Agent {
   private async generateReasoning(
     query: string,
     context: any,
-    llmInterface: (request: LLMRequest) => Promise<LLMResponse>
+    llmInterface: (request: LLMRequest) => Promise<LLMResponse>,
+    promptBudget?: PromptBudget,
+    contextTrimming: ContextTrimRecord[] = []
   ): Promise<ReasoningChain> {
     const steps: ReasoningStep[] = [];
+    const maxTokens = 500;
     
     // Select best capabilities for this query
     const selectedCapabilities = this.selectCapabilities(query, context);
     
     // Generate reasoning for each capability
     for (const capability of selectedCapabilities) {
-      const prompt = this.buildReasoningPrompt(query, context, capability, steps);
+      const systemPrompt = this.getSystemPrompt(capability);
+      const { prompt, trimming } = this.buildReasoningPrompt(query, context, capability, steps, promptBudget && {
+        tokenizer: promptBudget.tokenizer,
+        promptTokens: availablePromptTokens(promptBudget, maxTokens, systemPrompt)
+      });
+      if (trimming) {
+        contextTrimming.push(trimming);
+      }
       
-      // Call LLM
-      const response = await llmInterface({
-        model: this.selectModel(capability),
+      const request: LLMRequest = {
         prompt: prompt,
-        systemPrompt: this.getSystemPrompt(capability),
+        systemPrompt,
         temperature: 0.7,
-        maxTokens: 500,
-        metadata: { agentId: this.id, capability: capability.id, purpose: "generate-reasoning" }
-      });
+        maxTokens,
+        metadata: {
+          agentId: this.id,
+          capability: capability.id,
+          purpose: "generate-reasoning",
+          ...(trimming ? { contextTrimmed: true } : {})
+        }
+      };
       
-      // Parse reasoning steps
-      const newSteps = this.parseReasoningSteps(response.content, capability);
+      // Call LLM and parse reasoning steps, live if someone is listening
+      const newSteps = this.reasoningStepListener
+        ? await this.streamReasoningSteps(request, capability, llmInterface)
+        : this.parseReasoningSteps((await llmInterface(request)).content, capability);
       steps.push(...newSteps);
     }
     
@@ -393,6 +517,54 @@ export class Agent {
     };
   }
 
+  /**
+   * Request reasoning as a stream and parse each line as soon as it is complete,
+   * reporting steps to the reasoning step listener
+   */
+  private async streamReasoningSteps(
+    request: LLMRequest,
+    capability: AgentCapability,
+    llmInterface: (request: LLMRequest) => Promise<LLMResponse>
+  ): Promise<ReasoningStep[]> {
+    const liveSteps: ReasoningStep[] = [];
+    let streamedText = '';
+    let pending = '';
+    
+    const parseLine = (line: string) => {
+      if (!line.trim()) return;
+      const step = this.parseReasoningLine(line, capability, liveSteps);
+      liveSteps.push(step);
+      this.reasoningStepListener?.(step, capability);
+    };
+    
+    const response = await llmInterface({
+      ...request,
+      onToken: token => {
+        streamedText += token;
+        pending += token;
+        
+        let newline: number;
+        while ((newline = pending.indexOf('\n')) !== -1) {
+          parseLine(pending.slice(0, newline));
+          pending = pending.slice(newline + 1);
+        }
+      }
+    });
+    
+    if (!streamedText) {
+      // The interface does not stream, so report everything at once
+      response.content.split('\n').forEach(parseLine);
+      return liveSteps;
+    }
+    
+    parseLine(pending);
+    
+    // The interface may rewrite the response after streaming; the final content wins
+    return streamedText === response.content
+      ? liveSteps
+      : this.parseReasoningSteps(response.content, capability);
+  }
+
   /**
    * Gather evidence based on reasoning
    */
@@ -434,8 +606,9 @@ export class Agent {
    */
   private async updateBeliefs(
     evidence: Evidence[],
-    reasoning: ReasoningChain
-  ): Promise<BayesianBelief> {
+    reasoning: ReasoningChain,
+    learn: boolean
+  ): Promise<{ belief: BayesianBelief; beliefDeltas: BeliefDelta[] }> {
     // Create nodes for key concepts
     const concepts = this.extractConcepts(reasoning, evidence);
     
@@ -457,27 +630,48 @@ export class Agent {
     // Add edges based on reasoning connections
     this.updateNetworkEdges(reasoning);
     
-    // Set evidence
-    const evidenceMap: Record<string, string> = {};
-    evidence.forEach(ev => {
-      const concept = this.evidenceToConcept(ev);
-      if (concept && ev.confidence.mean > 0.7) {
-        evidenceMap[concept] = 'true';
+    // What this round's evidence says about each concept
+    const likelihoods = this.evidenceLikelihoods(this.evidenceFindings(evidence, reasoning));
+    
+    // Perform inference: every marginal from one junction tree pass, before
+    // and after this round's evidence is entered as soft evidence. Learning
+    // waits until after, so the evidence is counted once and the prior is
+    // what the agent believed before this query.
+    let priorMarginals = new Map<string, Map<string, number>>();
+    let marginals = new Map<string, Map<string, number>>();
+    try {
+      priorMarginals = this.inferenceEngine.getMarginals();
+      marginals = this.inferenceEngine.getMarginals(new Map(), likelihoods);
+    } catch (error) {
+      console.warn('Junction tree inference failed:', error);
+    }
+    
+    // Carry beliefs over from earlier queries: this query is the next time slice
+    if (learn) {
+      try {
+        this.beliefDynamics.step({ likelihoods });
+      } catch (error) {
+        console.warn('Belief filtering failed:', error);
       }
-    });
+      
+      // Learn CPTs from accumulated evidence, and periodically the structure too
+      this.learnParameters(likelihoods);
+      if (this.casesSinceStructureFit >= STRUCTURE_REFIT_INTERVAL) {
+        this.refitNetworkStructure();
+      }
+    }
     
-    // Perform inference
     const beliefs = new Map<string, any>();
     for (const node of this.bayesianNetwork.getAllNodes()) {
-      try {
-        const marginal = this.inferenceEngine.getMarginal(node.id);
+      const marginal = marginals.get(node.id);
+      if (marginal) {
         beliefs.set(node.id, {
           variable: node.id,
-          states: new Map(Object.entries(marginal)),
+          states: new Map(marginal),
           entropy: this.calculateEntropy(marginal),
           mostLikely: this.getMostLikely(marginal)
         });
-      } catch (error) {
+      } else {
         // Handle inference errors gracefully
         beliefs.set(node.id, {
           variable: node.id,
@@ -494,12 +688,121 @@ export class Agent {
       network: {
         nodes: this.bayesianNetwork.getAllNodes().map(n => n.id),
         edges: this.extractNetworkEdges(),
-        cpts: new Map() // Simplified for now
+        cpts: this.extractNetworkCPTs()
       },
       lastUpdate: new Date()
     };
     
-    return this.currentBelief;
+    return {
+      belief: this.currentBelief,
+      beliefDeltas: this.computeBeliefDeltas(priorMarginals, marginals)
+    };
+  }
+
+  /**
+   * The state each evidence item supports for the concept of its reasoning
+   * step, and how strongly (confidence × reliability). A claim refuted by a
+   * later reasoning step counts against its concept instead, as strongly as
+   * the refuting step is held.
+   */
+  private evidenceFindings(
+    evidence: Evidence[],
+    reasoning: ReasoningChain
+  ): Array<{ concept: string; state: string; strength: number }> {
+    return evidence.map(ev => {
+      const step = reasoning.steps.find(s => s.content === ev.content);
+      const concept = step ? step.concept : this.evidenceToConcept(ev);
+      const refutations = step ? reasoning.steps.filter(s => s.refuting.includes(step.id)) : [];
+      
+      return refutations.length > 0
+        ? { concept, state: 'false', strength: Math.max(...refutations.map(s => s.confidence.mean)) }
+        : { concept, state: 'true', strength: ev.confidence.mean * ev.metadata.reliability };
+    });
+  }
+
+  /**
+   * Soft evidence per concept: each finding makes its state more likely in
+   * proportion to its strength. Strength 0 leaves the belief alone; strength 1
+   * is the same as observing the state. Certain findings that contradict each
+   * other cancel out.
+   */
+  private evidenceLikelihoods(
+    findings: Array<{ concept: string; state: string; strength: number }>
+  ): SoftEvidenceCase {
+    const likelihoods: SoftEvidenceCase = new Map();
+    
+    findings.forEach(({ concept, state, strength }) => {
+      const node = concept ? this.bayesianNetwork.getNode(concept) : undefined;
+      if (!node || !node.states.includes(state)) return;
+      
+      const weight = 1 - Math.max(0, Math.min(1, strength));
+      const likelihood = likelihoods.get(concept) ?? new Map(node.states.map(s => [s, 1] as [string, number]));
+      node.states
+        .filter(s => s !== state)
+        .forEach(s => likelihood.set(s, likelihood.get(s)! * weight));
+      likelihoods.set(concept, likelihood);
+    });
+    
+    likelihoods.forEach((likelihood, concept) => {
+      if (Array.from(likelihood.values()).every(value => value === 0)) {
+        likelihoods.delete(concept);
+      }
+    });
+    
+    return likelihoods;
+  }
+
+  private computeBeliefDeltas(
+    prior: Map<string, Map<string, number>>,
+    posterior: Map<string, Map<string, number>>
+  ): BeliefDelta[] {
+    const deltas: BeliefDelta[] = [];
+    
+    posterior.forEach((states, variable) => {
+      let largest: BeliefDelta | null = null;
+      states.forEach((probability, state) => {
+        const before = prior.get(variable)?.get(state) ?? probability;
+        const change = probability - before;
+        if (Math.abs(change) > BELIEF_DELTA_EPSILON && (!largest || Math.abs(change) > Math.abs(largest.change))) {
+          largest = { variable, state, prior: before, posterior: probability, change };
+        }
+      });
+      if (largest) deltas.push(largest);
+    });
+    
+    return deltas.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+  }
+
+  /**
+   * Record this round's soft evidence and re-estimate the CPTs of the concepts
+   * it bears on and their children. EM weighs each case by its likelihoods and
+   * fills in unobserved parents, with the configured prior strength as the
+   * Dirichlet pseudo-count.
+   */
+  private learnParameters(likelihoods: SoftEvidenceCase): void {
+    const observation: SoftEvidenceCase = new Map(Array.from(likelihoods.entries())
+      .filter(([concept]) => this.bayesianNetwork.getNode(concept)));
+    if (observation.size === 0) return;
+    
+    this.evidenceCases.push(observation);
+    this.casesSinceStructureFit++;
+    if (this.evidenceCases.length > MAX_EVIDENCE_CASES) {
+      this.evidenceCases.shift();
+    }
+    
+    const nodes = new Set<string>();
+    for (const concept of observation.keys()) {
+      nodes.add(concept);
+      this.bayesianNetwork.getNode(concept)!.children.forEach(child => nodes.add(child));
+    }
+    
+    try {
+      new ParameterLearner(this.bayesianNetwork, this.inferenceEngine, this.config.bayesian.priorStrength)
+        .learnSoft(this.evidenceCases, { nodes: Array.from(nodes), maxIterations: PARAMETER_LEARNING_ITERATIONS });
+    } catch (error) {
+      // Keep the previous parameters; inference below still works with them
+      console.warn('Parameter learning failed:', error);
+    }
   }
 
   /**
@@ -564,9 +867,65 @@ export class Agent {
       });
     }
     
+    // Outcome predictions
+    predictions.push(...this.predictOutcomes(reasoning));
+    
     return predictions;
   }
 
+  /**
+   * Forecast this query's concepts a few queries ahead from the filtered
+   * beliefs, and predict the states they are most sure of
+   */
+  private predictOutcomes(reasoning: ReasoningChain): Prediction[] {
+    const concepts = Array.from(new Set(reasoning.steps.map(step => step.concept)))
+      .filter(concept => this.bayesianNetwork.getNode(concept));
+    if (concepts.length === 0 || !this.beliefDynamics.getCurrentBelief()) return [];
+    
+    let forecasts: BeliefSlice[];
+    try {
+      forecasts = this.beliefDynamics.forecast(OUTCOME_FORECAST_STEPS);
+    } catch (error) {
+      console.warn('Belief forecasting failed:', error);
+      return [];
+    }
+    
+    const horizon = forecasts[forecasts.length - 1];
+    const outcomes = concepts.map(concept => {
+      const distribution = horizon.get(concept)!;
+      const state = this.getMostLikely(distribution);
+      return {
+        concept,
+        state,
+        probability: distribution.get(state) || 0,
+        trajectory: forecasts.map(slice => slice.get(concept)?.get(state) || 0)
+      };
+    });
+    
+    return outcomes
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, MAX_OUTCOME_PREDICTIONS)
+      .map(outcome => ({
+        type: 'outcome' as const,
+        content: `${outcome.concept}: ${outcome.state} (p=${outcome.probability.toFixed(2)} in ${OUTCOME_FORECAST_STEPS} queries)`,
+        confidence: {
+          // Bounds span the forecast across the horizon
+          mean: outcome.probability,
+          lower: Math.min(...outcome.trajectory),
+          upper: Math.max(...outcome.trajectory),
+          method: 'bayesian' as const
+        },
+        timeframe: OUTCOME_FORECAST_STEPS * this.averageQueryInterval(),
+        basis: reasoning.steps.filter(step => step.concept === outcome.concept).map(step => step.id)
+      }));
+  }
+
+  private averageQueryInterval(): number {
+    const times = this.messageHistory.map(message => new Date(message.timestamp).getTime());
+    if (times.length < 2) return DEFAULT_QUERY_INTERVAL_MS;
+    return (times[times.length - 1] - times[0]) / (times.length - 1);
+  }
+
   /**
    * Estimate uncertainty in the response
    */
@@ -624,15 +983,19 @@ export class Agent {
       metadata
     };
     
-    // Add to history
+    return message;
+  }
+
+  /**
+   * Add a message to the history
+   */
+  private recordMessage(message: Message): void {
     this.messageHistory.push(message);
     
     // Maintain history size
     if (this.messageHistory.length > 100) {
       this.messageHistory = this.messageHistory.slice(-100);
     }
-    
-    return message;
   }
 
   /**
@@ -770,7 +1133,8 @@ export class Agent {
       stabilityThreshold: 0.8,
       spatialConfig: {
         synPermActiveInc: this.config.htm.learningRate,
-        synPermInactiveDec: this.config.htm.learningRate * 0.1
+        synPermInactiveDec: this.config.htm.learningRate * 0.1,
+        ...(this.config.htm.seed !== undefined ? { seed: this.config.htm.seed } : {})
       }
     });
     
@@ -801,9 +1165,22 @@ export class Agent {
     }
   }
 
+  private ensureSemanticEncoder(llmInterface: (request: LLMRequest) => Promise<LLMResponse>): void {
+    if (this.semanticEncoder) return;
+    
+    this.semanticEncoder = Agent.createSemanticEncoder(llmInterface, this.config, this.embeddingInterface);
+    
+    // Apply caches from a checkpoint restored before the first query
+    if (this.pendingSemanticState) {
+      this.semanticEncoder.importState(this.pendingSemanticState);
+      this.pendingSemanticState = null;
+    }
+  }
+
   private initializeBayesian(): void {
     this.bayesianNetwork = new BayesianNetwork();
     this.inferenceEngine = new InferenceEngine(this.bayesianNetwork);
+    this.beliefDynamics = new DynamicBayesianNetwork(this.bayesianNetwork);
     this.uncertaintyMetrics = new UncertaintyMetrics();
   }
 
@@ -881,6 +1258,19 @@ export class Agent {
     return edges;
   }
 
+  private extractNetworkCPTs(): Map<string, Map<string, Map<string, number>>> {
+    const cpts = new Map<string, Map<string, Map<string, number>>>();
+    
+    for (const node of this.bayesianNetwork.getAllNodes()) {
+      const cpt = this.bayesianNetwork.getCPT(node.id);
+      cpts.set(node.id, cpt
+        ? new Map(cpt.conditions)
+        : new Map([['', new Map(node.probabilities)]])); // Roots: prior under the empty condition
+    }
+    
+    return cpts;
+  }
+
   private extractPattern(activeColumns: Set<number>): string {
     // Convert active columns to pattern string
     return Array.from(activeColumns).sort().join('-');
@@ -948,34 +1338,106 @@ export class Agent {
     return Math.min(score, 1.0);
   }
 
-  private selectModel(capability: AgentCapability): string {
-    // Select model based on capability requirements
-    if (capability.specializations.includes('analytical')) {
-      return 'gpt-3.5-turbo';
-    } else if (capability.specializations.includes('creative')) {
-      return 'claude-3-opus';
-    }
-    return 'gpt-3.5-turbo';
-  }
-
+  /**
+   * Build the reasoning prompt. With a limit, context and previous steps are
+   * trimmed until the prompt fits, and the trimming is returned for logging.
+   */
   private buildReasoningPrompt(
     query: string,
     context: any,
     capability: AgentCapability,
-    previousSteps: ReasoningStep[]
+    previousSteps: ReasoningStep[],
+    limit?: { tokenizer: Tokenizer; promptTokens: number }
+  ): { prompt: string; trimming?: ContextTrimRecord } {
+    const stepLines = previousSteps.map(s =>
+      `- [${s.type.toUpperCase()}:${s.concept}${s.logicalForm ? '|' + s.logicalForm.formalNotation : ''}] ${s.content}`
+    );
+    const contextText = JSON.stringify(context, null, 2);
+    const render = (contextText: string, stepsText: string) =>
+      this.renderReasoningPrompt(query, contextText, stepsText ? `\n\nPrevious reasoning steps:\n${stepsText}` : '', capability);
+
+    const prompt = render(contextText, stepLines.join('\n'));
+    if (!limit) {
+      return { prompt };
+    }
+
+    const { tokenizer, promptTokens } = limit;
+    const originalTokens = tokenizer.countTokens(prompt);
+    if (originalTokens <= promptTokens) {
+      return { prompt };
+    }
+
+    // Steps get half of what the template leaves, or more when the context is small
+    const available = Math.max(0, promptTokens - tokenizer.countTokens(render('', '')));
+    const compactContextTokens = tokenizer.countTokens(JSON.stringify(context ?? {}));
+    const steps = this.fitPreviousSteps(
+      previousSteps,
+      stepLines,
+      tokenizer,
+      Math.max(Math.floor(available / 2), available - compactContextTokens)
+    );
+    const fittedContext = fitContext(context, tokenizer, available - tokenizer.countTokens(steps.text));
+
+    const trimmed = render(fittedContext.text, steps.text);
+    return {
+      prompt: trimmed,
+      trimming: {
+        stage: `reasoning:${capability.id}`,
+        budgetTokens: promptTokens,
+        originalTokens,
+        finalTokens: tokenizer.countTokens(trimmed),
+        actions: [...fittedContext.actions, ...steps.actions]
+      }
+    };
+  }
+
+  /**
+   * Keep the newest reasoning steps whole and summarize older ones by concept
+   */
+  private fitPreviousSteps(
+    previousSteps: ReasoningStep[],
+    stepLines: string[],
+    tokenizer: Tokenizer,
+    maxTokens: number
+  ): { text: string; actions: string[] } {
+    const full = stepLines.join('\n');
+    if (tokenizer.countTokens(full) <= maxTokens) {
+      return { text: full, actions: [] };
+    }
+
+    const summarize = (count: number) => {
+      if (count === 0) return '';
+      const concepts = Array.from(new Set(previousSteps.slice(0, count).map(s => s.concept)));
+      return `- (${count} earlier steps on: ${concepts.join(', ')})`;
+    };
+
+    // Drop the oldest steps into the summary until the rest fits
+    for (let summarized = 1; summarized <= previousSteps.length; summarized++) {
+      const summary = summarize(summarized);
+      const text = [summary, ...stepLines.slice(summarized)].join('\n');
+      if (tokenizer.countTokens(text) <= maxTokens) {
+        return { text, actions: [`summarized ${summarized} earlier reasoning steps`] };
+      }
+    }
+
+    return {
+      text: truncateToTokens(tokenizer, summarize(previousSteps.length), maxTokens),
+      actions: [`summarized ${previousSteps.length} earlier reasoning steps`, 'truncated reasoning step summary']
+    };
+  }
+
+  private renderReasoningPrompt(
+    query: string,
+    contextText: string,
+    previousContext: string,
+    capability: AgentCapability
   ): string {
-    const previousContext = previousSteps.length > 0
-      ? `\n\nPrevious reasoning steps:\n${previousSteps.map(s => 
-          `- [${s.type.toUpperCase()}:${s.concept}${s.logicalForm ? '|' + s.logicalForm.formalNotation : ''}] ${s.content}`
-        ).join('\n')}`
-      : '';
-    
     const focusAreas = capability.specializations.join(', ');
     
     return `You are a specialized reasoning agent with ${capability.name} capability.
 
 QUERY: ${query}
-CONTEXT: ${JSON.stringify(context, null, 2)}${previousContext}
+CONTEXT: ${contextText}${previousContext}
 
 INSTRUCTIONS:
 Generate reasoning steps in this EXACT format. Each line must follow this pattern:
@@ -1040,62 +1502,69 @@ Always answer the actual question posed, not analyze the words themselves.`;
     const steps: ReasoningStep[] = [];
     const lines = content.split('\n').filter(line => line.trim());
     
+    lines.forEach(line => {
+      steps.push(this.parseReasoningLine(line, capability, steps));
+    });
+    
+    return steps;
+  }
+
+  /**
+   * Parse a single reasoning line; steps are the lines already parsed from the same response
+   */
+  private parseReasoningLine(line: string, capability: AgentCapability, steps: ReasoningStep[]): ReasoningStep {
     // Enhanced regex to match [TYPE:CONCEPT|LOGICAL_FORM] format
     const stepPattern = /^\[([A-Z_]+):([^\]|]+)(?:\|([^\]]+))?\]\s*(.+)$/;
     
-    lines.forEach((line, index) => {
-      const match = line.match(stepPattern);
+    const match = line.match(stepPattern);
+    
+    if (match) {
+      const [_, type, concept, logicalFormNotation, reasoning] = match;
       
-      if (match) {
-        const [_, type, concept, logicalFormNotation, reasoning] = match;
-        
-        // Create logical form if notation provided
-        let logicalForm: LogicalStatement | undefined;
-        let inferenceRule: InferenceRule | undefined;
-        
-        if (logicalFormNotation) {
-          logicalForm = {
-            id: this.generateId('stmt'),
-            content: reasoning.trim(),
-            formalNotation: logicalFormNotation.trim(),
-            predicates: this.extractPredicates(logicalFormNotation),
-            quantifiers: this.extractQuantifiers(logicalFormNotation),
-            connectives: this.extractConnectives(logicalFormNotation)
-          };
-          
-          // Check if this step uses a known inference rule
-          inferenceRule = this.matchInferenceRule(type, logicalFormNotation, steps);
-        }
-        
-        steps.push({
-          id: this.generateId('step'),
-          type: this.normalizeType(type),
+      // Create logical form if notation provided
+      let logicalForm: LogicalStatement | undefined;
+      let inferenceRule: InferenceRule | undefined;
+      
+      if (logicalFormNotation) {
+        logicalForm = {
+          id: this.generateId('stmt'),
           content: reasoning.trim(),
-          concept: this.normalizeConcept(concept),
-          confidence: this.calculateStepConfidence(reasoning, type, steps),
-          supporting: this.findSupportingSteps(reasoning, concept, steps),
-          refuting: this.findRefutingSteps(reasoning, concept, steps),
-          logicalForm,
-          inferenceRule
-        });
-      } else {
-        // Fallback for non-conforming lines
-        console.warn(`Line doesn't match expected format: ${line}`);
+          formalNotation: logicalFormNotation.trim(),
+          predicates: this.extractPredicates(logicalFormNotation),
+          quantifiers: this.extractQuantifiers(logicalFormNotation),
+          connectives: this.extractConnectives(logicalFormNotation)
+        };
         
-        // Try to salvage what we can
-        steps.push({
-          id: this.generateId('step'),
-          type: this.inferReasoningType(line, capability),
-          content: line,
-          concept: this.extractFallbackConcept(line),
-          confidence: { mean: 0.5, lower: 0.4, upper: 0.6, method: 'normal' },
-          supporting: [],
-          refuting: []
-        });
+        // Check if this step uses a known inference rule
+        inferenceRule = this.matchInferenceRule(type, logicalFormNotation, steps);
       }
-    });
-    
-    return steps;
+      
+      return {
+        id: this.generateId('step'),
+        type: this.normalizeType(type),
+        content: reasoning.trim(),
+        concept: this.normalizeConcept(concept),
+        confidence: this.calculateStepConfidence(reasoning, type, steps),
+        supporting: this.findSupportingSteps(reasoning, concept, steps),
+        refuting: this.findRefutingSteps(reasoning, concept, steps),
+        logicalForm,
+        inferenceRule
+      };
+    } else {
+      // Fallback for non-conforming lines
+      console.warn(`Line doesn't match expected format: ${line}`);
+      
+      // Try to salvage what we can
+      return {
+        id: this.generateId('step'),
+        type: this.inferReasoningType(line, capability),
+        content: line,
+        concept: this.extractFallbackConcept(line),
+        confidence: { mean: 0.5, lower: 0.4, upper: 0.6, method: 'normal' },
+        supporting: [],
+        refuting: []
+      };
+    }
   }
 
   private extractPredicates(logicalNotation: string): Predicate[] {
@@ -1510,7 +1979,7 @@ Always answer the actual question posed, not analyze the words themselves.`;
   private assessReliability(claim: any, reasoning: ReasoningChain): number {
     // Higher confidence and more support = higher reliability
     const supportCount = claim.step.supporting.length;
-    return claim.confidence.mean * (1 + supportCount * 0.1);
+    return Math.min(1, claim.confidence.mean * (1 + supportCount * 0.1));
   }
 
   private assessRelevance(claim: any, query: string): number {
@@ -1552,7 +2021,7 @@ Always answer the actual question posed, not analyze the words themselves.`;
     reasoning.steps.forEach(step => {
       step.supporting.forEach(supportId => {
         const supportStep = reasoning.steps.find(s => s.id === supportId);
-        if (supportStep) {
+        if (supportStep && !this.bayesianNetwork.wouldCreateCycle(supportStep.concept, step.concept)) {
           this.bayesianNetwork.addEdge(supportStep.concept, step.concept);
         }
       });
@@ -1563,9 +2032,9 @@ Always answer the actual question posed, not analyze the words themselves.`;
     return evidence.content.split(' ')[0];
   }
 
-  private calculateEntropy(distribution: any): number {
+  private calculateEntropy(distribution: Map<string, number>): number {
     let entropy = 0;
-    Object.values(distribution).forEach((p: any) => {
+    distribution.forEach(p => {
       if (p > 0) {
         entropy -= p * Math.log2(p);
       }
@@ -1573,11 +2042,11 @@ Always answer the actual question posed, not analyze the words themselves.`;
     return entropy;
   }
 
-  private getMostLikely(distribution: any): string {
+  private getMostLikely(distribution: Map<string, number>): string {
     let maxProb = 0;
     let mostLikely = 'unknown';
     
-    Object.entries(distribution).forEach(([state, prob]: [string, any]) => {
+    distribution.forEach((prob, state) => {
       if (prob > maxProb) {
         maxProb = prob;
         mostLikely = state;
@@ -1762,18 +2231,218 @@ Always answer the actual question posed, not analyze the words themselves.`;
     return [...this.performanceHistory];
   }
 
+  /**
+   * Re-fit the Bayesian network's edges among observed concepts to the
+   * evidence history, replacing the heuristic reasoning links where the data
+   * disagrees. Uses the same soft evidence cases as parameter learning.
+   * Runs periodically on its own.
+   */
+  public refitNetworkStructure(options: StructureLearningOptions = {}): StructureFit | null {
+    this.casesSinceStructureFit = 0;
+    
+    const observedConcepts = new Set<string>();
+    this.evidenceCases.forEach(c => c.forEach((likelihood, concept) => observedConcepts.add(concept)));
+    const nodes = Array.from(observedConcepts).filter(id => this.bayesianNetwork.getNode(id));
+    if (nodes.length < 2) return null;
+    
+    const previousEdges = this.extractNetworkEdges();
+    const result = new StructureLearner(this.bayesianNetwork, this.inferenceEngine).learn(this.evidenceCases, {
+      nodes,
+      priorStrength: this.config.bayesian.priorStrength,
+      ...options
+    });
+    
+    this.lastStructureFit = {
+      result,
+      comparison: StructureLearner.compareStructures(result.edges, previousEdges),
+      fittedAt: new Date()
+    };
+    return this.lastStructureFit;
+  }
+
+  public getLastStructureFit(): StructureFit | null {
+    return this.lastStructureFit;
+  }
+
+  /**
+   * Beliefs after each recent query, oldest first. Filtered beliefs use the
+   * queries up to each one; smoothed beliefs also use the queries after it.
+   */
+  public getBeliefTrajectory(smoothed: boolean = false): BeliefSlice[] {
+    return smoothed ? this.beliefDynamics.smooth() : this.beliefDynamics.getFilteredBeliefs();
+  }
+
+  /**
+   * Receive reasoning steps as they are parsed. While a listener is set,
+   * reasoning requests carry onToken so streaming interfaces can deliver
+   * text incrementally. Pass null to stop listening.
+   */
+  public setReasoningStepListener(listener: ReasoningStepListener | null): void {
+    this.reasoningStepListener = listener;
+  }
+
   public async reset(): Promise<void> {
     this.messageHistory = [];
     this.performanceHistory = [];
     this.htmRegion.reset();
     this.bayesianNetwork = new BayesianNetwork();
     this.inferenceEngine = new InferenceEngine(this.bayesianNetwork);
+    this.beliefDynamics = new DynamicBayesianNetwork(this.bayesianNetwork);
+    this.evidenceCases = [];
+    this.casesSinceStructureFit = 0;
+    this.lastStructureFit = null;
     this.currentHTMState = this.getInitialHTMState();
     this.currentBelief = this.getInitialBelief();
     this.previousHTMPredictions = [];
     this.iteration = 0;
   }
 
+  /**
+   * Capture the full learned state of the agent
+   */
+  public saveState(): AgentCheckpoint {
+    return {
+      version: AGENT_CHECKPOINT_VERSION,
+      createdAt: new Date(),
+      identity: { id: this.id, name: this.name, description: this.description },
+      config: this.config,
+      capabilities: this.getCapabilities(),
+      morphology: this.morphology,
+      adaptiveCore: this.adaptiveCore.saveState(),
+      htmRegion: this.htmRegion.saveState(),
+      bayesianNetwork: this.bayesianNetwork.saveState(),
+      currentBelief: this.currentBelief,
+      currentHTMState: this.currentHTMState,
+      previousHTMPredictions: [...this.previousHTMPredictions],
+      iteration: this.iteration,
+      messageHistory: [...this.messageHistory],
+      performanceHistory: [...this.performanceHistory],
+      semanticEncoder: this.semanticEncoder
+        ? this.semanticEncoder.exportState()
+        : this.pendingSemanticState,
+      evidenceCases: this.evidenceCases.map(c => this.toSoftCase(c)),
+      beliefDynamics: this.beliefDynamics.exportState()
+    };
+  }
+
+  /**
+   * Copy of a recorded case as soft evidence; older checkpoints hold observed states
+   */
+  private toSoftCase(observation: SoftEvidenceCase | EvidenceCase): SoftEvidenceCase {
+    const soft: SoftEvidenceCase = new Map();
+    observation.forEach((observed: string | Map<string, number>, concept: string) => {
+      const states = this.bayesianNetwork.getNode(concept)?.states ?? [];
+      soft.set(concept, typeof observed === 'string'
+        ? new Map(states.map(state => [state, state === observed ? 1 : 0] as [string, number]))
+        : new Map(observed));
+    });
+    return soft;
+  }
+
+  /**
+   * Restore learned state captured by saveState().
+   * Identity and configuration are kept from this agent.
+   */
+  public loadState(checkpoint: AgentCheckpoint): void {
+    if (checkpoint.version > AGENT_CHECKPOINT_VERSION) {
+      throw new AgentError(
+        `Unsupported agent checkpoint version ${checkpoint.version} (max ${AGENT_CHECKPOINT_VERSION})`,
+        this.id,
+        { version: checkpoint.version }
+      );
+    }
+    
+    this.capabilities = new Map(checkpoint.capabilities.map(cap => [cap.id, cap]));
+    this.morphology = checkpoint.morphology;
+    this.adaptiveCore.loadState(checkpoint.adaptiveCore);
+    this.htmRegion.loadState(checkpoint.htmRegion);
+    this.bayesianNetwork.loadState(checkpoint.bayesianNetwork);
+    this.inferenceEngine = new InferenceEngine(this.bayesianNetwork);
+    this.evidenceCases = (checkpoint.evidenceCases ?? []).map(c => this.toSoftCase(c));
+    this.beliefDynamics = new DynamicBayesianNetwork(this.bayesianNetwork);
+    if (checkpoint.beliefDynamics) {
+      this.beliefDynamics.loadState(checkpoint.beliefDynamics);
+    }
+    this.currentBelief = checkpoint.currentBelief;
+    this.currentHTMState = checkpoint.currentHTMState;
+    this.previousHTMPredictions = [...checkpoint.previousHTMPredictions];
+    this.iteration = checkpoint.iteration;
+    this.messageHistory = [...checkpoint.messageHistory];
+    this.performanceHistory = [...checkpoint.performanceHistory];
+    this.lastSemanticEncoding = null;
+    
+    // A shared encoder belongs to its owner, not to any one agent's checkpoint
+    if (this.sharedSemanticEncoder) {
+      return;
+    }
+    
+    // The encoder needs an LLM interface, so it may not exist yet
+    if (!this.semanticEncoder) {
+      this.pendingSemanticState = checkpoint.semanticEncoder;
+    } else if (checkpoint.semanticEncoder) {
+      this.semanticEncoder.importState(checkpoint.semanticEncoder);
+    } else {
+      this.semanticEncoder.clearCache();
+    }
+  }
+
+  /**
+   * The semantic encoder an agent with this configuration builds for itself.
+   * Build one to share between agents through AgentConfig.semanticEncoder.
+   */
+  static createSemanticEncoder(
+    llmInterface: (request: LLMRequest) => Promise<LLMResponse>,
+    config: Config,
+    embeddingInterface?: EmbeddingInterface
+  ): SemanticEncoder {
+    return new SemanticEncoder(llmInterface, {
+      numColumns: config.htm.columnCount,
+      sparsity: 0.08,  // Increased from 0.02 to allow more overlap
+      // Pass through semantic configuration if provided
+      ...(config.semantic || {})
+    }, { embeddingInterface });
+  }
+
+  /**
+   * Serialize the agent into a single archive
+   */
+  public checkpoint(format: SnapshotFormat = 'gzip'): Buffer {
+    return encodeSnapshot(this.saveState(), format);
+  }
+
+  /**
+   * Restore this agent from an archive produced by checkpoint()
+   */
+  public restore(data: Buffer | Uint8Array): void {
+    this.loadState(decodeSnapshot<AgentCheckpoint>(data));
+  }
+
+  /**
+   * Create an agent from an archive produced by checkpoint()
+   */
+  public static fromCheckpoint(data: Buffer | Uint8Array): Agent {
+    const checkpoint = decodeSnapshot<AgentCheckpoint>(data);
+    const agent = new Agent({
+      ...checkpoint.identity,
+      initialCapabilities: checkpoint.capabilities,
+      config: checkpoint.config
+    });
+    agent.loadState(checkpoint);
+    return agent;
+  }
+
+  /**
+   * Extract the semantic features of queries this agent is about to process
+   * in one batch, so that processQuery finds them cached
+   */
+  public async prefetchSemanticFeatures(
+    queries: string[],
+    llmInterface: (request: LLMRequest) => Promise<LLMResponse>
+  ): Promise<void> {
+    this.ensureSemanticEncoder(llmInterface);
+    await this.semanticEncoder.prefetchFeatures(queries);
+  }
+
   /**
    * Get semantic features for a query (including ghost tokens)
    * Useful for demonstrating ghost token extraction
@@ -1783,14 +2452,7 @@ Always answer the actual question posed, not analyze the words themselves.`;
     llmInterface: (request: LLMRequest) => Promise<LLMResponse>
   ): Promise<any> {
     // Initialize semantic encoder if not already done
-    if (!this.semanticEncoder) {
-      this.semanticEncoder = new SemanticEncoder(llmInterface, {
-        numColumns: this.config.htm.columnCount,
-        sparsity: 0.08,  // Increased from 0.02 to allow more overlap
-        // Pass through semantic configuration if provided
-        ...(this.config.semantic || {})
-      });
-    }
+    this.ensureSemanticEncoder(llmInterface);
 
     try {
       // Use the feature extractor directly to get features including ghost tokens
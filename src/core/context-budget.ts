@@ -0,0 +1,146 @@
+/**
+ * Context Budget
+ * Fits prompt context into the selected model's context window. Context
+ * objects are compacted, then have long strings truncated, then lose their
+ * largest fields; each decision is reported so it can be logged.
+ */
+
+import { Tokenizer, truncateToTokens } from '../adapters/tokenizer.js';
+
+export interface PromptBudget {
+  contextWindow: number; // Of the model the prompt is sent to
+  tokenizer: Tokenizer;
+}
+
+export interface FittedText {
+  text: string;
+  actions: string[]; // Empty when nothing was cut
+}
+
+// Kept free for chat formatting the tokenizer doesn't see (role markers, separators)
+export const PROMPT_OVERHEAD_TOKENS = 32;
+
+// Caps tried in turn for strings inside context objects
+const STRING_TOKEN_CAPS = [256, 128, 64, 32];
+
+const OMITTED = '[omitted to fit context window]';
+
+/**
+ * Tokens a prompt may use: the window minus the completion and the system prompt
+ */
+export function availablePromptTokens(budget: PromptBudget, maxTokens: number, systemPrompt: string = ''): number {
+  return Math.max(0,
+    budget.contextWindow - maxTokens - budget.tokenizer.countTokens(systemPrompt) - PROMPT_OVERHEAD_TOKENS);
+}
+
+/**
+ * Serialize context as JSON within maxTokens: indented if it fits, then compact,
+ * then with long strings truncated, then with the largest top-level fields omitted
+ */
+export function fitContext(context: any, tokenizer: Tokenizer, maxTokens: number): FittedText {
+  const fits = (text: string) => tokenizer.countTokens(text) <= maxTokens;
+
+  const indented = JSON.stringify(context ?? {}, null, 2);
+  if (fits(indented)) {
+    return { text: indented, actions: [] };
+  }
+
+  const actions = ['compacted context JSON'];
+  let value = context ?? {};
+  let text = JSON.stringify(value);
+
+  let stringCap: number | null = null;
+  let truncatedStrings = 0;
+  for (const cap of STRING_TOKEN_CAPS) {
+    if (fits(text)) break;
+
+    let truncated = 0;
+    value = mapStrings(context, str => {
+      if (tokenizer.countTokens(str) <= cap) return str;
+      truncated++;
+      return truncateToTokens(tokenizer, str, cap);
+    });
+    text = JSON.stringify(value);
+
+    if (truncated > 0) {
+      stringCap = cap;
+      truncatedStrings = truncated;
+    }
+  }
+  if (stringCap !== null) {
+    actions.push(`truncated ${truncatedStrings} context strings to ${stringCap} tokens`);
+  }
+
+  if (!fits(text) && isPlainObject(value)) {
+    const remaining: Record<string, any> = { ...value };
+
+    while (!fits(text)) {
+      const largest = Object.keys(remaining)
+        .filter(key => remaining[key] !== OMITTED)
+        .sort((a, b) => JSON.stringify(remaining[b]).length - JSON.stringify(remaining[a]).length)[0];
+      if (largest === undefined) break;
+
+      remaining[largest] = OMITTED;
+      actions.push(`omitted context.${largest}`);
+      text = JSON.stringify(remaining);
+    }
+  }
+
+  if (!fits(text)) {
+    text = truncateToTokens(tokenizer, text, maxTokens);
+    actions.push('truncated context JSON');
+  }
+
+  return { text, actions };
+}
+
+/**
+ * Share maxTokens between texts: short ones are kept whole and the longest are
+ * truncated to equal shares. Returns the indices of the truncated texts.
+ */
+export function fitTexts(
+  texts: string[],
+  tokenizer: Tokenizer,
+  maxTokens: number
+): { texts: string[]; truncated: number[] } {
+  const counts = texts.map(text => tokenizer.countTokens(text));
+  const allowance = new Array<number>(texts.length).fill(0);
+
+  // Water-filling, shortest first, so unused shares pass on to longer texts
+  let remaining = Math.max(0, maxTokens);
+  const order = counts.map((count, i) => i).sort((a, b) => counts[a] - counts[b]);
+  order.forEach((index, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    allowance[index] = Math.min(counts[index], share);
+    remaining -= allowance[index];
+  });
+
+  const truncated: number[] = [];
+  const fitted = texts.map((text, i) => {
+    if (counts[i] <= allowance[i]) return text;
+    truncated.push(i);
+    return truncateToTokens(tokenizer, text, allowance[i]);
+  });
+
+  return { texts: fitted, truncated };
+}
+
+// === Private helpers ===
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function mapStrings(value: any, fn: (str: string) => string): any {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+  if (isPlainObject(value)) {
+    const mapped: Record<string, any> = {};
+    Object.entries(value).forEach(([key, child]) => {
+      mapped[key] = mapStrings(child, fn);
+    });
+    return mapped;
+  }
+  return value;
+}
@@ -9,6 +9,7 @@
  */
 
 import { TemporalState } from './temporal-pooler';
+import { packBooleans, unpackBooleans } from '../snapshot-codec';
 
 export interface ColumnActivationState {
   isActive: boolean;
@@ -67,6 +68,38 @@ export interface ColumnMetrics {
   energyEfficiency: number;
 }
 
+/**
+ * Compact snapshot of column state. Per-column scalars are stored as
+ * typed arrays indexed by column; per-column cell lists are flattened
+ * (a cell's column is recoverable from its ID).
+ */
+export interface ColumnStateSnapshot {
+  numColumns: number;
+  cellsPerColumn: number;
+  maxMemoryTraces: number;
+  stabilityWindow: number;
+  learningWindow: number;
+  timestep: number;
+  activation: {
+    isActive: Uint8Array;
+    isPredicted: Uint8Array;
+    wasPredicted: Uint8Array;
+    confidence: Float64Array;
+    timestamp: Float64Array;
+    burstingCells: Uint32Array;
+    activeCells: Uint32Array;
+    winnerCells: Uint32Array;
+    predictiveCells: Uint32Array;
+  };
+  learning: Record<keyof ColumnLearningState, Float64Array>;
+  metrics: Record<keyof ColumnMetrics, Float64Array>;
+  memoryTraces: ColumnMemoryTrace[][];
+  activationHistory: Uint8Array[];
+  predictionHistory: Uint8Array[];
+}
+
+const CELL_LIST_KEYS = ['burstingCells', 'activeCells', 'winnerCells', 'predictiveCells'] as const;
+
 export class ColumnStateManager {
   private numColumns: number;
   private cellsPerColumn: number;
@@ -612,6 +645,95 @@ export class ColumnStateManager {
     this.timestep++;
   }
 
+  /**
+   * Save column state for later restoration
+   */
+  public saveState(): ColumnStateSnapshot {
+    const learningKeys = Object.keys(this.learningStates[0] || {}) as Array<keyof ColumnLearningState>;
+    const metricKeys = Object.keys(this.metrics[0] || {}) as Array<keyof ColumnMetrics>;
+    
+    const learning = {} as Record<keyof ColumnLearningState, Float64Array>;
+    learningKeys.forEach(key => {
+      learning[key] = Float64Array.from(this.learningStates, state => state[key]);
+    });
+    
+    const metrics = {} as Record<keyof ColumnMetrics, Float64Array>;
+    metricKeys.forEach(key => {
+      metrics[key] = Float64Array.from(this.metrics, metric => metric[key]);
+    });
+    
+    const flattenCells = (key: typeof CELL_LIST_KEYS[number]) =>
+      Uint32Array.from(this.currentStates.flatMap(state => state[key]));
+    
+    return {
+      numColumns: this.numColumns,
+      cellsPerColumn: this.cellsPerColumn,
+      maxMemoryTraces: this.maxMemoryTraces,
+      stabilityWindow: this.stabilityWindow,
+      learningWindow: this.learningWindow,
+      timestep: this.timestep,
+      activation: {
+        isActive: packBooleans(this.currentStates.map(state => state.isActive)),
+        isPredicted: packBooleans(this.currentStates.map(state => state.isPredicted)),
+        wasPredicted: packBooleans(this.currentStates.map(state => state.wasPredicted)),
+        confidence: Float64Array.from(this.currentStates, state => state.confidence),
+        timestamp: Float64Array.from(this.currentStates, state => state.timestamp),
+        burstingCells: flattenCells('burstingCells'),
+        activeCells: flattenCells('activeCells'),
+        winnerCells: flattenCells('winnerCells'),
+        predictiveCells: flattenCells('predictiveCells')
+      },
+      learning,
+      metrics,
+      memoryTraces: this.memoryTraces.map(traces => [...traces]),
+      activationHistory: this.activationHistory.map(packBooleans),
+      predictionHistory: this.predictionHistory.map(packBooleans)
+    };
+  }
+
+  /**
+   * Restore state produced by saveState
+   */
+  public loadState(snapshot: ColumnStateSnapshot): void {
+    this.numColumns = snapshot.numColumns;
+    this.cellsPerColumn = snapshot.cellsPerColumn;
+    this.maxMemoryTraces = snapshot.maxMemoryTraces;
+    this.stabilityWindow = snapshot.stabilityWindow;
+    this.learningWindow = snapshot.learningWindow;
+    this.initializeStates();
+    this.timestep = snapshot.timestep;
+    
+    const { activation } = snapshot;
+    for (let i = 0; i < this.numColumns; i++) {
+      const state = this.currentStates[i];
+      state.isActive = activation.isActive[i] === 1;
+      state.isPredicted = activation.isPredicted[i] === 1;
+      state.wasPredicted = activation.wasPredicted[i] === 1;
+      state.confidence = activation.confidence[i];
+      state.timestamp = activation.timestamp[i];
+      
+      const learningState = this.learningStates[i] as any;
+      Object.entries(snapshot.learning).forEach(([key, values]) => {
+        learningState[key] = values[i];
+      });
+      
+      const metric = this.metrics[i] as any;
+      Object.entries(snapshot.metrics).forEach(([key, values]) => {
+        metric[key] = values[i];
+      });
+    }
+    
+    CELL_LIST_KEYS.forEach(key => {
+      for (const cellId of activation[key]) {
+        this.currentStates[Math.floor(cellId / this.cellsPerColumn)][key].push(cellId);
+      }
+    });
+    
+    this.memoryTraces = snapshot.memoryTraces.map(traces => [...traces]);
+    this.activationHistory = snapshot.activationHistory.map(unpackBooleans);
+    this.predictionHistory = snapshot.predictionHistory.map(unpackBooleans);
+  }
+
   /**
    * Reset all column states
    */
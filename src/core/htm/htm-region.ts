@@ -8,9 +8,29 @@
  * Based on Thousand Brains Theory and HTM principles.
  */
 
-import { SpatialPooler, SpatialPoolerConfig, createDefaultSpatialPoolerConfig } from './spatial-pooler';
-import { TemporalPooler, TemporalPoolerConfig, createDefaultTemporalPoolerConfig } from './temporal-pooler';
-import { ColumnStateManager } from './column-state-manager';
+import { SpatialPooler, SpatialPoolerConfig, SpatialPoolerSnapshot, createDefaultSpatialPoolerConfig } from './spatial-pooler';
+import {
+  TemporalPooler,
+  TemporalPoolerConfig,
+  TemporalPoolerSnapshot,
+  TemporalStateSnapshot,
+  createDefaultTemporalPoolerConfig,
+  serializeTemporalState,
+  deserializeTemporalState
+} from './temporal-pooler';
+import { ColumnStateManager, ColumnStateSnapshot } from './column-state-manager';
+import {
+  SnapshotFormat,
+  encodeSnapshot,
+  decodeSnapshot,
+  packBooleans,
+  unpackBooleans
+} from '../snapshot-codec';
+
+/**
+ * Current version of the HTMRegionSnapshot format
+ */
+export const HTM_REGION_SNAPSHOT_VERSION = 1;
 
 export interface HTMRegionConfig {
   // Region structure
@@ -75,6 +95,45 @@ export interface HTMRegionOutput {
   stability: number;
 }
 
+/**
+ * Region state with boolean/number arrays packed into typed arrays
+ */
+export interface HTMRegionStateSnapshot {
+  spatialActivation: Uint8Array;
+  temporalState: TemporalStateSnapshot | null;
+  predictions: {
+    nextStep: Uint8Array;
+    confidence: Float64Array;
+    multiStep: Uint8Array[];
+  };
+  learningProgress: number;
+  stabilityMetrics: any;
+  performanceMetrics: any;
+  iteration: number;
+  timestamp: number;
+  regionName: string;
+}
+
+/**
+ * Versioned snapshot of a complete HTM region, including every learned
+ * synapse. Restoring it reproduces compute() output exactly.
+ */
+export interface HTMRegionSnapshot {
+  version: number;
+  config: HTMRegionConfig;
+  iteration: number;
+  lastResetTime: number;
+  learningHistory: number[];
+  performanceHistory: number[];
+  predictionAccuracyHistory: number[];
+  previousPredictions: Uint8Array;
+  previousInputs: Uint8Array[];
+  currentState: HTMRegionStateSnapshot;
+  spatialPooler: SpatialPoolerSnapshot;
+  temporalPooler: TemporalPoolerSnapshot;
+  columnStates: ColumnStateSnapshot;
+}
+
 export class HTMRegion {
   private config: HTMRegionConfig;
   private spatialPooler!: SpatialPooler;
@@ -601,26 +660,116 @@ export class HTMRegion {
   }
 
   /**
-   * Save region state for later restoration
+   * Save complete region state (including learned synapses) for later restoration
    */
-  public saveState(): any {
+  public saveState(): HTMRegionSnapshot {
+    const state = this.currentState;
+    
     return {
-      config: this.config,
+      version: HTM_REGION_SNAPSHOT_VERSION,
+      config: { ...this.config },
       iteration: this.iteration,
+      lastResetTime: this.lastResetTime,
       learningHistory: [...this.learningHistory],
       performanceHistory: [...this.performanceHistory],
-      currentState: { ...this.currentState }
+      predictionAccuracyHistory: [...this.predictionAccuracyHistory],
+      previousPredictions: packBooleans(this.previousPredictions),
+      previousInputs: this.previousInputs.map(packBooleans),
+      currentState: {
+        spatialActivation: packBooleans(state.spatialActivation),
+        temporalState: state.temporalState ? serializeTemporalState(state.temporalState) : null,
+        predictions: {
+          nextStep: packBooleans(state.predictions.nextStep),
+          confidence: Float64Array.from(state.predictions.confidence),
+          multiStep: state.predictions.multiStep.map(packBooleans)
+        },
+        learningProgress: state.learningProgress,
+        stabilityMetrics: state.stabilityMetrics,
+        performanceMetrics: state.performanceMetrics,
+        iteration: state.iteration,
+        timestamp: state.timestamp,
+        regionName: state.regionName
+      },
+      spatialPooler: this.spatialPooler.saveState(),
+      temporalPooler: this.temporalPooler.saveState(),
+      columnStates: this.columnStateManager.saveState()
     };
   }
 
   /**
    * Load previously saved state
+   * Accepts versioned snapshots and the legacy (unversioned) history-only format
+   */
+  public loadState(savedState: HTMRegionSnapshot | any): void {
+    if (savedState.version === undefined) {
+      // Legacy format: histories only, learned synapses were never saved
+      this.iteration = savedState.iteration;
+      this.learningHistory = [...savedState.learningHistory];
+      this.performanceHistory = [...savedState.performanceHistory];
+      this.currentState = { ...savedState.currentState };
+      return;
+    }
+    
+    if (savedState.version > HTM_REGION_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported HTM region snapshot version ${savedState.version} (max ${HTM_REGION_SNAPSHOT_VERSION})`);
+    }
+    
+    const snapshot = savedState as HTMRegionSnapshot;
+    this.config = { ...snapshot.config };
+    
+    this.spatialPooler.loadState(snapshot.spatialPooler);
+    this.temporalPooler.loadState(snapshot.temporalPooler);
+    this.columnStateManager.loadState(snapshot.columnStates);
+    
+    this.iteration = snapshot.iteration;
+    this.lastResetTime = snapshot.lastResetTime;
+    this.learningHistory = [...snapshot.learningHistory];
+    this.performanceHistory = [...snapshot.performanceHistory];
+    this.predictionAccuracyHistory = [...snapshot.predictionAccuracyHistory];
+    this.previousPredictions = unpackBooleans(snapshot.previousPredictions);
+    this.previousInputs = snapshot.previousInputs.map(unpackBooleans);
+    
+    const state = snapshot.currentState;
+    this.currentState = {
+      spatialActivation: unpackBooleans(state.spatialActivation),
+      temporalState: state.temporalState ? deserializeTemporalState(state.temporalState) : null,
+      predictions: {
+        nextStep: unpackBooleans(state.predictions.nextStep),
+        confidence: Array.from(state.predictions.confidence),
+        multiStep: state.predictions.multiStep.map(unpackBooleans)
+      },
+      learningProgress: state.learningProgress,
+      stabilityMetrics: state.stabilityMetrics,
+      performanceMetrics: state.performanceMetrics,
+      iteration: state.iteration,
+      timestamp: state.timestamp,
+      regionName: state.regionName
+    };
+  }
+
+  /**
+   * Serialize complete region state to bytes
+   * 'gzip' (default) and 'json' embed typed arrays as base64;
+   * 'binary' stores them raw, which suits large (e.g. 2048x32) regions
+   */
+  public serialize(format: SnapshotFormat = 'gzip'): Buffer {
+    return encodeSnapshot(this.saveState(), format);
+  }
+
+  /**
+   * Create a region from bytes produced by serialize()
+   */
+  public static deserialize(data: Buffer | Uint8Array): HTMRegion {
+    return HTMRegion.fromSnapshot(decodeSnapshot<HTMRegionSnapshot>(data));
+  }
+
+  /**
+   * Create a region from a snapshot produced by saveState()
    */
-  public loadState(savedState: any): void {
-    this.iteration = savedState.iteration;
-    this.learningHistory = [...savedState.learningHistory];
-    this.performanceHistory = [...savedState.performanceHistory];
-    this.currentState = { ...savedState.currentState };
+  public static fromSnapshot(snapshot: HTMRegionSnapshot): HTMRegion {
+    const region = new HTMRegion(snapshot.config);
+    region.loadState(snapshot);
+    return region;
   }
 }
 
@@ -59,6 +59,26 @@ export interface ColumnState {
   connectedSynapses: number[];
 }
 
+/**
+ * Compact snapshot of all learned spatial pooler state.
+ * Potential synapses are flattened across columns; column c owns the
+ * range [synapseOffsets[c], synapseOffsets[c + 1]).
+ */
+export interface SpatialPoolerSnapshot {
+  config: SpatialPoolerConfig;
+  iterationNum: number;
+  inhibitionRadius: number;
+  updatePeriod: number;
+  rngState: number;
+  boosts: Float64Array;
+  activeDutyCycles: Float64Array;
+  overlapDutyCycles: Float64Array;
+  minOverlapDutyCycles: Float64Array;
+  synapseOffsets: Uint32Array;
+  synapseInputs: Uint16Array | Uint32Array;
+  synapsePermanences: Float64Array;
+}
+
 export class SpatialPooler {
   private config: SpatialPoolerConfig;
   private columns!: ColumnState[];
@@ -66,6 +86,7 @@ export class SpatialPooler {
   private updatePeriod: number;
   private iterationNum: number;
   private minOverlapDutyCycles: number[];
+  private rngState: number;
   private rng: () => number; // Seeded random number generator
 
   constructor(config: SpatialPoolerConfig) {
@@ -76,7 +97,8 @@ export class SpatialPooler {
     this.minOverlapDutyCycles = [];
     
     // Initialize seeded random number generator
-    this.rng = this.createSeededRandom(config.seed || Date.now());
+    this.rngState = config.seed || Date.now();
+    this.rng = this.createSeededRandom();
     
     this.initializeColumns();
     this.updateInhibitionRadius();
@@ -84,12 +106,12 @@ export class SpatialPooler {
 
   /**
    * Create a seeded random number generator
+   * State lives on the instance so it can be saved and restored
    */
-  private createSeededRandom(seed: number): () => number {
-    let state = seed;
+  private createSeededRandom(): () => number {
     return () => {
-      state = (state * 1664525 + 1013904223) % 2147483648;
-      return state / 2147483648;
+      this.rngState = (this.rngState * 1664525 + 1013904223) % 2147483648;
+      return this.rngState / 2147483648;
     };
   }
 
@@ -584,6 +606,108 @@ export class SpatialPooler {
     };
   }
 
+  /**
+   * Save all learned state (permanences, duty cycles, boost factors)
+   */
+  public saveState(): SpatialPoolerSnapshot {
+    const numColumns = this.columns.length;
+    const synapseOffsets = new Uint32Array(numColumns + 1);
+    
+    let totalSynapses = 0;
+    let maxInputIndex = 0;
+    for (let c = 0; c < numColumns; c++) {
+      synapseOffsets[c] = totalSynapses;
+      totalSynapses += this.columns[c].potentialSynapses.length;
+      for (const synapse of this.columns[c].potentialSynapses) {
+        maxInputIndex = Math.max(maxInputIndex, synapse.inputIndex);
+      }
+    }
+    synapseOffsets[numColumns] = totalSynapses;
+    
+    const synapseInputs = maxInputIndex < 65536
+      ? new Uint16Array(totalSynapses)
+      : new Uint32Array(totalSynapses);
+    const synapsePermanences = new Float64Array(totalSynapses);
+    const boosts = new Float64Array(numColumns);
+    const activeDutyCycles = new Float64Array(numColumns);
+    const overlapDutyCycles = new Float64Array(numColumns);
+    
+    for (let c = 0; c < numColumns; c++) {
+      const column = this.columns[c];
+      boosts[c] = column.boost;
+      activeDutyCycles[c] = column.activeDutyCycle;
+      overlapDutyCycles[c] = column.overlapDutyCycle;
+      
+      let offset = synapseOffsets[c];
+      for (const synapse of column.potentialSynapses) {
+        synapseInputs[offset] = synapse.inputIndex;
+        synapsePermanences[offset] = synapse.permanence;
+        offset++;
+      }
+    }
+    
+    return {
+      config: { ...this.config },
+      iterationNum: this.iterationNum,
+      inhibitionRadius: this.inhibitionRadius,
+      updatePeriod: this.updatePeriod,
+      rngState: this.rngState,
+      boosts,
+      activeDutyCycles,
+      overlapDutyCycles,
+      minOverlapDutyCycles: Float64Array.from(this.minOverlapDutyCycles),
+      synapseOffsets,
+      synapseInputs,
+      synapsePermanences
+    };
+  }
+
+  /**
+   * Restore state produced by saveState, replacing all current columns
+   */
+  public loadState(snapshot: SpatialPoolerSnapshot): void {
+    const numColumns = snapshot.synapseOffsets.length - 1;
+    if (numColumns !== snapshot.config.numColumns) {
+      throw new Error(`Snapshot has ${numColumns} columns but config declares ${snapshot.config.numColumns}`);
+    }
+    
+    this.config = { ...snapshot.config };
+    this.iterationNum = snapshot.iterationNum;
+    this.inhibitionRadius = snapshot.inhibitionRadius;
+    this.updatePeriod = snapshot.updatePeriod;
+    this.rngState = snapshot.rngState;
+    this.minOverlapDutyCycles = Array.from(snapshot.minOverlapDutyCycles);
+    
+    this.columns = [];
+    for (let c = 0; c < numColumns; c++) {
+      const column: ColumnState = {
+        id: c,
+        overlaps: 0,
+        boost: snapshot.boosts[c],
+        activeDutyCycle: snapshot.activeDutyCycles[c],
+        overlapDutyCycle: snapshot.overlapDutyCycles[c],
+        potentialSynapses: [],
+        connectedSynapses: []
+      };
+      
+      for (let i = snapshot.synapseOffsets[c]; i < snapshot.synapseOffsets[c + 1]; i++) {
+        const permanence = snapshot.synapsePermanences[i];
+        const synapse: SynapseConnection = {
+          inputIndex: snapshot.synapseInputs[i],
+          permanence,
+          connected: permanence >= this.config.synPermConnected
+        };
+        column.potentialSynapses.push(synapse);
+        
+        if (synapse.connected) {
+          column.connectedSynapses.push(synapse.inputIndex);
+        }
+      }
+      
+      this.columns.push(column);
+    }
+  }
+
   /**
    * Reset the spatial pooler state
    */
@@ -62,6 +62,39 @@ export interface TemporalState {
   matchingSegments: Set<number>;
 }
 
+/**
+ * TemporalState with Sets flattened to arrays (insertion order preserved)
+ */
+export interface TemporalStateSnapshot {
+  activeCells: number[];
+  winnerCells: number[];
+  predictiveCells: number[];
+  activeSegments: number[];
+  learningSegments: number[];
+  matchingSegments: number[];
+}
+
+/**
+ * Compact snapshot of all learned temporal pooler state.
+ * Segments are flattened in cell order; synapses in segment order.
+ */
+export interface TemporalPoolerSnapshot {
+  config: TemporalPoolerConfig;
+  numColumns: number;
+  iteration: number;
+  nextSegmentId: number;
+  rngState: number;
+  predictionAccuracy: number[];
+  burstingColumns: number[];
+  cellSegmentCounts: Uint16Array;
+  segmentSynapseCounts: Uint32Array;
+  segmentLastUsedIterations: Float64Array;
+  synapsePresynapticCells: Uint32Array;
+  synapsePermanences: Float64Array;
+  currentState: TemporalStateSnapshot;
+  previousState: TemporalStateSnapshot;
+}
+
 export class TemporalPooler {
   private config: TemporalPoolerConfig;
   private numColumns: number;
@@ -72,6 +105,7 @@ export class TemporalPooler {
   private iteration: number;
   private segments!: Segment[];
   private nextSegmentId: number;
+  private rngState: number;
   private rng: () => number;
   
   // Sequence learning metrics
@@ -96,7 +130,8 @@ export class TemporalPooler {
     this.burstingColumns = [];
     
     // Initialize seeded random number generator
-    this.rng = this.createSeededRandom(this.config.seed || 42);
+    this.rngState = this.config.seed || 42;
+    this.rng = this.createSeededRandom();
     
     this.initializeCells();
     this.resetState();
@@ -105,16 +140,16 @@ export class TemporalPooler {
   /**
    * Create a seeded random number generator
    * Uses a linear congruential generator for deterministic randomness
+   * State lives on the instance so it can be saved and restored
    */
-  private createSeededRandom(seed: number): () => number {
-    let state = seed;
+  private createSeededRandom(): () => number {
     return () => {
-      state = (state * 1103515245 + 12345) & 0x7fffffff;
-      const result = state / 0x80000000;
+      this.rngState = (this.rngState * 1103515245 + 12345) & 0x7fffffff;
+      const result = this.rngState / 0x80000000;
       
       // DEBUG: Check RNG output
       if (this.iteration < 5 && Math.random() < 0.1) {
-        //console.log(`        [DEBUG RNG] state=${state}, result=${result.toFixed(6)}`);
+        //console.log(`        [DEBUG RNG] state=${this.rngState}, result=${result.toFixed(6)}`);
       }
       
       return result;
@@ -915,6 +950,141 @@ export class TemporalPooler {
   public getCurrentState(): TemporalState {
     return this.deepCopyState(this.currentState);
   }
+
+  /**
+   * Save all learned state (segments, synapses, permanences) and the
+   * current/previous activity needed to continue the sequence exactly
+   */
+  public saveState(): TemporalPoolerSnapshot {
+    let totalSegments = 0;
+    let totalSynapses = 0;
+    for (const cell of this.cells) {
+      totalSegments += cell.segments.length;
+      for (const segment of cell.segments) {
+        totalSynapses += segment.synapses.length;
+      }
+    }
+    
+    const cellSegmentCounts = new Uint16Array(this.cells.length);
+    const segmentSynapseCounts = new Uint32Array(totalSegments);
+    const segmentLastUsedIterations = new Float64Array(totalSegments);
+    const synapsePresynapticCells = new Uint32Array(totalSynapses);
+    const synapsePermanences = new Float64Array(totalSynapses);
+    
+    let segmentIndex = 0;
+    let synapseIndex = 0;
+    for (let cellId = 0; cellId < this.cells.length; cellId++) {
+      const cell = this.cells[cellId];
+      cellSegmentCounts[cellId] = cell.segments.length;
+      
+      for (const segment of cell.segments) {
+        segmentSynapseCounts[segmentIndex] = segment.synapses.length;
+        segmentLastUsedIterations[segmentIndex] = segment.lastUsedIteration;
+        segmentIndex++;
+        
+        for (const synapse of segment.synapses) {
+          synapsePresynapticCells[synapseIndex] = synapse.presynapticCell;
+          synapsePermanences[synapseIndex] = synapse.permanence;
+          synapseIndex++;
+        }
+      }
+    }
+    
+    return {
+      config: { ...this.config },
+      numColumns: this.numColumns,
+      iteration: this.iteration,
+      nextSegmentId: this.nextSegmentId,
+      rngState: this.rngState,
+      predictionAccuracy: [...this.predictionAccuracy],
+      burstingColumns: [...this.burstingColumns],
+      cellSegmentCounts,
+      segmentSynapseCounts,
+      segmentLastUsedIterations,
+      synapsePresynapticCells,
+      synapsePermanences,
+      currentState: serializeTemporalState(this.currentState),
+      previousState: serializeTemporalState(this.previousState)
+    };
+  }
+
+  /**
+   * Restore state produced by saveState, replacing all current cells
+   */
+  public loadState(snapshot: TemporalPoolerSnapshot): void {
+    const numCells = snapshot.numColumns * snapshot.config.cellsPerColumn;
+    if (snapshot.cellSegmentCounts.length !== numCells) {
+      throw new Error(`Snapshot has ${snapshot.cellSegmentCounts.length} cells but config implies ${numCells}`);
+    }
+    
+    this.config = { ...snapshot.config };
+    this.numColumns = snapshot.numColumns;
+    this.numCells = numCells;
+    this.iteration = snapshot.iteration;
+    this.nextSegmentId = snapshot.nextSegmentId;
+    this.rngState = snapshot.rngState;
+    this.predictionAccuracy = [...snapshot.predictionAccuracy];
+    this.burstingColumns = [...snapshot.burstingColumns];
+    
+    this.initializeCells();
+    
+    let segmentIndex = 0;
+    let synapseIndex = 0;
+    for (let cellId = 0; cellId < numCells; cellId++) {
+      const cell = this.cells[cellId];
+      
+      for (let s = 0; s < snapshot.cellSegmentCounts[cellId]; s++) {
+        const segment: Segment = {
+          synapses: [],
+          lastUsedIteration: snapshot.segmentLastUsedIterations[segmentIndex]
+        };
+        
+        const synapseCount = snapshot.segmentSynapseCounts[segmentIndex];
+        for (let i = 0; i < synapseCount; i++) {
+          segment.synapses.push({
+            presynapticCell: snapshot.synapsePresynapticCells[synapseIndex],
+            permanence: snapshot.synapsePermanences[synapseIndex]
+          });
+          synapseIndex++;
+        }
+        
+        cell.segments.push(segment);
+        segmentIndex++;
+      }
+    }
+    
+    this.currentState = deserializeTemporalState(snapshot.currentState);
+    this.previousState = deserializeTemporalState(snapshot.previousState);
+  }
+}
+
+/**
+ * Flatten a TemporalState's Sets into arrays, preserving insertion order
+ * (winner cell order feeds the RNG-driven synapse sampling)
+ */
+export function serializeTemporalState(state: TemporalState): TemporalStateSnapshot {
+  return {
+    activeCells: Array.from(state.activeCells),
+    winnerCells: Array.from(state.winnerCells),
+    predictiveCells: Array.from(state.predictiveCells),
+    activeSegments: Array.from(state.activeSegments),
+    learningSegments: Array.from(state.learningSegments),
+    matchingSegments: Array.from(state.matchingSegments)
+  };
+}
+
+/**
+ * Rebuild a TemporalState from its serialized form
+ */
+export function deserializeTemporalState(snapshot: TemporalStateSnapshot): TemporalState {
+  return {
+    activeCells: new Set(snapshot.activeCells),
+    winnerCells: new Set(snapshot.winnerCells),
+    predictiveCells: new Set(snapshot.predictiveCells),
+    activeSegments: new Set(snapshot.activeSegments),
+    learningSegments: new Set(snapshot.learningSegments),
+    matchingSegments: new Set(snapshot.matchingSegments)
+  };
 }
 
 /**
@@ -20,7 +20,9 @@ import {
   ValidationResult,
   ReasoningChain,
   LLMRequest,
-  LLMResponse
+  LLMResponse,
+  LLMError,
+  StructuredOutputSchema
 } from '../types/index.js';
 
 // Define LLM interface type
@@ -50,6 +52,40 @@ export interface ContradictionAnalysis {
   recommendation: 'flag_as_error' | 'accept_as_valid' | 'needs_clarification';
 }
 
+const STATEMENT_ANALYSIS_SCHEMA: StructuredOutputSchema = {
+  name: 'statement_analysis',
+  description: 'Semantic components of a logical statement',
+  schema: {
+    type: 'object',
+    properties: {
+      subject: { type: 'string' },
+      predicate: { type: 'string' },
+      object: { type: 'string' },
+      direction: { type: 'string', enum: ['positive', 'negative', 'neutral'] },
+      domain: { type: 'string' },
+      relationships: { type: 'array', items: { type: 'string' } },
+      logicalForm: { type: 'string' }
+    },
+    required: ['subject', 'predicate', 'domain', 'relationships', 'logicalForm']
+  }
+};
+
+const CONTRADICTION_ANALYSIS_SCHEMA: StructuredOutputSchema = {
+  name: 'contradiction_analysis',
+  description: 'Relationship between two statements',
+  schema: {
+    type: 'object',
+    properties: {
+      isContradictory: { type: 'boolean' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      reasoning: { type: 'string' },
+      relationshipType: { type: 'string', enum: ['contradiction', 'causal_chain', 'independent', 'supporting'] },
+      recommendation: { type: 'string', enum: ['flag_as_error', 'accept_as_valid', 'needs_clarification'] }
+    },
+    required: ['isContradictory', 'confidence', 'reasoning', 'relationshipType', 'recommendation']
+  }
+};
+
 /**
  * Cache entry for contradiction analysis
  */
@@ -120,16 +156,17 @@ Example response:
 }`;
     
     const response = await this.llm({
-      model: 'gpt-3.5-turbo',
       prompt: prompt,
       systemPrompt: 'You are a semantic analysis system. Always respond with valid JSON only.',
       temperature: 0.3,
       maxTokens: 500,
       metadata: {
-        purpose: "analyze-logical-stmt"
-      }
+        purpose: "analyze-logical-stmt",
+        optional: true
+      },
+      responseSchema: STATEMENT_ANALYSIS_SCHEMA
     });
-    const analysis = JSON.parse(response.content) as SemanticAnalysis;
+    const analysis = this.readStructured<SemanticAnalysis>(response);
     this.setCache(cacheKey, analysis);
     return analysis;
   }
@@ -186,16 +223,36 @@ Response: {
 }`;
     
     const response = await this.llm({
-      model: 'gpt-3.5-turbo',
       prompt: prompt,
       systemPrompt: 'You are a logical analysis system. Always respond with valid JSON only.',
       temperature: 0.5,
       maxTokens: 800,
       metadata: {
-        purpose: "query-contradiction"
-      }
+        purpose: "query-contradiction",
+        optional: true
+      },
+      responseSchema: CONTRADICTION_ANALYSIS_SCHEMA
     });
-    return JSON.parse(response.content) as ContradictionAnalysis;
+    return this.readStructured<ContradictionAnalysis>(response);
+  }
+
+  /**
+   * Parsed value of a structured response; interfaces that return raw content only are parsed here
+   */
+  private readStructured<T>(response: LLMResponse<T>): T {
+    if (response.parsed === undefined) {
+      return JSON.parse(response.content) as T;
+    }
+
+    if (response.validationErrors?.length) {
+      throw new LLMError(
+        `LLM response did not match the schema: ${response.validationErrors.slice(0, 3).join('; ')}`,
+        'STRUCTURED_OUTPUT_INVALID',
+        { validationErrors: response.validationErrors, content: response.content }
+      );
+    }
+
+    return response.parsed;
   }
   
   /**
@@ -481,7 +538,16 @@ export class EnhancedLogicalProofValidator {
     
     // Only use enhanced validation with LLM
     if (this.llmDetector && this.useEnhancedValidation) {
-      const analyses = await this.llmDetector.batchAnalyzeContradictions(allStatements);
+      let analyses: Map<string, ContradictionAnalysis>;
+      try {
+        analyses = await this.llmDetector.batchAnalyzeContradictions(allStatements);
+      } catch (error) {
+        // The caller is out of budget for optional checks; report none rather than fail the proof
+        if (error instanceof LLMError && error.code === 'BUDGET_EXHAUSTED') {
+          return contradictions;
+        }
+        throw error;
+      }
       
       analyses.forEach((analysis, key) => {
         if (analysis.isContradictory && analysis.confidence > 0.7) {
@@ -26,6 +26,14 @@ export interface ColumnUsageStats {
   lastUsed: number;
 }
 
+/**
+ * Persisted assigner state
+ */
+export interface ColumnAssignerState {
+  assignments: ColumnAssignment[];
+  usage: ColumnUsageStats[];
+}
+
 /**
  * Assigns columns to concepts with semantic overlap
  */
@@ -407,6 +415,24 @@ export class AdaptiveColumnAssigner {
     this.columnUsage.clear();
   }
 
+  /**
+   * Export assignments and usage for persistence
+   */
+  exportState(): ColumnAssignerState {
+    return {
+      assignments: Array.from(this.columnAssignments.values()),
+      usage: Array.from(this.columnUsage.values())
+    };
+  }
+
+  /**
+   * Import state produced by exportState()
+   */
+  importState(state: ColumnAssignerState): void {
+    this.columnAssignments = new Map(state.assignments.map(a => [a.concept, a]));
+    this.columnUsage = new Map(state.usage.map(u => [u.columnIndex, { ...u, concepts: new Set(u.concepts) }]));
+  }
+
   /**
    * Export assignments for debugging
    */
@@ -3,8 +3,9 @@
  * Uses LLM to normalize concepts to canonical forms and calculate semantic similarity
  */
 
-import { LLMRequest, LLMResponse } from '../../types/index.js';
+import { LLMRequest, LLMResponse, LLMError, EmbeddingInterface } from '../../types/index.js';
 import { SemanticEncodingError, SemanticEncodingException } from './semantic-types.js';
+import { cosineSimilarity } from './hashed-ngram-embedder.js';
 
 /**
  * Normalized concept with metadata
@@ -32,9 +33,18 @@ export class ConceptNormalizer {
   private normalizationCache: Map<string, string>;
   private similarityCache: Map<string, number>;
   private readonly llmInterface: (request: LLMRequest) => Promise<LLMResponse>;
+  private readonly embeddingInterface?: EmbeddingInterface;
 
-  constructor(llmInterface: (request: LLMRequest) => Promise<LLMResponse>) {
+  /**
+   * With an embeddingInterface, similarity is the cosine of the concepts'
+   * embeddings instead of a score asked of the chat model
+   */
+  constructor(
+    llmInterface: (request: LLMRequest) => Promise<LLMResponse>,
+    embeddingInterface?: EmbeddingInterface
+  ) {
     this.llmInterface = llmInterface;
+    this.embeddingInterface = embeddingInterface;
     this.normalizationCache = new Map();
     this.similarityCache = new Map();
   }
@@ -65,13 +75,13 @@ Rules:
 Return ONLY the canonical form, nothing else.`;
 
       const response = await this.llmInterface({
-        model: 'gpt-3.5-turbo',
         prompt: prompt,
         systemPrompt: 'You are a linguistic expert specializing in concept normalization. Provide consistent canonical forms.',
         temperature: 0.1, // Very low for consistency
         maxTokens: 50,
         metadata: {
-          purpose: "normalize-single"
+          purpose: "normalize-single",
+          optional: true
         }
       });
 
@@ -85,6 +95,11 @@ Return ONLY the canonical form, nothing else.`;
 
       return normalized;
     } catch (error) {
+      // Skipped to save budget: use the plain form without caching it
+      if (error instanceof LLMError && error.code === 'BUDGET_EXHAUSTED') {
+        return lowerConcept;
+      }
+      
       throw new SemanticEncodingException(
         SemanticEncodingError.LLM_EXTRACTION_FAILED,
         `Failed to normalize concept: ${error instanceof Error ? error.message : String(error)}`,
@@ -132,13 +147,13 @@ Return a JSON array with the normalized forms in the same order, like:
 ["normalized1", "normalized2", ...]`;
 
         const response = await this.llmInterface({
-          model: 'gpt-3.5-turbo',
           prompt: prompt,
           systemPrompt: 'You are a linguistic expert. Provide consistent canonical forms in JSON format.',
           temperature: 0.1,
           maxTokens: 200,
           metadata: {
-            purpose: "normalize-many"
+            purpose: "normalize-many",
+            optional: true
           }
         });
 
@@ -156,6 +171,14 @@ Return a JSON array with the normalized forms in the same order, like:
           results.set(original, norm);
         }
       } catch (error) {
+        // Skipped to save budget: individual calls would be skipped too, keep originals
+        if (error instanceof LLMError && error.code === 'BUDGET_EXHAUSTED') {
+          for (const concept of uncachedConcepts) {
+            results.set(concept, concept.toLowerCase().trim());
+          }
+          return results;
+        }
+        
         // Fallback to individual normalization
         for (const concept of uncachedConcepts) {
           try {
@@ -193,6 +216,17 @@ Return a JSON array with the normalized forms in the same order, like:
       return this.similarityCache.get(cacheKey)!;
     }
 
+    if (this.embeddingInterface) {
+      try {
+        const { embeddings } = await this.embeddingInterface([norm1, norm2]);
+        const similarity = Math.max(0, cosineSimilarity(embeddings[0], embeddings[1]));
+        this.similarityCache.set(cacheKey, similarity);
+        return similarity;
+      } catch (error) {
+        console.warn('Embedding similarity failed, asking the LLM instead:', error instanceof Error ? error.message : error);
+      }
+    }
+
     try {
       const prompt = `Rate the semantic similarity between these two concepts on a scale of 0.0 to 1.0:
 
@@ -215,12 +249,13 @@ Consider:
 Return ONLY a number between 0.0 and 1.0`;
 
       const response = await this.llmInterface({
-        model: 'gpt-3.5-turbo',
         prompt: prompt,
         systemPrompt: 'You are an expert in semantic similarity. Provide consistent similarity scores.',
         temperature: 0.1,
         maxTokens: 10,
-        metadata: {}
+        metadata: {
+          optional: true
+        }
       });
 
       const similarity = parseFloat(response.content.trim());
@@ -251,6 +286,11 @@ Return ONLY a number between 0.0 and 1.0`;
       matrix.set(concept, new Map());
     }
 
+    // Embed every concept in one batch so each pair costs no further calls
+    if (this.embeddingInterface) {
+      await this.cacheEmbeddingSimilarities(concepts);
+    }
+
     // Calculate pairwise similarities
     for (let i = 0; i < concepts.length; i++) {
       for (let j = i; j < concepts.length; j++) {
@@ -266,6 +306,27 @@ Return ONLY a number between 0.0 and 1.0`;
     return matrix;
   }
 
+  /**
+   * Fill the similarity cache for every pair of concepts from one embedding call
+   */
+  private async cacheEmbeddingSimilarities(concepts: string[]): Promise<void> {
+    const normalized = await Promise.all(concepts.map(concept => this.normalize(concept)));
+    const unique = Array.from(new Set(normalized));
+
+    try {
+      const { embeddings } = await this.embeddingInterface!(unique);
+      for (let i = 0; i < unique.length; i++) {
+        for (let j = i + 1; j < unique.length; j++) {
+          const cacheKey = [unique[i], unique[j]].sort().join('|');
+          this.similarityCache.set(cacheKey, Math.max(0, cosineSimilarity(embeddings[i], embeddings[j])));
+        }
+      }
+    } catch (error) {
+      // calculateSimilarity retries pair by pair
+      console.warn('Batch embedding failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
   /**
    * Find similar concepts from a list
    */
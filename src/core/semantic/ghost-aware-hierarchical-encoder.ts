@@ -4,7 +4,7 @@
  */
 
 import { HierarchicalHashEncoder } from './hierarchical-hash-encoder.js';
-import { ConceptRelationshipGraph } from './concept-relationship-graph.js';
+import { ConceptRelationshipGraph, PersistedGraph } from './concept-relationship-graph.js';
 import { SemanticFeatures, SemanticEncodingConfig } from './semantic-types.js';
 
 export class GhostAwareHierarchicalEncoder {
@@ -128,6 +128,20 @@ export class GhostAwareHierarchicalEncoder {
     return this.conceptGraph.importEdgeConfiguration(config);
   }
 
+  /**
+   * Persist the concept relationship graph
+   */
+  persistGraph(): PersistedGraph {
+    return this.conceptGraph.persist();
+  }
+
+  /**
+   * Load a concept relationship graph produced by persistGraph()
+   */
+  loadGraph(persisted: PersistedGraph): void {
+    this.conceptGraph.load(persisted);
+  }
+
   /**
    * Reset all edge states
    */
@@ -0,0 +1,196 @@
+/**
+ * Hashed N-gram Embedder
+ * Deterministic local text embedding: words, word bigrams and character
+ * trigrams are hashed into a fixed number of dimensions and weighted by
+ * TF-IDF over the texts observed so far. No model files or network needed.
+ * IDF weights are refreshed in steps as the corpus grows, and each refresh
+ * bumps the version, so vectors cached under older weights can be recomputed.
+ */
+
+import { TextEmbedder } from './semantic-types.js';
+
+export const STOP_WORDS = new Set([
+  'the', 'is', 'at', 'which', 'on', 'a', 'an', 'and', 'or', 'but',
+  'in', 'with', 'to', 'for', 'of', 'as', 'by', 'that', 'this',
+  'it', 'its', 'from', 'be', 'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had',
+  'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may',
+  'might', 'must', 'can', 'what', 'how', 'when', 'where', 'who',
+  'why', 'their', 'them', 'they', 'then', 'there', 'these', 'those',
+  'into', 'about', 'than', 'more', 'most', 'some', 'such', 'other',
+  'over', 'also', 'very', 'just', 'only', 'not', 'all', 'any', 'each',
+  'our', 'your', 'you', 'we', 'he', 'she', 'his', 'her', 'if', 'so'
+]);
+
+// Relative weight of each feature kind
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.3;
+
+// IDF weights are refreshed once the corpus has grown by this share since the last refresh
+const IDF_REFRESH_GROWTH = 0.1;
+
+// Beyond this many terms, document frequencies are halved and rare terms forgotten
+const MAX_TRACKED_TERMS = 20000;
+
+/**
+ * Lowercase alphanumeric tokens in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:['_-][a-z0-9]+)*/g) || [];
+}
+
+/**
+ * Cosine similarity of two equal-length vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class HashedNgramEmbedder implements TextEmbedder {
+  private readonly dimensions: number;
+  private documentFrequency: Map<string, number> = new Map();
+  private documentCount: number = 0;
+
+  // Frequencies as of the last refresh; vectors are weighted by these
+  private idfFrequency: Map<string, number> = new Map();
+  private idfDocumentCount: number = 0;
+  private version: number = 0;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+
+  /**
+   * L2-normalized TF-IDF vector of the text's hashed n-grams
+   */
+  vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, weight] of this.extractNgrams(text)) {
+      const hash = this.hash(feature);
+      // The sign bit keeps collisions from always adding up
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[(hash & 0x7fffffff) % this.dimensions] += sign * weight * this.idf(feature);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  /**
+   * Count the text as a document for IDF weighting. The weights themselves
+   * change only when the corpus has grown enough to refresh them.
+   */
+  observe(text: string): void {
+    this.documentCount++;
+    for (const feature of this.extractNgrams(text).keys()) {
+      this.documentFrequency.set(feature, (this.documentFrequency.get(feature) || 0) + 1);
+    }
+
+    if (this.documentFrequency.size > MAX_TRACKED_TERMS) {
+      while (this.documentFrequency.size > MAX_TRACKED_TERMS) {
+        this.decay();
+      }
+      this.refreshIdf();
+    } else if (this.documentCount - this.idfDocumentCount >= Math.max(1, this.idfDocumentCount * IDF_REFRESH_GROWTH)) {
+      this.refreshIdf();
+    }
+  }
+
+  /**
+   * Smoothed inverse document frequency; 1 for every term before anything is observed
+   */
+  idf(term: string): number {
+    const df = this.idfFrequency.get(term) || 0;
+    return Math.log((1 + this.idfDocumentCount) / (1 + df)) + 1;
+  }
+
+  /**
+   * Changes whenever the IDF weights do; vectors from another version are stale
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  // === Private helpers ===
+
+  private refreshIdf(): void {
+    this.idfFrequency = new Map(this.documentFrequency);
+    this.idfDocumentCount = this.documentCount;
+    this.version++;
+  }
+
+  /**
+   * Halve every count, dropping terms seen in less than one document, so
+   * the table stays bounded and recent texts weigh more
+   */
+  private decay(): void {
+    this.documentCount /= 2;
+    this.documentFrequency.forEach((count, term) => {
+      if (count < 2) {
+        this.documentFrequency.delete(term);
+      } else {
+        this.documentFrequency.set(term, count / 2);
+      }
+    });
+  }
+
+  /**
+   * Weighted term frequencies of content words, word bigrams and character trigrams
+   */
+  private extractNgrams(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    const words = tokenize(text).filter(word => !STOP_WORDS.has(word));
+
+    words.forEach((word, i) => {
+      add(word, WORD_WEIGHT);
+
+      if (i > 0) {
+        add(`${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      }
+
+      // Trigrams let inflections of a word ("economy", "economic") overlap
+      const padded = `<${word}>`;
+      const trigramCount = padded.length - 2;
+      for (let j = 0; j < trigramCount; j++) {
+        add(`#${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT / trigramCount);
+      }
+    });
+
+    return features;
+  }
+
+  /**
+   * FNV-1a 32-bit hash
+   */
+  private hash(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
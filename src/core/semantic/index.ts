@@ -6,6 +6,8 @@
 export * from './semantic-types.js';
 export * from './semantic-feature-extractor.js';
 export * from './semantic-feature-cache.js';
+export * from './hashed-ngram-embedder.js';
+export * from './local-feature-source.js';
 export * from './semantic-encoder.js';
 export * from './concept-normalizer.js';
 export * from './semantic-relationship-manager.js';
@@ -0,0 +1,261 @@
+/**
+ * Local Feature Source
+ * Derives semantic features from the hashed n-gram embedding and a few
+ * lexicons instead of an LLM round-trip. Concepts are ranked by TF-IDF,
+ * categories by similarity to category prototypes, and ghost tokens come
+ * from concepts that co-occurred with these ones in earlier texts.
+ */
+
+import {
+  SemanticFeatures,
+  GhostToken,
+  FeatureSource,
+  SemanticEncodingConfig,
+  DEFAULT_SEMANTIC_CONFIG
+} from './semantic-types.js';
+import { HashedNgramEmbedder, STOP_WORDS, tokenize, cosineSimilarity } from './hashed-ngram-embedder.js';
+
+/**
+ * Keywords describing each category; a text's category scores are its similarity to these
+ */
+const CATEGORY_PROTOTYPES: Record<string, string> = {
+  technology: 'technology software computer algorithm system data digital network artificial intelligence machine automation',
+  science: 'science physics chemistry biology experiment theory research quantum energy particle evolution',
+  economics: 'economy economic market employment jobs labor trade finance price growth income business',
+  society: 'society social culture community ethics inequality education people public policy',
+  health: 'health medical disease patient treatment medicine care clinical hospital wellbeing',
+  environment: 'environment climate ecosystem pollution carbon emissions sustainability ocean weather biodiversity',
+  politics: 'politics government election law regulation policy democracy state rights power',
+  philosophy: 'philosophy meaning ethics consciousness knowledge truth mind morality existence reality',
+  history: 'history historical past century war empire ancient origins tradition',
+  analysis: 'analysis analyze evaluate assess compare measure examine consider investigate'
+};
+
+/**
+ * Word stems raising (high) or lowering (low) each attribute
+ */
+const ATTRIBUTE_LEXICONS: Record<keyof SemanticFeatures['attributes'], { high: string[]; low: string[] }> = {
+  abstractness: {
+    high: ['concept', 'theor', 'idea', 'principle', 'meaning', 'abstract', 'philosoph', 'nature', 'essence', 'framework'],
+    low: ['specific', 'example', 'physical', 'tool', 'device', 'instance', 'object', 'measure', 'build']
+  },
+  specificity: {
+    high: ['specific', 'exact', 'precise', 'particular', 'detail', 'step', 'instance', 'case'],
+    low: ['general', 'overall', 'broad', 'everything', 'anything', 'various', 'overview']
+  },
+  technicality: {
+    high: ['algorithm', 'system', 'data', 'model', 'protocol', 'quantum', 'neural', 'compute', 'software', 'architect', 'implement', 'function', 'parameter'],
+    low: ['simple', 'basic', 'everyday', 'feel', 'story', 'people', 'life']
+  },
+  certainty: {
+    high: ['certain', 'definite', 'proven', 'always', 'clearly', 'fact', 'established', 'known'],
+    low: ['maybe', 'perhaps', 'might', 'possibl', 'uncertain', 'unclear', 'could', 'likely', 'whether', 'predict']
+  },
+  actionability: {
+    high: ['create', 'build', 'design', 'implement', 'make', 'develop', 'plan', 'fix', 'improve', 'should', 'recommend', 'strateg'],
+    low: ['describe', 'explain', 'history', 'meaning', 'wonder', 'understand']
+  },
+  temporality: {
+    high: ['future', 'will', 'next', 'forecast', 'predict', 'trend', 'decade', 'year', 'century', 'history', 'past', 'soon', 'long-term', 'change', 'time'],
+    low: ['always', 'timeless', 'constant', 'static']
+  }
+};
+
+const RELATION_STEMS = [
+  'cause', 'affect', 'impact', 'lead', 'increase', 'decrease', 'reduce', 'improve', 'change',
+  'create', 'develop', 'depend', 'influence', 'relate', 'compare', 'enable', 'prevent', 'transform',
+  'replace', 'drive', 'produce', 'require', 'support', 'threaten', 'shape'
+];
+
+const TEMPORAL_WORDS = ['when', 'time', 'decade', 'year', 'future', 'past', 'history', 'century', 'next', 'soon', 'trend', 'forecast'];
+
+const MIN_CATEGORY_SCORE = 0.05;
+const MAX_VOCABULARY = 5000;
+
+export class LocalFeatureSource implements FeatureSource {
+  private readonly config: SemanticEncodingConfig;
+  private readonly embedder: HashedNgramEmbedder;
+
+  // Concept co-occurrence over observed texts, for ghost tokens
+  private conceptCounts: Map<string, number> = new Map();
+  private cooccurrence: Map<string, Map<string, number>> = new Map();
+
+  constructor(
+    config: Partial<SemanticEncodingConfig> = {},
+    embedder?: HashedNgramEmbedder
+  ) {
+    this.config = { ...DEFAULT_SEMANTIC_CONFIG, ...config };
+    this.embedder = embedder ?? new HashedNgramEmbedder(this.config.embeddingDimensions);
+  }
+
+  async extractFeatures(text: string): Promise<SemanticFeatures> {
+    const tokens = tokenize(text);
+    const contentWords = tokens.filter(t => t.length > 1 && !STOP_WORDS.has(t));
+    const vector = this.embedder.vectorize(text);
+
+    const concepts = this.rankConcepts(contentWords);
+    const relationships = this.extractRelationships(contentWords);
+
+    const features: SemanticFeatures = {
+      concepts: concepts.length > 0 ? concepts : ['general', 'query', 'analysis'],
+      categories: this.scoreCategories(vector),
+      attributes: this.scoreAttributes(text, tokens),
+      relationships,
+      intent: this.detectIntent(text),
+      complexity: this.scoreComplexity(tokens, contentWords),
+      temporalAspect: tokens.some(t => TEMPORAL_WORDS.includes(t)) || /\b(1[89]|20)\d{2}\b/.test(text)
+    };
+
+    if (this.config.enableGhostTokens) {
+      features.ghostTokens = this.findGhostTokens(concepts, new Set(tokens));
+    }
+
+    // Learn from the text only after scoring it, so its own terms don't dilute its IDF
+    this.embedder.observe(text);
+    this.recordCooccurrence(concepts);
+
+    return features;
+  }
+
+  getEmbedder(): HashedNgramEmbedder {
+    return this.embedder;
+  }
+
+  // === Private helpers ===
+
+  /**
+   * Up to 7 content words by TF-IDF, earlier words first on ties
+   */
+  private rankConcepts(contentWords: string[]): string[] {
+    const termFrequency = new Map<string, number>();
+    contentWords.forEach(word => termFrequency.set(word, (termFrequency.get(word) || 0) + 1));
+
+    return Array.from(termFrequency.entries())
+      .map(([word, tf], order) => ({ word, order, score: tf * this.embedder.idf(word) }))
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .slice(0, 7)
+      .map(entry => entry.word);
+  }
+
+  /**
+   * 2-4 categories closest to the text, padded with general ones
+   */
+  private scoreCategories(vector: number[]): string[] {
+    const categories = Object.entries(CATEGORY_PROTOTYPES)
+      .map(([name, keywords]) => ({ name, score: cosineSimilarity(vector, this.embedder.vectorize(keywords)) }))
+      .filter(c => c.score >= MIN_CATEGORY_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 4)
+      .map(c => c.name);
+
+    return categories.length < 2 ? [...categories, 'general', 'query'].slice(0, 2) : categories;
+  }
+
+  private scoreAttributes(text: string, tokens: string[]): SemanticFeatures['attributes'] {
+    const score = (attribute: keyof SemanticFeatures['attributes'], bias: number = 0) => {
+      const { high, low } = ATTRIBUTE_LEXICONS[attribute];
+      const highHits = tokens.filter(t => high.some(stem => t.startsWith(stem))).length + bias;
+      const lowHits = tokens.filter(t => low.some(stem => t.startsWith(stem))).length;
+      return Math.max(0, Math.min(1, 0.5 + 0.5 * (highHits - lowHits) / (Math.abs(highHits) + lowHits + 1)));
+    };
+
+    const numbers = tokens.filter(t => /\d/.test(t)).length;
+    const properNouns = (text.match(/(?<!^|[.?!]\s)\b[A-Z][a-z]+/g) || []).length;
+    const longWords = tokens.filter(t => t.length > 10).length;
+
+    return {
+      abstractness: score('abstractness'),
+      specificity: score('specificity', numbers + properNouns),
+      technicality: score('technicality', longWords),
+      certainty: score('certainty', text.includes('?') ? -1 : 0),
+      actionability: score('actionability'),
+      temporality: score('temporality')
+    };
+  }
+
+  private extractRelationships(contentWords: string[]): string[] {
+    const relationships: string[] = [];
+
+    for (const word of contentWords) {
+      const stem = RELATION_STEMS.find(s => word.startsWith(s.replace(/e$/, '')));
+      if (stem && !relationships.includes(stem)) {
+        relationships.push(stem);
+      }
+    }
+
+    return relationships.slice(0, 5);
+  }
+
+  private detectIntent(text: string): SemanticFeatures['intent'] {
+    const trimmed = text.trim();
+    const lower = trimmed.toLowerCase();
+
+    if (trimmed.includes('?') || /^(what|how|why|when|where|who|which|is|are|can|does|do|will|should)\b/.test(lower)) {
+      return 'question';
+    }
+    if (/^(create|design|build|make|write|list|explain|describe|give)\b/.test(lower)) {
+      return 'command';
+    }
+    if (/\b(analy[sz]e|evaluate|assess|compare|consider)\b/.test(lower)) {
+      return 'analysis';
+    }
+    return 'statement';
+  }
+
+  private scoreComplexity(tokens: string[], contentWords: string[]): number {
+    if (tokens.length === 0) return 0;
+
+    const length = Math.min(contentWords.length / 20, 1);
+    const vocabulary = new Set(contentWords).size / Math.max(contentWords.length, 1);
+    const wordLength = Math.min(contentWords.reduce((sum, w) => sum + w.length, 0) / Math.max(contentWords.length, 1) / 10, 1);
+
+    return Math.min(1, 0.5 * length + 0.2 * vocabulary + 0.3 * wordLength);
+  }
+
+  /**
+   * Concepts seen alongside these ones before, but absent from the text. A candidate
+   * linked to two or more of the text's concepts is a bridge between them and scores higher.
+   */
+  private findGhostTokens(concepts: string[], present: Set<string>): GhostToken[] {
+    const candidates = new Map<string, { total: number; links: number }>();
+
+    for (const concept of concepts) {
+      const seen = this.conceptCounts.get(concept);
+      const neighbours = this.cooccurrence.get(concept);
+      if (!seen || !neighbours) continue;
+
+      neighbours.forEach((count, neighbour) => {
+        if (present.has(neighbour)) return;
+        const candidate = candidates.get(neighbour) || { total: 0, links: 0 };
+        candidate.total += count / seen; // P(neighbour | concept)
+        candidate.links++;
+        candidates.set(neighbour, candidate);
+      });
+    }
+
+    return Array.from(candidates.entries())
+      .map(([token, { total, links }]): GhostToken => ({
+        token,
+        probability: Math.min(1, 0.6 * total / links + 0.2 * (links - 1)),
+        type: links >= 2 ? 'bridge' : 'context'
+      }))
+      .filter(gt => gt.probability >= this.config.minGhostTokenProbability)
+      .sort((a, b) => b.probability - a.probability || a.token.localeCompare(b.token))
+      .slice(0, this.config.maxGhostTokens);
+  }
+
+  private recordCooccurrence(concepts: string[]): void {
+    for (const concept of concepts) {
+      if (!this.conceptCounts.has(concept) && this.conceptCounts.size >= MAX_VOCABULARY) continue;
+      this.conceptCounts.set(concept, (this.conceptCounts.get(concept) || 0) + 1);
+
+      const neighbours = this.cooccurrence.get(concept) || new Map<string, number>();
+      concepts.forEach(other => {
+        if (other !== concept) {
+          neighbours.set(other, (neighbours.get(other) || 0) + 1);
+        }
+      });
+      this.cooccurrence.set(concept, neighbours);
+    }
+  }
+}
@@ -3,7 +3,7 @@
  * Converts semantic features to Sparse Distributed Representations (SDRs)
  */
 
-import { LLMRequest, LLMResponse } from '../../types/index.js';
+import { LLMRequest, LLMResponse, EmbeddingInterface } from '../../types/index.js';
 import {
   SemanticFeatures,
   SemanticEncodingConfig,
@@ -12,20 +12,47 @@ import {
   SemanticEncodingException,
   DEFAULT_SEMANTIC_CONFIG,
   ATTRIBUTE_OFFSETS,
-  INTENT_OFFSETS
+  INTENT_OFFSETS,
+  SemanticCacheEntry,
+  ConceptColumnMapping,
+  FeatureSource,
+  TextEmbedder
 } from './semantic-types.js';
 import { SemanticFeatureExtractor } from './semantic-feature-extractor.js';
 import { SemanticFeatureCache } from './semantic-feature-cache.js';
+import { HashedNgramEmbedder } from './hashed-ngram-embedder.js';
+import { LocalFeatureSource } from './local-feature-source.js';
 import { ConceptNormalizer } from './concept-normalizer.js';
-import { SemanticRelationshipManager } from './semantic-relationship-manager.js';
-import { AdaptiveColumnAssigner } from './adaptive-column-assigner.js';
+import { SemanticRelationshipManager, RelationshipManagerState } from './semantic-relationship-manager.js';
+import { AdaptiveColumnAssigner, ColumnAssignerState } from './adaptive-column-assigner.js';
 import { HierarchicalHashEncoder } from './hierarchical-hash-encoder.js';
 import { GhostAwareHierarchicalEncoder } from './ghost-aware-hierarchical-encoder.js';
-import { ConceptRelationshipGraph, EdgeConfig } from './concept-relationship-graph.js';
+import { ConceptRelationshipGraph, EdgeConfig, PersistedGraph } from './concept-relationship-graph.js';
+
+/**
+ * Persisted encoder caches. Components that are disabled in the
+ * encoder's configuration are stored as null.
+ */
+export interface SemanticEncoderState {
+  featureCache: SemanticCacheEntry[];
+  conceptMappings: ConceptColumnMapping[];
+  normalizerCache: ReturnType<ConceptNormalizer['exportCache']> | null;
+  relationships: RelationshipManagerState | null;
+  columnAssignments: ColumnAssignerState | null;
+  conceptGraph: PersistedGraph | null;
+}
+
+export interface SemanticEncoderOptions {
+  /** Takes precedence over config.featureSource */
+  featureSource?: FeatureSource;
+  
+  /** Provider embeddings for the feature cache (with cacheSimilarity 'embedding') and concept similarity */
+  embeddingInterface?: EmbeddingInterface;
+}
 
 export class SemanticEncoder {
   private readonly config: SemanticEncodingConfig;
-  private readonly featureExtractor: SemanticFeatureExtractor;
+  private readonly featureSource: FeatureSource;
   private readonly featureCache: SemanticFeatureCache;
   private readonly llmInterface: (request: LLMRequest) => Promise<LLMResponse>;
   
@@ -39,20 +66,45 @@ export class SemanticEncoder {
   
   // Ghost-aware encoder (Phase 2)
   private readonly ghostAwareEncoder?: GhostAwareHierarchicalEncoder;
+  
+  // Encodings update shared column and relationship state, so they run one at a time
+  private encodingQueue: Promise<unknown> = Promise.resolve();
 
+  /**
+   * With featureSource 'local' features are extracted without the LLM; disable
+   * concept normalization as well to encode fully offline.
+   */
   constructor(
     llmInterface: (request: LLMRequest) => Promise<LLMResponse>,
-    config: Partial<SemanticEncodingConfig> = {}
+    config: Partial<SemanticEncodingConfig> = {},
+    options: SemanticEncoderOptions = {}
   ) {
     this.config = { ...DEFAULT_SEMANTIC_CONFIG, ...config };
     this.llmInterface = llmInterface;
-    this.featureExtractor = new SemanticFeatureExtractor(
-      llmInterface,
-      this.config.llmTemperature,
-      this.config.llmMaxTokens,
-      this.config
+    
+    // The local source and the cache share one embedder so both see the same IDF weights
+    const localEmbedder = this.config.featureSource === 'local' || this.config.cacheSimilarity === 'embedding'
+      ? new HashedNgramEmbedder(this.config.embeddingDimensions)
+      : undefined;
+    
+    this.featureSource = options.featureSource ?? (this.config.featureSource === 'local'
+      ? new LocalFeatureSource(this.config, localEmbedder)
+      : new SemanticFeatureExtractor(
+          llmInterface,
+          this.config.llmTemperature,
+          this.config.llmMaxTokens,
+          this.config
+        ));
+    
+    // Provider embeddings, when given, replace the local embedder for cache matching
+    const embeddingInterface = options.embeddingInterface;
+    const cacheEmbedder: TextEmbedder | undefined = embeddingInterface
+      ? { embed: async text => (await embeddingInterface([text])).embeddings[0] }
+      : localEmbedder;
+    this.featureCache = new SemanticFeatureCache(
+      this.config,
+      this.config.cacheSimilarity === 'embedding' ? cacheEmbedder : undefined
     );
-    this.featureCache = new SemanticFeatureCache(this.config);
     
     // Initialize Hierarchical Encoder if enabled
     if (this.config.enableHierarchicalEncoding) {
@@ -73,7 +125,7 @@ export class SemanticEncoder {
     // Initialize Phase 2 components if enabled
     if (this.config.enablePhase2Enhancements) {
       if (this.config.enableConceptNormalization) {
-        this.conceptNormalizer = new ConceptNormalizer(llmInterface);
+        this.conceptNormalizer = new ConceptNormalizer(llmInterface, embeddingInterface);
       }
       
       if (this.config.enableRelationshipTracking) {
@@ -98,50 +150,107 @@ export class SemanticEncoder {
       // Get features (from cache or extract new)
       const { features, fromCache } = await this.featureCache.getFeatures(
         text,
-        () => this.featureExtractor.extractFeatures(text)
+        () => this.featureSource.extractFeatures(text)
       );
 
-      // Use Phase 2 enhancements if enabled
-      let encoding: boolean[];
-      
-      // Combine all enhancement approaches when available
-      if (this.config.enablePhase2Enhancements && this.columnAssigner) {
-        // Start with semantic enhancements (adaptive columns, normalization, etc.)
-        encoding = await this.encodeWithSemanticEnhancements(features);
-        
-        // If ghost tokens are also enabled, enhance the encoding further
-        if (this.config.enableGhostTokens && this.ghostAwareEncoder) {
-          encoding = await this.enhanceWithGhostTokens(encoding, features);
+      return await this.serialize(() => this.encodeFeatures(features, fromCache));
+    } catch (error) {
+      throw this.toEncodingError(error, { text });
+    }
+  }
+
+  /**
+   * Encode several texts, extracting the features of all uncached ones in one
+   * batched call when the feature source supports it
+   */
+  async encodeBatch(texts: string[]): Promise<SemanticEncodingResult[]> {
+    try {
+      const results = await this.featureCache.getFeaturesBatch(texts, uncached => this.extractBatch(uncached));
+
+      return await this.serialize(async () => {
+        const encodings: SemanticEncodingResult[] = [];
+        for (const { features, fromCache } of results) {
+          encodings.push(await this.encodeFeatures(features, fromCache));
         }
-      } else if (this.config.enableGhostTokens && this.ghostAwareEncoder) {
-        // Use only ghost-aware encoding if semantic enhancements are disabled
-        encoding = await this.encodeWithGhostTokens(features);
-      } else {
-        // Fallback to basic encoding
-        encoding = this.featuresToSDR(features);
-      }
+        return encodings;
+      });
+    } catch (error) {
+      throw this.toEncodingError(error, { texts });
+    }
+  }
 
-      // Calculate statistics
-      const activeCount = encoding.filter(bit => bit).length;
-      const sparsity = activeCount / encoding.length;
-
-      return {
-        encoding,
-        features,
-        fromCache,
-        activeCount,
-        sparsity
-      };
+  /**
+   * Extract and cache the features of texts about to be encoded, in one
+   * batched call. Nothing is encoded, so columns are still assigned in the
+   * order the texts are later encoded.
+   */
+  async prefetchFeatures(texts: string[]): Promise<void> {
+    try {
+      await this.featureCache.getFeaturesBatch(texts, uncached => this.extractBatch(uncached));
     } catch (error) {
-      if (error instanceof SemanticEncodingException) {
-        throw error;
+      throw this.toEncodingError(error, { texts });
+    }
+  }
+
+  private extractBatch(texts: string[]): Promise<SemanticFeatures[]> {
+    return this.featureSource.extractFeaturesBatch
+      ? this.featureSource.extractFeaturesBatch(texts)
+      : Promise.all(texts.map(text => this.featureSource.extractFeatures(text)));
+  }
+
+  private async encodeFeatures(features: SemanticFeatures, fromCache: boolean): Promise<SemanticEncodingResult> {
+    // Use Phase 2 enhancements if enabled
+    let encoding: boolean[];
+    
+    // Combine all enhancement approaches when available
+    if (this.config.enablePhase2Enhancements && this.columnAssigner) {
+      // Start with semantic enhancements (adaptive columns, normalization, etc.)
+      encoding = await this.encodeWithSemanticEnhancements(features);
+      
+      // If ghost tokens are also enabled, enhance the encoding further
+      if (this.config.enableGhostTokens && this.ghostAwareEncoder) {
+        encoding = await this.enhanceWithGhostTokens(encoding, features);
       }
-      throw new SemanticEncodingException(
-        SemanticEncodingError.ENCODING_FAILED,
-        `Failed to encode text: ${error instanceof Error ? error.message : String(error)}`,
-        { text, error }
-      );
+    } else if (this.config.enableGhostTokens && this.ghostAwareEncoder) {
+      // Use only ghost-aware encoding if semantic enhancements are disabled
+      encoding = await this.encodeWithGhostTokens(features);
+    } else {
+      // Fallback to basic encoding
+      encoding = this.featuresToSDR(features);
+    }
+
+    // Calculate statistics
+    const activeCount = encoding.filter(bit => bit).length;
+    const sparsity = activeCount / encoding.length;
+
+    return {
+      encoding,
+      features,
+      fromCache,
+      activeCount,
+      sparsity
+    };
+  }
+
+  /**
+   * Run after every encoding queued before it. Feature extraction stays
+   * concurrent; only the steps that assign columns are serialized.
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.encodingQueue.then(task);
+    this.encodingQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private toEncodingError(error: unknown, details: any): SemanticEncodingException {
+    if (error instanceof SemanticEncodingException) {
+      return error;
     }
+    return new SemanticEncodingException(
+      SemanticEncodingError.ENCODING_FAILED,
+      `Failed to encode text: ${error instanceof Error ? error.message : String(error)}`,
+      { ...details, error }
+    );
   }
 
   /**
@@ -848,6 +957,45 @@ export class SemanticEncoder {
     }
   }
 
+  /**
+   * Export learned caches for persistence
+   */
+  exportState(): SemanticEncoderState {
+    return {
+      featureCache: this.featureCache.exportEntries(),
+      conceptMappings: this.featureCache.exportConceptMappings(),
+      normalizerCache: this.conceptNormalizer ? this.conceptNormalizer.exportCache() : null,
+      relationships: this.relationshipManager ? this.relationshipManager.exportState() : null,
+      columnAssignments: this.columnAssigner ? this.columnAssigner.exportState() : null,
+      conceptGraph: this.ghostAwareEncoder ? this.ghostAwareEncoder.persistGraph() : null
+    };
+  }
+
+  /**
+   * Import caches produced by exportState().
+   * Parts for components that are disabled here are ignored.
+   */
+  importState(state: SemanticEncoderState): void {
+    this.featureCache.importEntries(state.featureCache);
+    this.featureCache.importConceptMappings(state.conceptMappings);
+    
+    if (this.conceptNormalizer && state.normalizerCache) {
+      this.conceptNormalizer.importCache(state.normalizerCache);
+    }
+    
+    if (this.relationshipManager && state.relationships) {
+      this.relationshipManager.importState(state.relationships);
+    }
+    
+    if (this.columnAssigner && state.columnAssignments) {
+      this.columnAssigner.importState(state.columnAssignments);
+    }
+    
+    if (this.ghostAwareEncoder && state.conceptGraph) {
+      this.ghostAwareEncoder.loadGraph(state.conceptGraph);
+    }
+  }
+
   /**
    * Export configuration
    */
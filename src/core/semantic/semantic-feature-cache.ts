@@ -8,52 +8,129 @@ import {
   SemanticCacheEntry, 
   ConceptColumnMapping,
   SemanticEncodingConfig,
-  DEFAULT_SEMANTIC_CONFIG 
+  DEFAULT_SEMANTIC_CONFIG,
+  TextEmbedder
 } from './semantic-types.js';
+import { cosineSimilarity } from './hashed-ngram-embedder.js';
 
 export class SemanticFeatureCache {
   private cache: Map<string, SemanticCacheEntry>;
   private conceptToColumns: Map<string, ConceptColumnMapping>;
   private readonly config: SemanticEncodingConfig;
   private accessOrder: string[]; // For LRU eviction
+  private readonly embedder?: TextEmbedder; // Matches similar entries by cosine similarity when set
+  private inFlight: Map<string, Promise<SemanticFeatures>> = new Map(); // Extractions under way, by normalized text
 
-  constructor(config: Partial<SemanticEncodingConfig> = {}) {
+  constructor(config: Partial<SemanticEncodingConfig> = {}, embedder?: TextEmbedder) {
     this.cache = new Map();
     this.conceptToColumns = new Map();
     this.config = { ...DEFAULT_SEMANTIC_CONFIG, ...config };
     this.accessOrder = [];
+    this.embedder = embedder;
   }
 
   /**
-   * Get or extract semantic features with caching
+   * Get or extract semantic features with caching. Concurrent calls for the
+   * same normalized text share one extraction.
    */
   async getFeatures(
     text: string,
     extractor: () => Promise<SemanticFeatures>
   ): Promise<{ features: SemanticFeatures; fromCache: boolean }> {
-    const normalizedText = this.normalizeText(text);
+    const [result] = await this.getFeaturesBatch([text], async () => [await extractor()]);
+    return result;
+  }
+
+  /**
+   * Get features for several texts, extracting every uncached one in a single
+   * extractor call. Texts already being extracted wait for that extraction.
+   */
+  async getFeaturesBatch(
+    texts: string[],
+    extractor: (texts: string[]) => Promise<SemanticFeatures[]>
+  ): Promise<Array<{ features: SemanticFeatures; fromCache: boolean }>> {
+    // Look everything up first: nothing is registered as in flight until no lookup can fail
+    const lookups: Array<{ text: string; normalizedText: string; entry?: SemanticCacheEntry; embedding?: number[]; embeddingVersion?: number }> = [];
+    for (const text of texts) {
+      const normalizedText = this.normalizeText(text);
+      lookups.push({ text, normalizedText, ...(await this.lookup(normalizedText)) });
+    }
+    
+    const missing: Array<{ text: string; normalizedText: string; embedding?: number[]; embeddingVersion?: number }> = [];
+    
+    // The extraction starts once every missing text is known
+    let startExtraction!: () => void;
+    const extraction = new Promise<void>(resolve => { startExtraction = resolve; })
+      .then(() => extractor(missing.map(m => m.text)));
+    
+    const results: Array<Promise<{ features: SemanticFeatures; fromCache: boolean }>> = [];
+    for (const { text, normalizedText, entry, embedding, embeddingVersion } of lookups) {
+      const pending = this.inFlight.get(normalizedText);
+      
+      if (entry) {
+        results.push(Promise.resolve({ features: entry.features, fromCache: true }));
+      } else if (pending) {
+        // Only the caller that started an extraction reports a miss
+        results.push(pending.then(features => ({ features, fromCache: true })));
+      } else {
+        const index = missing.push({ text, normalizedText, embedding, embeddingVersion }) - 1;
+        const features = extraction.then(all => all[index]);
+        this.inFlight.set(normalizedText, features);
+        results.push(features.then(features => ({ features, fromCache: false })));
+      }
+    }
+    
+    // Extract new features
+    if (missing.length > 0) {
+      startExtraction();
+      extraction.then(
+        all => missing.forEach((m, i) => this.addToCache(m.text, m.normalizedText, all[i], m.embedding, m.embeddingVersion)),
+        () => undefined // Callers see the error through their results
+      ).then(() => missing.forEach(m => this.inFlight.delete(m.normalizedText)));
+    }
     
+    return Promise.all(results);
+  }
+
+  /**
+   * Exact or similar cached entry, counting the access. The text's embedding
+   * and the embedder version it was computed with are returned for storing
+   * with a new entry.
+   */
+  private async lookup(
+    normalizedText: string
+  ): Promise<{ entry?: SemanticCacheEntry; embedding?: number[]; embeddingVersion?: number }> {
     // Check exact match
     const exactMatch = this.cache.get(normalizedText);
     if (exactMatch) {
       this.updateAccessOrder(normalizedText);
       exactMatch.accessCount++;
-      return { features: exactMatch.features, fromCache: true };
+      return { entry: exactMatch };
     }
 
-    // Check for similar queries
-    const similarEntry = this.findSimilarEntry(normalizedText);
+    // Check for similar queries, by word overlap if the embedder fails
+    const embeddingVersion = this.embedder?.getVersion?.();
+    let embedding: number[] | undefined;
+    let similarEntry: SemanticCacheEntry | null = null;
+    if (this.embedder) {
+      try {
+        embedding = await this.embedder.embed(normalizedText);
+        similarEntry = await this.findSimilarEmbedding(embedding, embeddingVersion);
+      } catch (error) {
+        console.warn('Embedding cache lookup failed, matching by word overlap:', error instanceof Error ? error.message : error);
+        embedding = undefined;
+      }
+    }
+    if (!embedding) {
+      similarEntry = this.findSimilarEntry(normalizedText);
+    }
     if (similarEntry) {
       this.updateAccessOrder(similarEntry.normalizedText);
       similarEntry.accessCount++;
-      return { features: similarEntry.features, fromCache: true };
+      return { entry: similarEntry };
     }
 
-    // Extract new features
-    const features = await extractor();
-    this.addToCache(text, normalizedText, features);
-    
-    return { features, fromCache: false };
+    return { embedding, embeddingVersion };
   }
 
   /**
@@ -155,6 +232,31 @@ export class SemanticFeatureCache {
     return bestMatch;
   }
 
+  /**
+   * Find the entry whose embedding is closest to the query's, above the embedding threshold
+   */
+  private async findSimilarEmbedding(embedding: number[], version?: number): Promise<SemanticCacheEntry | null> {
+    let bestMatch: SemanticCacheEntry | null = null;
+    let bestSimilarity = 0;
+
+    for (const entry of this.cache.values()) {
+      // Entries imported from a word-overlap cache have no embedding yet, and
+      // ones embedded before the embedder's weights changed are not comparable
+      if (!entry.embedding || entry.embeddingVersion !== version) {
+        entry.embedding = await this.embedder!.embed(entry.normalizedText);
+        entry.embeddingVersion = version;
+      }
+
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= this.config.embeddingSimilarityThreshold && similarity > bestSimilarity) {
+        bestMatch = entry;
+        bestSimilarity = similarity;
+      }
+    }
+
+    return bestMatch;
+  }
+
   /**
    * Extract content words (remove stop words)
    */
@@ -217,7 +319,13 @@ export class SemanticFeatureCache {
   /**
    * Add entry to cache with LRU eviction
    */
-  private addToCache(text: string, normalizedText: string, features: SemanticFeatures): void {
+  private addToCache(
+    text: string,
+    normalizedText: string,
+    features: SemanticFeatures,
+    embedding?: number[],
+    embeddingVersion?: number
+  ): void {
     // Evict if at capacity
     if (this.cache.size >= this.config.maxCacheSize) {
       const lruKey = this.accessOrder[0];
@@ -230,7 +338,9 @@ export class SemanticFeatureCache {
       normalizedText,
       features,
       timestamp: Date.now(),
-      accessCount: 1
+      accessCount: 1,
+      embedding,
+      embeddingVersion
     };
 
     this.cache.set(normalizedText, entry);
@@ -309,4 +419,28 @@ export class SemanticFeatureCache {
       this.conceptToColumns.set(mapping.concept, mapping);
     }
   }
+
+  /**
+   * Export feature cache entries in LRU order (oldest first)
+   */
+  exportEntries(): SemanticCacheEntry[] {
+    return this.accessOrder
+      .map(key => this.cache.get(key))
+      .filter((entry): entry is SemanticCacheEntry => entry !== undefined);
+  }
+
+  /**
+   * Import entries produced by exportEntries()
+   */
+  importEntries(entries: SemanticCacheEntry[]): void {
+    this.cache.clear();
+    this.accessOrder = [];
+    for (const entry of entries) {
+      // Versions belong to the embedder that exported them, so versioned vectors are recomputed
+      this.cache.set(entry.normalizedText, this.embedder?.getVersion
+        ? { ...entry, embedding: undefined, embeddingVersion: undefined }
+        : entry);
+      this.accessOrder.push(entry.normalizedText);
+    }
+  }
 }
@@ -3,17 +3,18 @@
  * Uses LLM to extract semantic features from text for neural encoding
  */
 
-import { LLMRequest, LLMResponse } from '../../types/index.js';
+import { LLMRequest, LLMResponse, StructuredOutputSchema } from '../../types/index.js';
 import { 
   SemanticFeatures, 
   GhostToken,
   SemanticEncodingError, 
   SemanticEncodingException,
   DEFAULT_SEMANTIC_CONFIG,
-  SemanticEncodingConfig
+  SemanticEncodingConfig,
+  FeatureSource
 } from './semantic-types.js';
 
-export class SemanticFeatureExtractor {
+export class SemanticFeatureExtractor implements FeatureSource {
   private readonly llmInterface: (request: LLMRequest) => Promise<LLMResponse>;
   private readonly temperature: number;
   private readonly maxTokens: number;
@@ -39,7 +40,6 @@ export class SemanticFeatureExtractor {
       const prompt = this.buildExtractionPrompt(text);
       
       const response = await this.llmInterface({
-        model: 'gpt-3.5-turbo', // More reliable for JSON generation
         prompt: prompt,
         systemPrompt: this.getSystemPrompt(),
         temperature: 0.3, // Lower temperature for more consistent output
@@ -47,9 +47,18 @@ export class SemanticFeatureExtractor {
         metadata: { 
           purpose: 'semantic_feature_extraction',
           textLength: text.length 
-        }
+        },
+        responseSchema: this.getResponseSchema()
       });
 
+      if (response.parsed !== undefined) {
+        if (response.validationErrors?.length) {
+          console.warn('Semantic features did not match the schema:', response.validationErrors.slice(0, 3).join('; '));
+        }
+        return this.toFeatures(response.parsed, text);
+      }
+
+      // Interfaces that return raw content only
       return this.parseFeatures(response.content, text);
     } catch (error) {
       // If LLM fails, use fallback immediately
@@ -58,6 +67,68 @@ export class SemanticFeatureExtractor {
     }
   }
 
+  /**
+   * Extract features of several texts with one LLM call per maxFeatureBatchSize
+   * texts. Duplicates are sent once; texts missing from a batch's answer are
+   * extracted on their own.
+   */
+  async extractFeaturesBatch(texts: string[]): Promise<SemanticFeatures[]> {
+    const unique = Array.from(new Set(texts));
+    if (unique.length <= 1) {
+      return Promise.all(texts.map(text => this.extractFeatures(text)));
+    }
+
+    const features = new Map<string, SemanticFeatures>();
+    const batchSize = Math.max(1, this.config.maxFeatureBatchSize);
+
+    for (let start = 0; start < unique.length; start += batchSize) {
+      const batch = unique.slice(start, start + batchSize);
+      const results = batch.length > 1 ? await this.extractBatch(batch) : new Map<number, any>();
+
+      await Promise.all(batch.map(async (text, i) => {
+        const parsed = results.get(i + 1);
+        features.set(text, parsed ? this.toFeatures(parsed, text) : await this.extractFeatures(text));
+      }));
+    }
+
+    return texts.map(text => features.get(text)!);
+  }
+
+  /**
+   * One extraction call for a batch; results keyed by their 1-based index
+   */
+  private async extractBatch(texts: string[]): Promise<Map<number, any>> {
+    const results = new Map<number, any>();
+
+    try {
+      const response = await this.llmInterface({
+        prompt: this.buildBatchExtractionPrompt(texts),
+        systemPrompt: this.getSystemPrompt(),
+        temperature: 0.3,
+        maxTokens: this.maxTokens * texts.length,
+        metadata: {
+          purpose: 'semantic_feature_extraction',
+          batchSize: texts.length,
+          textLength: texts.reduce((sum, text) => sum + text.length, 0)
+        },
+        responseSchema: this.getBatchResponseSchema()
+      });
+
+      const parsed = response.parsed ?? this.parseJSON(response.content);
+      for (const result of Array.isArray(parsed?.results) ? parsed.results : []) {
+        const index = Number(result?.index);
+        if (Number.isInteger(index) && index >= 1 && index <= texts.length && !results.has(index)) {
+          results.set(index, result);
+        }
+      }
+    } catch (error) {
+      // Every text is then extracted on its own
+      console.warn('Batched feature extraction failed, extracting texts individually:', error);
+    }
+
+    return results;
+  }
+
   /**
    * Build the extraction prompt
    */
@@ -67,7 +138,45 @@ export class SemanticFeatureExtractor {
 TEXT: "${text}"
 
 Return ONLY a valid JSON object (no markdown, no explanation) with this exact structure:
+${this.getFeatureFormat()}
+
+${this.getFeatureRequirements()}
+
+CRITICAL: Return ONLY the JSON object, no other text.`;
+
+    return basePrompt;
+  }
+
+  /**
+   * Build the prompt for a batch, numbering the texts from 1
+   */
+  private buildBatchExtractionPrompt(texts: string[]): string {
+    return `Extract semantic features from each of these ${texts.length} texts for neural encoding.
+
+${texts.map((text, i) => `TEXT ${i + 1}: "${text}"`).join('\n')}
+
+Return ONLY a valid JSON object (no markdown, no explanation) with one result per text:
 {
+  "results": [
+    {"index": 1, ...features of TEXT 1},
+    {"index": 2, ...features of TEXT 2}
+  ]
+}
+
+where the features of each text have this exact structure:
+${this.getFeatureFormat()}
+
+${this.getFeatureRequirements()}
+- index: the number of the TEXT the result describes; analyze each text independently
+
+CRITICAL: Return ONLY the JSON object, no other text.`;
+  }
+
+  /**
+   * Example JSON of one text's features
+   */
+  private getFeatureFormat(): string {
+    return `{
   "concepts": ["concept1", "concept2", "concept3"],
   "categories": ["category1", "category2"],
   "attributes": {
@@ -86,9 +195,11 @@ Return ONLY a valid JSON object (no markdown, no explanation) with this exact st
     {"token": "bridge1", "probability": 0.8, "type": "bridge"},
     {"token": "context1", "probability": 0.6, "type": "context"}
   ]` : ''}
-}
+}`;
+  }
 
-Requirements:
+  private getFeatureRequirements(): string {
+    return `Requirements:
 - concepts: 3-7 key concepts as strings
 - categories: 2-4 broad categories as strings  
 - attributes: all values must be numbers between 0 and 1
@@ -99,11 +210,91 @@ Requirements:
 - ghostTokens: ${this.config.maxGhostTokens} implicit conceptual bridges that connect the main concepts
   - token: the bridging concept/word
   - probability: confidence score between 0 and 1 (higher = stronger bridge)
-  - type: "bridge" (connects concepts), "context" (provides context), or "implicit" (implied connection)` : ''}
+  - type: "bridge" (connects concepts), "context" (provides context), or "implicit" (implied connection)` : ''}`;
+  }
 
-CRITICAL: Return ONLY the JSON object, no other text.`;
+  /**
+   * JSON schema of the extraction response, matching the prompt's structure
+   */
+  private getResponseSchema(): StructuredOutputSchema {
+    return {
+      name: 'semantic_features',
+      description: 'Semantic features of the text',
+      schema: this.getFeatureSchema()
+    };
+  }
 
-    return basePrompt;
+  /**
+   * JSON schema of a batch response: the features of each text with its index
+   */
+  private getBatchResponseSchema(): StructuredOutputSchema {
+    const features = this.getFeatureSchema();
+
+    return {
+      name: 'semantic_features_batch',
+      description: 'Semantic features of each numbered text',
+      schema: {
+        type: 'object',
+        properties: {
+          results: {
+            type: 'array',
+            items: {
+              ...features,
+              properties: { index: { type: 'integer', minimum: 1 }, ...features.properties },
+              required: ['index', ...features.required]
+            }
+          }
+        },
+        required: ['results']
+      }
+    };
+  }
+
+  private getFeatureSchema(): Record<string, any> {
+    const unit = { type: 'number', minimum: 0, maximum: 1 };
+    const strings = { type: 'array', items: { type: 'string' } };
+
+    const properties: Record<string, any> = {
+      concepts: { ...strings, minItems: 1, maxItems: 7 },
+      categories: { ...strings, maxItems: 4 },
+      attributes: {
+        type: 'object',
+        properties: {
+          abstractness: unit,
+          specificity: unit,
+          technicality: unit,
+          certainty: unit,
+          actionability: unit,
+          temporality: unit
+        },
+        required: ['abstractness', 'specificity', 'technicality', 'certainty', 'actionability', 'temporality']
+      },
+      relationships: strings,
+      intent: { type: 'string', enum: ['question', 'statement', 'command', 'analysis'] },
+      complexity: unit,
+      temporalAspect: { type: 'boolean' }
+    };
+
+    if (this.config.enableGhostTokens) {
+      properties.ghostTokens = {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            token: { type: 'string' },
+            probability: unit,
+            type: { type: 'string', enum: ['bridge', 'context', 'implicit'] }
+          },
+          required: ['token', 'probability', 'type']
+        }
+      };
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required: ['concepts', 'categories', 'attributes', 'relationships', 'intent', 'complexity', 'temporalAspect']
+    };
   }
 
   /**
@@ -127,41 +318,54 @@ Your task is to extract semantic features from text for neural encoding. Focus o
    */
   private parseFeatures(content: string, originalText: string): SemanticFeatures {
     try {
-      // Clean the content to extract JSON
-      let jsonContent = content.trim();
-      
-      // Remove markdown code blocks if present
-      jsonContent = jsonContent.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      
-      // Try to find JSON object in the content
-      const jsonMatch = jsonContent.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        // If no JSON found, try the whole content
-        jsonContent = content;
-      } else {
-        jsonContent = jsonMatch[0];
-      }
-      
-      // Clean up common JSON issues
-      // Remove trailing commas
-      jsonContent = jsonContent.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
-      
-      // Remove comments
-      jsonContent = jsonContent.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
-      
-      let parsed;
-      try {
-        parsed = JSON.parse(jsonContent);
-      } catch (parseError) {
-        // If parsing still fails, try to fix common issues
-        // Replace single quotes with double quotes
-        jsonContent = jsonContent.replace(/'/g, '"');
-        
-        // Try parsing again
-        parsed = JSON.parse(jsonContent);
-      }
-      
-      // Validate and normalize the features
+      return this.toFeatures(this.parseJSON(content), originalText);
+    } catch (error) {
+      // If all parsing attempts fail, use fallback
+      console.warn('Failed to parse LLM response, using fallback features:', error);
+      return this.extractFallbackFeatures(originalText);
+    }
+  }
+
+  /**
+   * Parse JSON from raw LLM content, tolerating markdown fences and common syntax slips
+   */
+  private parseJSON(content: string): any {
+    // Clean the content to extract JSON
+    let jsonContent = content.trim();
+    
+    // Remove markdown code blocks if present
+    jsonContent = jsonContent.replace(/```json\s*/g, '').replace(/```\s*/g, '');
+    
+    // Try to find JSON object in the content
+    const jsonMatch = jsonContent.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      // If no JSON found, try the whole content
+      jsonContent = content;
+    } else {
+      jsonContent = jsonMatch[0];
+    }
+    
+    // Clean up common JSON issues
+    // Remove trailing commas
+    jsonContent = jsonContent.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
+    
+    // Remove comments
+    jsonContent = jsonContent.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '');
+    
+    try {
+      return JSON.parse(jsonContent);
+    } catch (parseError) {
+      // If parsing still fails, try to fix common issues
+      // Replace single quotes with double quotes
+      return JSON.parse(jsonContent.replace(/'/g, '"'));
+    }
+  }
+
+  /**
+   * Validate and normalize parsed features
+   */
+  private toFeatures(parsed: any, originalText: string): SemanticFeatures {
+    try {
       const features: SemanticFeatures = {
         concepts: this.validateConcepts(parsed.concepts),
         categories: this.validateCategories(parsed.categories),
@@ -179,8 +383,7 @@ Your task is to extract semantic features from text for neural encoding. Focus o
 
       return features;
     } catch (error) {
-      // If all parsing attempts fail, use fallback
-      console.warn('Failed to parse LLM response, using fallback features:', error);
+      console.warn('Invalid semantic features, using fallback features:', error);
       return this.extractFallbackFeatures(originalText);
     }
   }
@@ -27,6 +27,15 @@ export interface ConceptStats {
   contextDiversity: number;
 }
 
+/**
+ * Persisted relationship manager state
+ */
+export interface RelationshipManagerState {
+  relationships: Array<[string, ConceptRelationship[]]>;
+  conceptStats: Array<[string, ConceptStats]>;
+  contextHashes: Array<[string, string[]]>;
+}
+
 /**
  * Manages semantic relationships between concepts
  */
@@ -363,6 +372,32 @@ export class SemanticRelationshipManager {
     this.contextHashes.clear();
   }
 
+  /**
+   * Export full relationship state for persistence
+   */
+  exportState(): RelationshipManagerState {
+    return {
+      relationships: Array.from(this.conceptGraph.entries()).map(
+        ([concept, relations]) => [concept, Array.from(relations.values())] as [string, ConceptRelationship[]]
+      ),
+      conceptStats: Array.from(this.conceptStats.entries()),
+      contextHashes: Array.from(this.contextHashes.entries()).map(
+        ([concept, hashes]) => [concept, Array.from(hashes)] as [string, string[]]
+      )
+    };
+  }
+
+  /**
+   * Import state produced by exportState()
+   */
+  importState(state: RelationshipManagerState): void {
+    this.conceptGraph = new Map(state.relationships.map(
+      ([concept, relations]) => [concept, new Map(relations.map(r => [r.concept, r]))]
+    ));
+    this.conceptStats = new Map(state.conceptStats);
+    this.contextHashes = new Map(state.contextHashes.map(([concept, hashes]) => [concept, new Set(hashes)]));
+  }
+
   /**
    * Export graph for visualization or persistence
    */
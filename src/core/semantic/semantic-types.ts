@@ -71,6 +71,31 @@ export interface SemanticCacheEntry {
   
   /** Number of times this entry was accessed */
   accessCount: number;
+  
+  /** Text embedding, present when the cache matches by embedding similarity */
+  embedding?: number[];
+  
+  /** Embedder version the embedding was computed with */
+  embeddingVersion?: number;
+}
+
+/**
+ * Source of semantic features for a text
+ */
+export interface FeatureSource {
+  extractFeatures(text: string): Promise<SemanticFeatures>;
+  
+  /** Features of several texts, in order; sources without it are called once per text */
+  extractFeaturesBatch?(texts: string[]): Promise<SemanticFeatures[]>;
+}
+
+/**
+ * Maps text to a dense vector; similar texts get a high cosine similarity
+ */
+export interface TextEmbedder {
+  embed(text: string): Promise<number[]>;
+  /** Changes when the embedder's weights do; vectors from another version must be recomputed */
+  getVersion?(): number;
 }
 
 /**
@@ -144,6 +169,21 @@ export interface SemanticEncodingConfig {
   
   /** Minimum probability threshold for ghost tokens */
   minGhostTokenProbability: number;
+  
+  /** Where features come from: an LLM round-trip, or the local n-gram embedder */
+  featureSource: 'llm' | 'local';
+  
+  /** How the feature cache matches similar texts */
+  cacheSimilarity: 'word_overlap' | 'embedding';
+  
+  /** Dimensions of the local hashed n-gram embedding */
+  embeddingDimensions: number;
+  
+  /** Cosine similarity threshold for embedding cache matches (0-1) */
+  embeddingSimilarityThreshold: number;
+  
+  /** Most texts packed into one batched extraction prompt */
+  maxFeatureBatchSize: number;
 }
 
 /**
@@ -167,7 +207,12 @@ export const DEFAULT_SEMANTIC_CONFIG: SemanticEncodingConfig = {
   enableGhostTokens: true, // Enable ghost tokens by default
   enableEdgeToggling: true, // Enable edge toggling by default
   maxGhostTokens: 5, // Limit to 5 ghost tokens per query
-  minGhostTokenProbability: 0.3 // Filter out low-confidence ghost tokens
+  minGhostTokenProbability: 0.3, // Filter out low-confidence ghost tokens
+  featureSource: 'llm',
+  cacheSimilarity: 'word_overlap',
+  embeddingDimensions: 512,
+  embeddingSimilarityThreshold: 0.7,
+  maxFeatureBatchSize: 8
 };
 
 /**
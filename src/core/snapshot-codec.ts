@@ -0,0 +1,223 @@
+/**
+ * Snapshot Codec
+ *
+ * Encodes state snapshots (plain objects that may contain typed arrays,
+ * Maps, Sets and Dates) into a portable byte representation and back.
+ *
+ * Supported formats:
+ * - 'json':   UTF-8 JSON, typed arrays embedded as base64
+ * - 'gzip':   gzip-compressed 'json'
+ * - 'binary': small JSON header followed by raw little-endian typed-array data
+ *
+ * The format is detected automatically when decoding.
+ */
+
+import { gzipSync, gunzipSync } from 'zlib';
+
+export type SnapshotFormat = 'json' | 'gzip' | 'binary';
+
+export type SnapshotTypedArray =
+  | Float64Array
+  | Float32Array
+  | Uint32Array
+  | Int32Array
+  | Uint16Array
+  | Uint8Array;
+
+const BINARY_MAGIC = 'LCSB';
+const BINARY_CONTAINER_VERSION = 1;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const TYPED_ARRAY_CONSTRUCTORS: Record<string, any> = {
+  Float64Array,
+  Float32Array,
+  Uint32Array,
+  Int32Array,
+  Uint16Array,
+  Uint8Array
+};
+
+/**
+ * Encode a snapshot into bytes
+ */
+export function encodeSnapshot(snapshot: any, format: SnapshotFormat = 'gzip'): Buffer {
+  switch (format) {
+    case 'json':
+      return Buffer.from(JSON.stringify(snapshot, createReplacer(null)), 'utf8');
+
+    case 'gzip':
+      return gzipSync(encodeSnapshot(snapshot, 'json'));
+
+    case 'binary': {
+      const chunks: Buffer[] = [];
+      const blob = { chunks, size: 0 };
+      const header = Buffer.from(JSON.stringify(snapshot, createReplacer(blob)), 'utf8');
+
+      // magic(4) + container version(4) + header length(4), then header padded to 8 bytes
+      const prefix = Buffer.alloc(12);
+      prefix.write(BINARY_MAGIC, 0, 'ascii');
+      prefix.writeUInt32LE(BINARY_CONTAINER_VERSION, 4);
+      prefix.writeUInt32LE(header.length, 8);
+      const padding = Buffer.alloc(align8(prefix.length + header.length) - prefix.length - header.length);
+
+      return Buffer.concat([prefix, header, padding, ...chunks]);
+    }
+
+    default:
+      throw new Error(`Unknown snapshot format: ${format}`);
+  }
+}
+
+/**
+ * Decode bytes produced by encodeSnapshot (format is auto-detected)
+ */
+export function decodeSnapshot<T = any>(data: Buffer | Uint8Array): T {
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  const format = detectSnapshotFormat(buffer);
+
+  switch (format) {
+    case 'gzip':
+      return decodeSnapshot<T>(gunzipSync(buffer));
+
+    case 'binary': {
+      const version = buffer.readUInt32LE(4);
+      if (version !== BINARY_CONTAINER_VERSION) {
+        throw new Error(`Unsupported binary snapshot container version: ${version}`);
+      }
+      const headerLength = buffer.readUInt32LE(8);
+      const header = buffer.subarray(12, 12 + headerLength).toString('utf8');
+      const dataStart = align8(12 + headerLength);
+      return JSON.parse(header, createReviver(buffer.subarray(dataStart)));
+    }
+
+    default:
+      return JSON.parse(buffer.toString('utf8'), createReviver(null));
+  }
+}
+
+/**
+ * Detect the format of an encoded snapshot
+ */
+export function detectSnapshotFormat(buffer: Buffer): SnapshotFormat {
+  if (buffer.length >= 2 && buffer[0] === GZIP_MAGIC[0] && buffer[1] === GZIP_MAGIC[1]) {
+    return 'gzip';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === BINARY_MAGIC) {
+    return 'binary';
+  }
+  return 'json';
+}
+
+/**
+ * Pack a boolean array into a byte array (one byte per entry)
+ */
+export function packBooleans(values: boolean[]): Uint8Array {
+  const packed = new Uint8Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    packed[i] = values[i] ? 1 : 0;
+  }
+  return packed;
+}
+
+/**
+ * Unpack a byte array produced by packBooleans
+ */
+export function unpackBooleans(packed: Uint8Array): boolean[] {
+  return Array.from(packed, value => value === 1);
+}
+
+// === Internal helpers ===
+
+function align8(offset: number): number {
+  return Math.ceil(offset / 8) * 8;
+}
+
+function isTypedArray(value: any): value is SnapshotTypedArray {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView) &&
+    TYPED_ARRAY_CONSTRUCTORS[value.constructor.name] !== undefined;
+}
+
+function typedArrayBytes(value: SnapshotTypedArray): Buffer {
+  return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function createReplacer(blob: { chunks: Buffer[]; size: number } | null) {
+  return function (this: any, key: string, value: any): any {
+    // Inspect the raw value so Dates are seen before their toJSON runs
+    const raw = this[key];
+
+    if (isTypedArray(raw)) {
+      const type = raw.constructor.name;
+      if (!blob) {
+        return { __snapshot: 'typed', type, data: typedArrayBytes(raw).toString('base64') };
+      }
+
+      const offset = blob.size;
+      const bytes = typedArrayBytes(raw);
+      const padding = align8(bytes.length) - bytes.length;
+      blob.chunks.push(bytes);
+      if (padding > 0) {
+        blob.chunks.push(Buffer.alloc(padding));
+      }
+      blob.size += bytes.length + padding;
+      return { __snapshot: 'typed', type, offset, length: raw.length };
+    }
+
+    if (raw instanceof Map) {
+      return { __snapshot: 'map', entries: Array.from(raw.entries()) };
+    }
+
+    if (raw instanceof Set) {
+      return { __snapshot: 'set', values: Array.from(raw.values()) };
+    }
+
+    if (raw instanceof Date) {
+      return { __snapshot: 'date', value: raw.toISOString() };
+    }
+
+    return value;
+  };
+}
+
+function createReviver(data: Buffer | null) {
+  return function (key: string, value: any): any {
+    if (!value || typeof value !== 'object' || typeof value.__snapshot !== 'string') {
+      return value;
+    }
+
+    switch (value.__snapshot) {
+      case 'typed': {
+        const Ctor = TYPED_ARRAY_CONSTRUCTORS[value.type];
+        if (!Ctor) {
+          throw new Error(`Unsupported typed array in snapshot: ${value.type}`);
+        }
+
+        if (value.data !== undefined) {
+          const bytes = Buffer.from(value.data, 'base64');
+          return copyTypedArray(Ctor, bytes, bytes.length / Ctor.BYTES_PER_ELEMENT);
+        }
+
+        if (!data) {
+          throw new Error('Binary typed array reference found outside a binary snapshot');
+        }
+        const byteLength = value.length * Ctor.BYTES_PER_ELEMENT;
+        return copyTypedArray(Ctor, data.subarray(value.offset, value.offset + byteLength), value.length);
+      }
+      case 'map':
+        return new Map(value.entries);
+      case 'set':
+        return new Set(value.values);
+      case 'date':
+        return new Date(value.value);
+      default:
+        return value;
+    }
+  };
+}
+
+function copyTypedArray(Ctor: any, bytes: Buffer, length: number): SnapshotTypedArray {
+  // Copy into a fresh, correctly aligned buffer
+  const result = new Ctor(length);
+  new Uint8Array(result.buffer).set(bytes);
+  return result;
+}
@@ -13,6 +13,7 @@ export interface BayesianNode {
   parents: string[];
   children: string[];
   evidence?: string;
+  likelihood?: Map<string, number>; // Soft evidence: relative likelihood of the observation under each state
 }
 
 export interface ConditionalProbabilityTable {
@@ -20,6 +21,11 @@ export interface ConditionalProbabilityTable {
   conditions: Map<string, Map<string, number>>;
 }
 
+export interface BayesianNetworkState {
+  nodes: BayesianNode[];
+  cpts: ConditionalProbabilityTable[];
+}
+
 export class BayesianNetwork {
   private nodes: Map<string, BayesianNode> = new Map();
   private cpts: Map<string, ConditionalProbabilityTable> = new Map();
@@ -51,12 +57,35 @@ export class BayesianNetwork {
     if (!parent || !child) {
       throw new Error(`Invalid edge: ${parentId} -> ${childId}`);
     }
+    if (this.hasEdge(parentId, childId)) return;
     
     parent.children.push(childId);
     child.parents.push(parentId);
+    this.cpts.delete(childId); // Its conditions no longer cover every parent
+    this.updateTopologicalOrder();
+  }
+  
+  /**
+   * Remove an edge between nodes
+   */
+  removeEdge(parentId: string, childId: string): void {
+    if (!this.hasEdge(parentId, childId)) return;
+    
+    const parent = this.nodes.get(parentId)!;
+    const child = this.nodes.get(childId)!;
+    parent.children = parent.children.filter(id => id !== childId);
+    child.parents = child.parents.filter(id => id !== parentId);
+    this.cpts.delete(childId);
     this.updateTopologicalOrder();
   }
   
+  /**
+   * Check whether an edge exists
+   */
+  hasEdge(parentId: string, childId: string): boolean {
+    return this.nodes.get(childId)?.parents.includes(parentId) ?? false;
+  }
+  
   /**
    * Set conditional probability table for a node
    */
@@ -106,14 +135,38 @@ export class BayesianNetwork {
       return node?.probabilities.get(state) || 0;
     }
     
-    // Build condition key from parent states
-    const conditionKey = Array.from(parentStates.entries())
+    const conditionProbs = cpt.conditions.get(BayesianNetwork.conditionKey(parentStates));
+    return conditionProbs?.get(state) || 0;
+  }
+  
+  /**
+   * Key of a parent configuration within a CPT
+   */
+  static conditionKey(parentStates: Map<string, string>): string {
+    return Array.from(parentStates.entries())
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([parent, state]) => `${parent}:${state}`)
       .join('|');
-    
-    const conditionProbs = cpt.conditions.get(conditionKey);
-    return conditionProbs?.get(state) || 0;
+  }
+  
+  /**
+   * Every assignment of states to a node's parents, one per CPT row
+   */
+  getParentConfigurations(nodeId: string): Array<Map<string, string>> {
+    let configurations: Array<Map<string, string>> = [new Map()];
+    for (const parentId of this.nodes.get(nodeId)?.parents ?? []) {
+      const parent = this.nodes.get(parentId)!;
+      configurations = configurations.reduce<Array<Map<string, string>>>((extended, configuration) =>
+        extended.concat(parent.states.map(state => new Map(configuration).set(parentId, state))), []);
+    }
+    return configurations;
+  }
+  
+  /**
+   * Get the conditional probability table of a node, if it has one
+   */
+  getCPT(nodeId: string): ConditionalProbabilityTable | undefined {
+    return this.cpts.get(nodeId);
   }
   
   /**
@@ -126,12 +179,24 @@ export class BayesianNetwork {
     }
   }
   
+  /**
+   * Set soft (virtual) evidence for a node: an observation that is more
+   * likely under some states than others without ruling any out
+   */
+  setLikelihood(nodeId: string, likelihood: Map<string, number>): void {
+    const node = this.nodes.get(nodeId);
+    if (node) {
+      node.likelihood = likelihood;
+    }
+  }
+  
   /**
    * Clear all evidence from the network
    */
   clearEvidence(): void {
     for (const node of this.nodes.values()) {
       node.evidence = undefined;
+      node.likelihood = undefined;
     }
   }
   
@@ -344,7 +409,7 @@ export class BayesianNetwork {
   /**
    * Check if adding an edge would create a cycle
    */
-  private wouldCreateCycle(parentId: string, childId: string): boolean {
+  wouldCreateCycle(parentId: string, childId: string): boolean {
     // Temporarily add edge and check for cycles
     const parent = this.nodes.get(parentId);
     const child = this.nodes.get(childId);
@@ -363,6 +428,43 @@ export class BayesianNetwork {
     return hasCycle;
   }
   
+  /**
+   * Capture nodes and CPTs for persistence
+   */
+  saveState(): BayesianNetworkState {
+    return {
+      nodes: this.getAllNodes().map(node => ({
+        ...node,
+        probabilities: new Map(node.probabilities),
+        parents: [...node.parents],
+        children: [...node.children]
+      })),
+      cpts: Array.from(this.cpts.values())
+    };
+  }
+  
+  /**
+   * Replace the network with a state captured by saveState()
+   */
+  loadState(state: BayesianNetworkState): void {
+    this.nodes.clear();
+    this.cpts.clear();
+    
+    for (const node of state.nodes) {
+      this.nodes.set(node.id, {
+        ...node,
+        probabilities: new Map(node.probabilities),
+        parents: [...node.parents],
+        children: [...node.children]
+      });
+    }
+    for (const cpt of state.cpts) {
+      this.cpts.set(cpt.node, cpt);
+    }
+    
+    this.updateTopologicalOrder();
+  }
+  
   /**
    * Get network statistics
    */
@@ -0,0 +1,285 @@
+/**
+ * Dynamic Bayesian Network
+ * Unrolls a network over time as a 2-time-slice model: each node depends on
+ * its own state in the previous slice as well as on its parents in the
+ * current one. Beliefs are filtered forward one slice per step, smoothed
+ * backward over the history, and forecast ahead. The belief carried between
+ * slices is factored per node (Boyen-Koller), which is exact when nodes
+ * evolve independently and keeps each step to one junction tree over two slices.
+ */
+
+import { BayesianNetwork, ConditionalProbabilityTable } from './bayesian-network';
+import { JunctionTree } from './junction-tree';
+
+export type BeliefSlice = Map<string, Map<string, number>>; // Node → posterior over its states
+
+export interface SliceObservation {
+  evidence?: Map<string, string>;
+  likelihoods?: Map<string, Map<string, number>>; // Soft evidence
+}
+
+export interface DynamicBayesianNetworkOptions {
+  persistence?: number; // Default transition: chance a node keeps its previous state rather than being redrawn from the network (default 0.8)
+  maxHistory?: number;  // Slices kept for smoothing (default 100)
+}
+
+export interface FilteredSlice {
+  beliefs: BeliefSlice;
+  transitions: Map<string, Map<string, number>>; // Node → P(previous state, state | observations so far), keyed 'previous,state'
+}
+
+export interface DynamicBayesianNetworkState {
+  history: FilteredSlice[];
+  transitionCPTs: ConditionalProbabilityTable[];
+}
+
+const PREVIOUS_SUFFIX = '@t-1';
+const DEFAULT_PERSISTENCE = 0.8;
+const DEFAULT_MAX_HISTORY = 100;
+
+export class DynamicBayesianNetwork {
+  private network: BayesianNetwork;
+  private persistence: number;
+  private maxHistory: number;
+  private transitionCPTs: Map<string, ConditionalProbabilityTable> = new Map();
+  private history: FilteredSlice[] = [];
+
+  constructor(network: BayesianNetwork, options: DynamicBayesianNetworkOptions = {}) {
+    this.network = network;
+    this.persistence = options.persistence ?? DEFAULT_PERSISTENCE;
+    this.maxHistory = options.maxHistory ?? DEFAULT_MAX_HISTORY;
+  }
+
+  /**
+   * Id of a node's copy in the previous slice, as used in transition CPT conditions
+   */
+  static previous(nodeId: string): string {
+    return `${nodeId}${PREVIOUS_SUFFIX}`;
+  }
+
+  /**
+   * Set P(node | node in the previous slice, parents in this slice). Conditions
+   * are keyed like any CPT, with the previous-slice parent named by previous().
+   */
+  setTransitionCPT(nodeId: string, cpt: ConditionalProbabilityTable): void {
+    this.transitionCPTs.set(nodeId, cpt);
+  }
+
+  /**
+   * Probability of a node's state given its previous state and current parents.
+   * Without a transition CPT, the node keeps its state with the persistence
+   * probability and is otherwise redrawn from the static network.
+   */
+  getTransitionProbability(
+    nodeId: string,
+    state: string,
+    previousState: string,
+    parentStates: Map<string, string>
+  ): number {
+    const cpt = this.transitionCPTs.get(nodeId);
+    if (cpt) {
+      const conditionKey = BayesianNetwork.conditionKey(
+        new Map(parentStates).set(DynamicBayesianNetwork.previous(nodeId), previousState));
+      const probability = cpt.conditions.get(conditionKey)?.get(state);
+      if (probability !== undefined) return probability;
+    }
+
+    const node = this.network.getNode(nodeId)!;
+    const redrawn = node.parents.length === 0
+      ? node.probabilities.get(state) || 0
+      : this.network.getConditionalProbability(nodeId, state, parentStates);
+    return this.persistence * (state === previousState ? 1 : 0) + (1 - this.persistence) * redrawn;
+  }
+
+  /**
+   * Advance one slice and condition it on what was observed (forward filtering)
+   */
+  step(observation: SliceObservation = {}): BeliefSlice {
+    const slice = this.advance(this.getCurrentBelief(), observation);
+
+    this.history.push(slice);
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+    return slice.beliefs;
+  }
+
+  /**
+   * Filtered belief of the latest slice, or null before the first step
+   */
+  getCurrentBelief(): BeliefSlice | null {
+    return this.history.length > 0 ? this.history[this.history.length - 1].beliefs : null;
+  }
+
+  /**
+   * Filtered beliefs of each slice in the history, oldest first
+   */
+  getFilteredBeliefs(): BeliefSlice[] {
+    return this.history.map(slice => slice.beliefs);
+  }
+
+  /**
+   * Beliefs of each slice in the history given every observation, including
+   * later ones (forward-backward), oldest first
+   */
+  smooth(): BeliefSlice[] {
+    if (this.history.length === 0) return [];
+
+    const smoothed: BeliefSlice[] = new Array(this.history.length);
+    smoothed[this.history.length - 1] = this.history[this.history.length - 1].beliefs;
+
+    for (let t = this.history.length - 2; t >= 0; t--) {
+      const next = this.history[t + 1];
+      const slice: BeliefSlice = new Map();
+
+      this.history[t].beliefs.forEach((filtered, nodeId) => {
+        const joint = next.transitions.get(nodeId);
+        const nextFiltered = next.beliefs.get(nodeId);
+        const nextSmoothed = smoothed[t + 1].get(nodeId);
+        if (!joint || !nextFiltered || !nextSmoothed) {
+          slice.set(nodeId, filtered);
+          return;
+        }
+
+        // P(x_t | o_1..T) = Σ P(x_t, x_t+1 | o_1..t+1) / P(x_t+1 | o_1..t+1) · P(x_t+1 | o_1..T)
+        const belief = new Map(Array.from(filtered.keys()).map(state => [state, 0] as [string, number]));
+        joint.forEach((probability, key) => {
+          const [previousState, state] = key.split(',');
+          const filteredNext = nextFiltered.get(state) || 0;
+          if (filteredNext > 0 && belief.has(previousState)) {
+            belief.set(previousState, belief.get(previousState)! +
+              probability / filteredNext * (nextSmoothed.get(state) || 0));
+          }
+        });
+        slice.set(nodeId, normalize(belief));
+      });
+
+      smoothed[t] = slice;
+    }
+
+    return smoothed;
+  }
+
+  /**
+   * Beliefs for each of the next steps, with nothing observed, starting from
+   * the latest filtered slice
+   */
+  forecast(steps: number): BeliefSlice[] {
+    const forecasts: BeliefSlice[] = [];
+    let current = this.getCurrentBelief();
+
+    for (let i = 0; i < steps; i++) {
+      current = this.advance(current, {}).beliefs;
+      forecasts.push(current);
+    }
+    return forecasts;
+  }
+
+  reset(): void {
+    this.history = [];
+  }
+
+  exportState(): DynamicBayesianNetworkState {
+    return {
+      history: [...this.history],
+      transitionCPTs: Array.from(this.transitionCPTs.values())
+    };
+  }
+
+  loadState(state: DynamicBayesianNetworkState): void {
+    this.history = [...state.history];
+    this.transitionCPTs = new Map(state.transitionCPTs.map(cpt => [cpt.node, cpt] as [string, ConditionalProbabilityTable]));
+  }
+
+  // === Private helpers ===
+
+  private advance(previous: BeliefSlice | null, observation: SliceObservation): FilteredSlice {
+    const twoSlice = this.buildTwoSlice(previous);
+    const tree = new JunctionTree(twoSlice);
+
+    // Only the current slice is observed, and only nodes the network still has
+    const evidence = new Map(Array.from(observation.evidence?.entries() ?? [])
+      .filter(([nodeId, state]) => this.network.getNode(nodeId)?.states.includes(state)));
+    const likelihoods = new Map(Array.from(observation.likelihoods?.entries() ?? [])
+      .filter(([nodeId]) => this.network.getNode(nodeId)));
+    tree.setEvidence(evidence, likelihoods);
+
+    const beliefs: BeliefSlice = new Map();
+    const transitions = new Map<string, Map<string, number>>();
+    for (const node of this.network.getAllNodes()) {
+      beliefs.set(node.id, tree.getMarginal(node.id));
+
+      const previousId = DynamicBayesianNetwork.previous(node.id);
+      if (twoSlice.getNode(previousId)) {
+        transitions.set(node.id, tree.getJointMarginal([previousId, node.id]));
+      }
+    }
+
+    return { beliefs, transitions };
+  }
+
+  /**
+   * The network over two slices: the previous one as independent roots holding
+   * the carried belief, the current one with transition CPTs. Nodes new since
+   * the previous slice start from the static network.
+   */
+  private buildTwoSlice(previous: BeliefSlice | null): BayesianNetwork {
+    const twoSlice = new BayesianNetwork();
+    const nodes = this.network.getAllNodes();
+
+    for (const node of nodes) {
+      const belief = previous?.get(node.id);
+      if (belief && node.states.every(state => belief.has(state))) {
+        twoSlice.addNode({
+          id: DynamicBayesianNetwork.previous(node.id),
+          name: `${node.name} (previous)`,
+          states: [...node.states],
+          probabilities: new Map(belief),
+          parents: [],
+          children: []
+        });
+      }
+      twoSlice.addNode({
+        id: node.id,
+        name: node.name,
+        states: [...node.states],
+        probabilities: new Map(node.probabilities),
+        parents: [],
+        children: []
+      });
+    }
+
+    for (const node of nodes) {
+      node.parents.forEach(parent => twoSlice.addEdge(parent, node.id));
+      if (twoSlice.getNode(DynamicBayesianNetwork.previous(node.id))) {
+        twoSlice.addEdge(DynamicBayesianNetwork.previous(node.id), node.id);
+      }
+    }
+
+    for (const node of nodes) {
+      const previousId = DynamicBayesianNetwork.previous(node.id);
+      const temporal = twoSlice.getNode(previousId) !== undefined;
+      if (!temporal && node.parents.length === 0) continue; // Keeps its prior
+
+      const conditions = new Map<string, Map<string, number>>();
+      for (const parentStates of twoSlice.getParentConfigurations(node.id)) {
+        const intraSlice = new Map(Array.from(parentStates.entries()).filter(([parent]) => parent !== previousId));
+        conditions.set(BayesianNetwork.conditionKey(parentStates), new Map(node.states.map(state => [
+          state,
+          temporal
+            ? this.getTransitionProbability(node.id, state, parentStates.get(previousId)!, intraSlice)
+            : this.network.getConditionalProbability(node.id, state, intraSlice)
+        ] as [string, number])));
+      }
+      twoSlice.setCPT(node.id, { node: node.id, conditions });
+    }
+
+    return twoSlice;
+  }
+}
+
+function normalize(distribution: Map<string, number>): Map<string, number> {
+  const total = Array.from(distribution.values()).reduce((a, b) => a + b, 0);
+  return new Map(Array.from(distribution.entries()).map(([state, p]) =>
+    [state, total > 0 ? p / total : 1 / distribution.size] as [string, number]));
+}
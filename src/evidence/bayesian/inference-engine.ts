@@ -4,6 +4,7 @@
  */
 
 import { BayesianNetwork, BayesianNode } from './bayesian-network';
+import { JunctionTree } from './junction-tree';
 import { BeliefState, InferenceResult } from '../../types/evidence.types';
 
 interface Factor {
@@ -14,12 +15,14 @@ interface Factor {
 export interface InferenceQuery {
   target: string; // Node to query
   evidence: Map<string, string>; // Observed evidence
-  method?: 'exact' | 'sampling' | 'variational';
+  likelihoods?: Map<string, Map<string, number>>; // Soft evidence: node → likelihood of each state
+  method?: 'exact' | 'sampling' | 'variational' | 'junction_tree';
 }
 
 export class InferenceEngine {
   private network: BayesianNetwork;
   private cache: Map<string, InferenceResult> = new Map();
+  private junctionTree: JunctionTree | null = null;
   
   constructor(network: BayesianNetwork) {
     this.network = network;
@@ -38,6 +41,9 @@ export class InferenceEngine {
     for (const [nodeId, state] of query.evidence.entries()) {
       this.network.setEvidence(nodeId, state);
     }
+    for (const [nodeId, likelihood] of (query.likelihoods ?? new Map()).entries()) {
+      this.network.setLikelihood(nodeId, likelihood);
+    }
     
     let result: InferenceResult;
     
@@ -51,6 +57,9 @@ export class InferenceEngine {
       case 'variational':
         result = this.variationalInference(query.target);
         break;
+      case 'junction_tree':
+        result = this.junctionTreeInference(query.target, query.evidence, query.likelihoods);
+        break;
       default:
         result = this.exactInference(query.target);
     }
@@ -76,7 +85,9 @@ export class InferenceEngine {
     // For simple case with no intermediate nodes, use Bayes' rule directly
     const evidence = this.getEvidenceNodes();
     
-    if (evidence.length === 1 && this.isSimpleNetwork(targetNodeId, evidence[0].id)) {
+    const softEvidence = this.network.getAllNodes().some(node => node.likelihood !== undefined);
+    
+    if (evidence.length === 1 && !softEvidence && this.isSimpleNetwork(targetNodeId, evidence[0].id)) {
       // Direct Bayes' rule: P(A|B) = P(B|A) * P(A) / P(B)
       return this.bayesianInference(targetNodeId, evidence[0]);
     }
@@ -112,6 +123,37 @@ export class InferenceEngine {
     };
   }
   
+  /**
+   * Exact inference from the compiled junction tree, which keeps its
+   * calibration between queries
+   */
+  private junctionTreeInference(
+    targetNodeId: string,
+    evidence: Map<string, string>,
+    likelihoods?: Map<string, Map<string, number>>
+  ): InferenceResult {
+    const tree = this.getJunctionTree();
+    tree.setEvidence(evidence, likelihoods);
+    const posterior = tree.getMarginal(targetNodeId);
+    
+    return {
+      nodeId: targetNodeId,
+      posterior,
+      confidence: this.calculateConfidence(posterior),
+      method: 'junction_tree'
+    };
+  }
+  
+  /**
+   * The junction tree for the network, recompiled if its structure changed
+   */
+  private getJunctionTree(): JunctionTree {
+    if (!this.junctionTree || !this.junctionTree.matches(this.network)) {
+      this.junctionTree = new JunctionTree(this.network);
+    }
+    return this.junctionTree;
+  }
+  
   /**
    * Direct Bayesian inference for simple networks
    */
@@ -154,14 +196,15 @@ export class InferenceEngine {
   }
   
   /**
-   * Check if network is simple (direct parent-child relationship)
+   * Check if Bayes' rule alone answers the query: the target is a root and
+   * the evidence node's only parent
    */
-  private isSimpleNetwork(nodeA: string, nodeB: string): boolean {
-    const a = this.network.getNode(nodeA)!;
-    const b = this.network.getNode(nodeB)!;
+  private isSimpleNetwork(targetId: string, evidenceId: string): boolean {
+    const target = this.network.getNode(targetId)!;
+    const evidence = this.network.getNode(evidenceId)!;
     
-    return (a.children.includes(nodeB) && b.parents.includes(nodeA)) ||
-           (b.children.includes(nodeA) && a.parents.includes(nodeB));
+    return target.parents.length === 0 &&
+           evidence.parents.length === 1 && evidence.parents[0] === targetId;
   }
   
   /**
@@ -225,15 +268,26 @@ export class InferenceEngine {
    */
   private applyEvidence(factors: Map<string, Factor>): void {
     for (const node of this.getEvidenceNodes()) {
+      // Zero out entries inconsistent with evidence, including in children's factors
+      for (const factor of factors.values()) {
+        const index = factor.variables.indexOf(node.id);
+        if (index === -1) continue;
+        
+        for (const key of factor.values.keys()) {
+          if (key.split(',')[index] !== node.evidence) {
+            factor.values.set(key, 0);
+          }
+        }
+      }
+    }
+    
+    // Soft evidence weights the node's own factor, once
+    for (const node of this.network.getAllNodes()) {
       const factor = factors.get(node.id);
-      if (!factor) continue;
+      if (!node.likelihood || !factor) continue;
       
-      // Zero out entries inconsistent with evidence
       for (const [key, value] of factor.values.entries()) {
-        const states = key.split(',');
-        if (states[0] !== node.evidence) {
-          factor.values.set(key, 0);
-        }
+        factor.values.set(key, value * (node.likelihood.get(key.split(',')[0]) ?? 1));
       }
     }
   }
@@ -593,8 +647,9 @@ export class InferenceEngine {
         parentStates.set(parent, currentState.get(parent)!);
       }
       
-      // Compute probability
-      let prob = this.network.getConditionalProbability(node.id, state, parentStates);
+      // Compute probability, weighted by any soft evidence
+      let prob = this.network.getConditionalProbability(node.id, state, parentStates) *
+        (node.likelihood?.get(state) ?? 1);
       
       // Include children in markov blanket
       for (const childId of node.children) {
@@ -758,6 +813,11 @@ export class InferenceEngine {
         }
       }
       
+      // Soft evidence contribution
+      if (node.likelihood) {
+        logProb += Math.log(node.likelihood.get(state) ?? 1);
+      }
+      
       newParams.set(state, Math.exp(logProb));
     }
     
@@ -838,14 +898,20 @@ export class InferenceEngine {
       .map(([k, v]) => `${k}:${v}`)
       .join(',');
     
-    return `${query.target}|${evidenceStr}|${query.method || 'exact'}`;
+    const likelihoodStr = Array.from((query.likelihoods ?? new Map<string, Map<string, number>>()).entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, likelihood]) => `${k}:${Array.from(likelihood.entries()).map(([state, l]) => `${state}=${l}`).join('/')}`)
+      .join(',');
+    
+    return `${query.target}|${evidenceStr}|${likelihoodStr}|${query.method || 'exact'}`;
   }
   
   /**
-   * Clear inference cache
+   * Clear inference cache. Call after changing the network's probabilities.
    */
   clearCache(): void {
     this.cache.clear();
+    this.junctionTree = null; // Compiled from the old probabilities
   }
   
   /**
@@ -861,6 +927,18 @@ export class InferenceEngine {
     return result.posterior;
   }
   
+  /**
+   * Posteriors of every node from one junction tree calibration
+   */
+  getMarginals(
+    evidence: Map<string, string> = new Map(),
+    likelihoods?: Map<string, Map<string, number>>
+  ): Map<string, Map<string, number>> {
+    const tree = this.getJunctionTree();
+    tree.setEvidence(evidence, likelihoods);
+    return tree.getMarginals();
+  }
+  
   /**
    * Compute joint probability for multiple nodes
    */
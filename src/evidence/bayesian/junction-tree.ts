@@ -0,0 +1,430 @@
+/**
+ * Junction Tree Inference
+ * Compiles a Bayesian network into a tree of cliques once (moralize,
+ * triangulate, join cliques by their largest separators), then answers every
+ * marginal from one calibration pass. Findings are hard (a known state) or
+ * soft (a likelihood per state). New findings are propagated incrementally;
+ * changed or retracted findings re-calibrate from scratch.
+ */
+
+import { BayesianNetwork } from './bayesian-network';
+
+interface Clique {
+  variables: string[];
+  cardinalities: number[];
+  strides: number[];      // Index of an assignment = sum of state index * stride
+  initial: number[];      // Product of the CPTs assigned to the clique
+  potential: number[];
+  neighbors: Array<{ clique: number; separator: number }>;
+}
+
+interface Separator {
+  variables: string[];
+  cliques: [number, number];
+  indexMaps: [number[], number[]]; // Per clique: its entry index → separator entry index
+  potential: number[];
+}
+
+export class JunctionTree {
+  private network: BayesianNetwork;
+  private states: Map<string, string[]> = new Map();
+  private cliques: Clique[] = [];
+  private separators: Separator[] = [];
+  private homes: Map<string, number> = new Map(); // Smallest clique holding each variable
+  private findings: Map<string, number[]> = new Map(); // Node → weight of each state
+  private signature: string;
+
+  constructor(network: BayesianNetwork) {
+    this.network = network;
+    this.signature = JunctionTree.structureSignature(network);
+    this.compile();
+  }
+
+  /**
+   * Identifies a network structure; a tree compiled for another must be rebuilt
+   */
+  static structureSignature(network: BayesianNetwork): string {
+    return network.getAllNodes()
+      .map(node => `${node.id}[${node.states.join(',')}]<${node.parents.join(',')}`)
+      .join(';');
+  }
+
+  /**
+   * Whether the tree still matches the network's structure
+   */
+  matches(network: BayesianNetwork): boolean {
+    return network === this.network && JunctionTree.structureSignature(network) === this.signature;
+  }
+
+  /**
+   * Set the findings the marginals are conditioned on. Findings added to the
+   * current ones are absorbed incrementally; if any current finding changes
+   * or is dropped, the tree is re-calibrated from its compiled potentials.
+   * Hard evidence on a node overrides soft evidence on it.
+   */
+  setEvidence(evidence: Map<string, string>, likelihoods: Map<string, Map<string, number>> = new Map()): void {
+    const findings = new Map<string, number[]>();
+    for (const [nodeId, state] of evidence.entries()) {
+      const states = this.states.get(nodeId);
+      if (!states?.includes(state)) {
+        throw new Error(`Invalid evidence: ${nodeId} = ${state}`);
+      }
+      findings.set(nodeId, states.map(s => (s === state ? 1 : 0)));
+    }
+    for (const [nodeId, likelihood] of likelihoods.entries()) {
+      const states = this.states.get(nodeId);
+      if (!states) {
+        throw new Error(`Invalid evidence: unknown node ${nodeId}`);
+      }
+      if (!findings.has(nodeId)) {
+        findings.set(nodeId, states.map(s => likelihood.get(s) ?? 1));
+      }
+    }
+
+    const retracted = Array.from(this.findings.entries()).some(([nodeId, weights]) => {
+      const replacement = findings.get(nodeId);
+      return !replacement || replacement.some((weight, i) => weight !== weights[i]);
+    });
+    if (retracted) {
+      this.reset();
+    }
+
+    const added = Array.from(findings.entries()).filter(([nodeId]) => !this.findings.has(nodeId));
+    added.forEach(([nodeId, weights]) => this.enterFinding(nodeId, weights));
+
+    if (retracted || added.length > 1) {
+      this.calibrate();
+    } else if (added.length === 1) {
+      // The rest of the tree is consistent, so passing outward from the changed clique suffices
+      this.distribute(this.homes.get(added[0][0])!, -1);
+    }
+  }
+
+  /**
+   * Posterior of one node given the current evidence
+   */
+  getMarginal(nodeId: string): Map<string, number> {
+    const home = this.homes.get(nodeId);
+    if (home === undefined) {
+      throw new Error(`Target node not found: ${nodeId}`);
+    }
+
+    const clique = this.cliques[home];
+    const index = clique.variables.indexOf(nodeId);
+    const states = this.states.get(nodeId)!;
+    const sums = new Array<number>(states.length).fill(0);
+    clique.potential.forEach((value, entry) => {
+      sums[Math.floor(entry / clique.strides[index]) % clique.cardinalities[index]] += value;
+    });
+
+    const total = sums.reduce((a, b) => a + b, 0);
+    return new Map(states.map((state, i) =>
+      [state, total > 0 ? sums[i] / total : 1 / states.length] as [string, number]));
+  }
+
+  /**
+   * Joint posterior of nodes that share a clique (e.g. a node and its
+   * parents), keyed by their states joined with ','
+   */
+  getJointMarginal(nodeIds: string[]): Map<string, number> {
+    const clique = this.cliques.find(c => nodeIds.every(id => c.variables.includes(id)));
+    if (!clique) {
+      throw new Error(`No clique holds all of: ${nodeIds.join(', ')}`);
+    }
+
+    const positions = nodeIds.map(id => clique.variables.indexOf(id));
+    const joint = new Map<string, number>();
+    let total = 0;
+    clique.potential.forEach((value, entry) => {
+      const key = positions
+        .map((position, i) => this.states.get(nodeIds[i])![Math.floor(entry / clique.strides[position]) % clique.cardinalities[position]])
+        .join(',');
+      joint.set(key, (joint.get(key) || 0) + value);
+      total += value;
+    });
+
+    joint.forEach((value, key) => joint.set(key, total > 0 ? value / total : 1 / joint.size));
+    return joint;
+  }
+
+  /**
+   * Posteriors of every node given the current evidence
+   */
+  getMarginals(): Map<string, Map<string, number>> {
+    const marginals = new Map<string, Map<string, number>>();
+    for (const nodeId of this.states.keys()) {
+      marginals.set(nodeId, this.getMarginal(nodeId));
+    }
+    return marginals;
+  }
+
+  /**
+   * Probability of the current evidence under the network; with soft
+   * findings, its likelihood
+   */
+  getEvidenceProbability(): number {
+    // Calibrated cliques all sum to P(evidence); the tree always has a clique unless the network is empty
+    return this.cliques.length > 0 ? this.cliques[0].potential.reduce((a, b) => a + b, 0) : 1;
+  }
+
+  // === Compilation ===
+
+  private compile(): void {
+    const nodes = this.network.getAllNodes();
+    nodes.forEach(node => this.states.set(node.id, node.states));
+
+    // Moral graph: families become fully connected
+    const adjacency = new Map<string, Set<string>>();
+    nodes.forEach(node => adjacency.set(node.id, new Set()));
+    const connect = (a: string, b: string) => {
+      adjacency.get(a)!.add(b);
+      adjacency.get(b)!.add(a);
+    };
+    for (const node of nodes) {
+      const family = [node.id, ...node.parents];
+      for (let i = 0; i < family.length; i++) {
+        for (let j = i + 1; j < family.length; j++) {
+          connect(family[i], family[j]);
+        }
+      }
+    }
+
+    const cliqueSets = this.triangulate(adjacency);
+    this.cliques = cliqueSets.map(variables => this.createClique(variables));
+    this.joinCliques();
+
+    this.states.forEach((states, nodeId) => {
+      let home = -1;
+      this.cliques.forEach((clique, i) => {
+        if (clique.variables.includes(nodeId) &&
+            (home === -1 || clique.initial.length < this.cliques[home].initial.length)) {
+          home = i;
+        }
+      });
+      this.homes.set(nodeId, home);
+    });
+
+    this.assignCPTs();
+    this.reset();
+    this.calibrate();
+  }
+
+  /**
+   * Eliminate variables greedily by fewest fill-in edges, then smallest clique;
+   * each elimination clique not contained in an earlier one is a clique of the tree
+   */
+  private triangulate(adjacency: Map<string, Set<string>>): string[][] {
+    const remaining = new Map<string, Set<string>>();
+    adjacency.forEach((neighbors, nodeId) => remaining.set(nodeId, new Set(neighbors)));
+    const cliques: Array<Set<string>> = [];
+
+    const fillIns = (nodeId: string): number => {
+      const neighbors = Array.from(remaining.get(nodeId)!);
+      let count = 0;
+      for (let i = 0; i < neighbors.length; i++) {
+        for (let j = i + 1; j < neighbors.length; j++) {
+          if (!remaining.get(neighbors[i])!.has(neighbors[j])) count++;
+        }
+      }
+      return count;
+    };
+    const weight = (nodeId: string): number => Array.from(remaining.get(nodeId)!)
+      .reduce((product, neighbor) => product * this.states.get(neighbor)!.length, this.states.get(nodeId)!.length);
+
+    while (remaining.size > 0) {
+      let best: string | null = null;
+      let bestFill = Infinity;
+      let bestWeight = Infinity;
+      for (const nodeId of remaining.keys()) {
+        const fill = fillIns(nodeId);
+        const size = weight(nodeId);
+        if (fill < bestFill || (fill === bestFill && size < bestWeight)) {
+          best = nodeId;
+          bestFill = fill;
+          bestWeight = size;
+        }
+      }
+
+      const neighbors = Array.from(remaining.get(best!)!);
+      const clique = new Set([best!, ...neighbors]);
+      if (!cliques.some(existing => Array.from(clique).every(v => existing.has(v)))) {
+        cliques.push(clique);
+      }
+
+      for (let i = 0; i < neighbors.length; i++) {
+        for (let j = i + 1; j < neighbors.length; j++) {
+          remaining.get(neighbors[i])!.add(neighbors[j]);
+          remaining.get(neighbors[j])!.add(neighbors[i]);
+        }
+      }
+      neighbors.forEach(neighbor => remaining.get(neighbor)!.delete(best!));
+      remaining.delete(best!);
+    }
+
+    return cliques.map(clique => Array.from(clique));
+  }
+
+  /**
+   * Maximum spanning tree over separator sizes (Kruskal). Disconnected parts
+   * of the network are joined by empty separators, so there is one tree.
+   */
+  private joinCliques(): void {
+    const candidates: Array<{ a: number; b: number; shared: string[] }> = [];
+    for (let a = 0; a < this.cliques.length; a++) {
+      for (let b = a + 1; b < this.cliques.length; b++) {
+        const shared = this.cliques[a].variables.filter(v => this.cliques[b].variables.includes(v));
+        candidates.push({ a, b, shared });
+      }
+    }
+    candidates.sort((x, y) => y.shared.length - x.shared.length);
+
+    const component = this.cliques.map((clique, i) => i);
+    const find = (i: number): number => (component[i] === i ? i : (component[i] = find(component[i])));
+
+    for (const { a, b, shared } of candidates) {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA === rootB) continue;
+      component[rootA] = rootB;
+
+      const separator = this.separators.length;
+      this.separators.push({
+        variables: shared,
+        cliques: [a, b],
+        indexMaps: [this.indexMap(this.cliques[a], shared), this.indexMap(this.cliques[b], shared)],
+        potential: []
+      });
+      this.cliques[a].neighbors.push({ clique: b, separator });
+      this.cliques[b].neighbors.push({ clique: a, separator });
+    }
+  }
+
+  private createClique(variables: string[]): Clique {
+    const cardinalities = variables.map(v => this.states.get(v)!.length);
+    const strides: number[] = [];
+    let size = 1;
+    for (let i = variables.length - 1; i >= 0; i--) {
+      strides[i] = size;
+      size *= cardinalities[i];
+    }
+
+    return {
+      variables,
+      cardinalities,
+      strides,
+      initial: new Array<number>(size).fill(1),
+      potential: [],
+      neighbors: []
+    };
+  }
+
+  /**
+   * For each entry of a clique, the entry of the separator it marginalizes to
+   */
+  private indexMap(clique: Clique, separatorVariables: string[]): number[] {
+    const positions = separatorVariables.map(v => clique.variables.indexOf(v));
+    const cardinalities = positions.map(p => clique.cardinalities[p]);
+
+    return clique.initial.map((value, entry) => positions.reduce((index, position, i) =>
+      index * cardinalities[i] + Math.floor(entry / clique.strides[position]) % clique.cardinalities[position], 0));
+  }
+
+  /**
+   * Multiply each node's CPT into one clique holding its whole family
+   */
+  private assignCPTs(): void {
+    for (const node of this.network.getAllNodes()) {
+      const family = [node.id, ...node.parents];
+      const clique = this.cliques
+        .filter(c => family.every(v => c.variables.includes(v)))
+        .sort((a, b) => a.initial.length - b.initial.length)[0];
+
+      clique.initial.forEach((value, entry) => {
+        const assignment = (v: string) => {
+          const position = clique.variables.indexOf(v);
+          return this.states.get(v)![Math.floor(entry / clique.strides[position]) % clique.cardinalities[position]];
+        };
+
+        const state = assignment(node.id);
+        const probability = node.parents.length === 0
+          ? node.probabilities.get(state) || 0
+          : this.network.getConditionalProbability(
+              node.id,
+              state,
+              new Map(node.parents.map(parent => [parent, assignment(parent)] as [string, string]))
+            );
+        clique.initial[entry] = value * probability;
+      });
+    }
+  }
+
+  // === Propagation ===
+
+  private reset(): void {
+    this.cliques.forEach(clique => {
+      clique.potential = [...clique.initial];
+    });
+    this.separators.forEach(separator => {
+      separator.potential = new Array<number>(
+        separator.variables.reduce((size, v) => size * this.states.get(v)!.length, 1)
+      ).fill(1);
+    });
+    this.findings.clear();
+  }
+
+  private enterFinding(nodeId: string, weights: number[]): void {
+    const clique = this.cliques[this.homes.get(nodeId)!];
+    const position = clique.variables.indexOf(nodeId);
+
+    clique.potential.forEach((value, entry) => {
+      clique.potential[entry] = value * weights[Math.floor(entry / clique.strides[position]) % clique.cardinalities[position]];
+    });
+    this.findings.set(nodeId, weights);
+  }
+
+  /**
+   * Full two-pass propagation: collect to the first clique, then distribute from it
+   */
+  private calibrate(): void {
+    if (this.cliques.length === 0) return;
+    this.collect(0, -1);
+    this.distribute(0, -1);
+  }
+
+  private collect(cliqueIndex: number, from: number): void {
+    for (const { clique, separator } of this.cliques[cliqueIndex].neighbors) {
+      if (clique === from) continue;
+      this.collect(clique, cliqueIndex);
+      this.passMessage(clique, cliqueIndex, separator);
+    }
+  }
+
+  private distribute(cliqueIndex: number, from: number): void {
+    for (const { clique, separator } of this.cliques[cliqueIndex].neighbors) {
+      if (clique === from) continue;
+      this.passMessage(cliqueIndex, clique, separator);
+      this.distribute(clique, cliqueIndex);
+    }
+  }
+
+  /**
+   * Hugin update: the receiver is scaled by new over old separator marginals
+   */
+  private passMessage(fromIndex: number, toIndex: number, separatorIndex: number): void {
+    const separator = this.separators[separatorIndex];
+    const fromMap = separator.indexMaps[separator.cliques[0] === fromIndex ? 0 : 1];
+    const toMap = separator.indexMaps[separator.cliques[0] === toIndex ? 0 : 1];
+
+    const updated = new Array<number>(separator.potential.length).fill(0);
+    this.cliques[fromIndex].potential.forEach((value, entry) => {
+      updated[fromMap[entry]] += value;
+    });
+
+    const to = this.cliques[toIndex];
+    to.potential.forEach((value, entry) => {
+      const previous = separator.potential[toMap[entry]];
+      to.potential[entry] = previous > 0 ? value * updated[toMap[entry]] / previous : 0;
+    });
+    separator.potential = updated;
+  }
+}
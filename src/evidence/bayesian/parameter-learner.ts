@@ -0,0 +1,359 @@
+/**
+ * CPT Parameter Learning
+ * Estimates a Bayesian network's probabilities from observed cases: counting
+ * (maximum likelihood or Dirichlet-smoothed) when cases are fully observed,
+ * expectation-maximization when some values are missing or only softly observed
+ */
+
+import { BayesianNetwork, BayesianNode } from './bayesian-network';
+import { InferenceEngine } from './inference-engine';
+import { JunctionTree } from './junction-tree';
+
+/**
+ * One observation of the network: node id → observed state.
+ * Nodes left out were not observed.
+ */
+export type EvidenceCase = Map<string, string>;
+
+/**
+ * One observation known only up to a likelihood per state (soft evidence):
+ * node id → state → likelihood. Likelihood 1 for one state and 0 for the rest
+ * is a hard observation; equal likelihoods say nothing. States left out count
+ * as 1, nodes left out were not observed.
+ */
+export type SoftEvidenceCase = Map<string, Map<string, number>>;
+
+export type ParameterLearningMethod = 'mle' | 'dirichlet' | 'em';
+
+export interface ParameterLearningOptions {
+  method?: ParameterLearningMethod; // Default: 'dirichlet' for fully observed cases, 'em' otherwise
+  priorStrength?: number;           // Pseudo-count per CPT entry; defaults to the learner's
+  nodes?: string[];                 // Only re-estimate these nodes (default: all)
+  maxIterations?: number;           // EM only (default 50)
+  tolerance?: number;               // EM stops once the log-likelihood gains less (default 1e-4)
+}
+
+export interface ParameterLearningResult {
+  method: ParameterLearningMethod;
+  caseCount: number;       // Cases that observed at least one network node
+  nodes: string[];         // Nodes whose probabilities were re-estimated
+  iterations: number;      // 1 for counting
+  logLikelihood: number;   // Of the observed values, under the learned parameters
+  converged: boolean;
+}
+
+// Expected counts per node: condition key → state → count
+type FamilyCounts = Map<string, Map<string, Map<string, number>>>;
+
+const DEFAULT_MAX_ITERATIONS = 50;
+const DEFAULT_TOLERANCE = 1e-4;
+
+export class ParameterLearner {
+  private network: BayesianNetwork;
+  private inferenceEngine: InferenceEngine;
+  private priorStrength: number;
+
+  constructor(
+    network: BayesianNetwork,
+    inferenceEngine: InferenceEngine = new InferenceEngine(network),
+    priorStrength: number = 1
+  ) {
+    this.network = network;
+    this.inferenceEngine = inferenceEngine;
+    this.priorStrength = priorStrength;
+  }
+
+  /**
+   * Re-estimate probabilities from cases. Counting skips, per node, cases
+   * that leave the node or one of its parents unobserved; EM fills those in
+   * with posteriors from the inference engine.
+   */
+  learn(cases: EvidenceCase[], options: ParameterLearningOptions = {}): ParameterLearningResult {
+    const observed = cases
+      .map(c => this.validObservations(c))
+      .filter(c => c.size > 0);
+    const nodes = (options.nodes ?? this.network.getAllNodes().map(n => n.id))
+      .filter(id => this.network.getNode(id));
+
+    const complete = observed.every(c => nodes.every(id => this.family(id).every(member => c.has(member))));
+    const method = options.method ?? (complete ? 'dirichlet' : 'em');
+    const pseudoCount = method === 'mle' ? 0 : options.priorStrength ?? this.priorStrength;
+
+    if (method !== 'em' || observed.length === 0) {
+      this.applyCounts(this.countObserved(observed, nodes), nodes, pseudoCount);
+      return {
+        method,
+        caseCount: observed.length,
+        nodes,
+        iterations: 1,
+        logLikelihood: this.logLikelihood(observed),
+        converged: true
+      };
+    }
+
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+
+    let logLikelihood = -Infinity;
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations) {
+      // E-step under the current parameters, whose likelihood it also yields
+      const expected = this.expectedCounts(observed, nodes);
+      if (expected.logLikelihood - logLikelihood < tolerance) {
+        logLikelihood = expected.logLikelihood;
+        converged = true;
+        break;
+      }
+      logLikelihood = expected.logLikelihood;
+
+      // M-step
+      this.applyCounts(expected.counts, nodes, pseudoCount);
+      iterations++;
+    }
+
+    return {
+      method,
+      caseCount: observed.length,
+      nodes,
+      iterations,
+      logLikelihood: converged ? logLikelihood : this.logLikelihood(observed),
+      converged
+    };
+  }
+
+  /**
+   * Re-estimate probabilities from soft observations by EM. The E-step is each
+   * family's joint posterior given a case's likelihoods, from one junction
+   * tree pass per case, so weak evidence shifts the expected counts little
+   * and evidence against a state counts for the others. Method 'mle' drops
+   * the prior; it is EM either way.
+   */
+  learnSoft(cases: SoftEvidenceCase[], options: ParameterLearningOptions = {}): ParameterLearningResult {
+    const observed = cases
+      .map(c => this.validLikelihoods(c))
+      .filter(c => c.size > 0);
+    const nodes = (options.nodes ?? this.network.getAllNodes().map(n => n.id))
+      .filter(id => this.network.getNode(id));
+    const pseudoCount = options.method === 'mle' ? 0 : options.priorStrength ?? this.priorStrength;
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+
+    let logLikelihood = -Infinity;
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations) {
+      // E-step under the current parameters, whose likelihood it also yields
+      const expected = this.expectedSoftCounts(observed, nodes);
+      if (expected.logLikelihood - logLikelihood < tolerance) {
+        logLikelihood = expected.logLikelihood;
+        converged = true;
+        break;
+      }
+      logLikelihood = expected.logLikelihood;
+
+      // M-step
+      this.applyCounts(expected.counts, nodes, pseudoCount);
+      iterations++;
+    }
+
+    return {
+      method: 'em',
+      caseCount: observed.length,
+      nodes,
+      iterations,
+      logLikelihood: converged ? logLikelihood : this.expectedSoftCounts(observed, []).logLikelihood,
+      converged
+    };
+  }
+
+  /**
+   * Log-probability of each case's observed values, by the chain rule
+   */
+  logLikelihood(cases: EvidenceCase[]): number {
+    return cases.reduce((total, c) => total + this.caseLogLikelihood(this.validObservations(c)), 0);
+  }
+
+  // === Private helpers ===
+
+  private validObservations(observation: EvidenceCase): EvidenceCase {
+    const valid: EvidenceCase = new Map();
+    for (const [nodeId, state] of observation.entries()) {
+      if (this.network.getNode(nodeId)?.states.includes(state)) {
+        valid.set(nodeId, state);
+      }
+    }
+    return valid;
+  }
+
+  /**
+   * Likelihoods of network nodes only, dropping any that rule out every state
+   */
+  private validLikelihoods(observation: SoftEvidenceCase): SoftEvidenceCase {
+    const valid: SoftEvidenceCase = new Map();
+    for (const [nodeId, likelihood] of observation.entries()) {
+      const node = this.network.getNode(nodeId);
+      if (node && node.states.some(state => (likelihood.get(state) ?? 1) > 0)) {
+        valid.set(nodeId, likelihood);
+      }
+    }
+    return valid;
+  }
+
+  private family(nodeId: string): string[] {
+    return [nodeId, ...this.network.getNode(nodeId)!.parents];
+  }
+
+  private countObserved(cases: EvidenceCase[], nodes: string[]): FamilyCounts {
+    const counts: FamilyCounts = new Map();
+
+    for (const nodeId of nodes) {
+      const node = this.network.getNode(nodeId)!;
+      for (const c of cases) {
+        if (!this.family(nodeId).every(member => c.has(member))) continue;
+        this.addCount(counts, node, c, 1);
+      }
+    }
+
+    return counts;
+  }
+
+  private expectedCounts(cases: EvidenceCase[], nodes: string[]): { counts: FamilyCounts; logLikelihood: number } {
+    const counts: FamilyCounts = new Map();
+    let logLikelihood = 0;
+
+    for (const c of cases) {
+      logLikelihood += this.caseLogLikelihood(c);
+
+      for (const nodeId of nodes) {
+        const node = this.network.getNode(nodeId)!;
+        const hidden = this.family(nodeId).filter(member => !c.has(member));
+
+        for (const { assignment, probability } of this.jointPosterior(hidden, c)) {
+          this.addCount(counts, node, assignment, probability);
+        }
+      }
+    }
+
+    return { counts, logLikelihood };
+  }
+
+  /**
+   * E-step for soft cases: one junction tree pass per case yields every
+   * family's joint posterior and the likelihood of the case's evidence
+   */
+  private expectedSoftCounts(cases: SoftEvidenceCase[], nodes: string[]): { counts: FamilyCounts; logLikelihood: number } {
+    const counts: FamilyCounts = new Map();
+    let logLikelihood = 0;
+    const tree = new JunctionTree(this.network);
+
+    for (const c of cases) {
+      tree.setEvidence(new Map(), c);
+      logLikelihood += Math.log(Math.max(tree.getEvidenceProbability(), Number.MIN_VALUE));
+
+      for (const nodeId of nodes) {
+        const node = this.network.getNode(nodeId)!;
+        const family = this.family(nodeId);
+
+        tree.getJointMarginal(family).forEach((probability, key) => {
+          const states = key.split(',');
+          const assignment: EvidenceCase = new Map(family.map((member, i) => [member, states[i]] as [string, string]));
+          this.addCount(counts, node, assignment, probability);
+        });
+      }
+    }
+
+    return { counts, logLikelihood };
+  }
+
+  /**
+   * Posterior over joint assignments of variables given evidence, built up by
+   * the chain rule from single-node queries. Assignments include the evidence.
+   */
+  private jointPosterior(
+    variables: string[],
+    evidence: EvidenceCase
+  ): Array<{ assignment: EvidenceCase; probability: number }> {
+    if (variables.length === 0) {
+      return [{ assignment: evidence, probability: 1 }];
+    }
+
+    const [first, ...rest] = variables;
+    const marginal = this.inferenceEngine.infer({ target: first, evidence, method: 'exact' }).posterior;
+
+    const joint: Array<{ assignment: EvidenceCase; probability: number }> = [];
+    for (const [state, probability] of marginal.entries()) {
+      if (!(probability > 0)) continue;
+
+      const extended = new Map(evidence).set(first, state);
+      for (const entry of this.jointPosterior(rest, extended)) {
+        joint.push({ assignment: entry.assignment, probability: probability * entry.probability });
+      }
+    }
+    return joint;
+  }
+
+  private caseLogLikelihood(observation: EvidenceCase): number {
+    let logLikelihood = 0;
+    const seen: EvidenceCase = new Map();
+
+    for (const nodeId of this.network.getTopologicalOrder()) {
+      const state = observation.get(nodeId);
+      if (state === undefined) continue;
+
+      const probability = this.inferenceEngine.infer({ target: nodeId, evidence: seen, method: 'exact' })
+        .posterior.get(state) || 0;
+      logLikelihood += Math.log(Math.max(probability, Number.MIN_VALUE));
+      seen.set(nodeId, state);
+    }
+
+    return logLikelihood;
+  }
+
+  private addCount(counts: FamilyCounts, node: BayesianNode, assignment: EvidenceCase, weight: number): void {
+    const parentStates = new Map(node.parents.map(parent => [parent, assignment.get(parent)!] as [string, string]));
+    const conditionKey = BayesianNetwork.conditionKey(parentStates);
+    const state = assignment.get(node.id)!;
+
+    if (!counts.has(node.id)) counts.set(node.id, new Map());
+    const byCondition = counts.get(node.id)!;
+    if (!byCondition.has(conditionKey)) byCondition.set(conditionKey, new Map());
+    const byState = byCondition.get(conditionKey)!;
+    byState.set(state, (byState.get(state) || 0) + weight);
+  }
+
+  /**
+   * M-step: (counts + pseudo-count) normalized per parent configuration.
+   * Configurations with no counts and no prior become uniform.
+   */
+  private applyCounts(counts: FamilyCounts, nodes: string[], pseudoCount: number): void {
+    for (const nodeId of nodes) {
+      const node = this.network.getNode(nodeId)!;
+      const byCondition = counts.get(nodeId) ?? new Map<string, Map<string, number>>();
+
+      const estimate = (conditionKey: string): Map<string, number> => {
+        const byState = byCondition.get(conditionKey);
+        const weights = node.states.map(state => (byState?.get(state) || 0) + pseudoCount);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        return new Map(node.states.map((state, i) =>
+          [state, total > 0 ? weights[i] / total : 1 / node.states.length] as [string, number]));
+      };
+
+      // Roots keep their distribution on the node itself, which is what inference reads
+      if (node.parents.length === 0) {
+        node.probabilities = estimate('');
+        continue;
+      }
+
+      const conditions = new Map<string, Map<string, number>>();
+      for (const parentStates of this.network.getParentConfigurations(nodeId)) {
+        const conditionKey = BayesianNetwork.conditionKey(parentStates);
+        conditions.set(conditionKey, estimate(conditionKey));
+      }
+      this.network.setCPT(nodeId, { node: nodeId, conditions });
+    }
+
+    // Cached posteriors were computed under the old parameters
+    this.inferenceEngine.clearCache();
+  }
+}
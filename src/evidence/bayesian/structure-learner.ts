@@ -0,0 +1,424 @@
+/**
+ * Structure Learning
+ * Score-based hill climbing over DAGs: each step applies the single edge
+ * addition, removal or reversal that most improves the BIC or BDeu score of
+ * the data, until no move helps
+ */
+
+import { BayesianNetwork, ConditionalProbabilityTable } from './bayesian-network';
+import { InferenceEngine } from './inference-engine';
+import { JunctionTree } from './junction-tree';
+import { ParameterLearner, SoftEvidenceCase } from './parameter-learner';
+
+export type StructureScore = 'bic' | 'bdeu';
+
+export type Edge = [string, string]; // [parent, child]
+
+export interface StructureLearningOptions {
+  score?: StructureScore;         // Default 'bic'
+  equivalentSampleSize?: number;  // BDeu prior strength (default 1)
+  priorStrength?: number;         // Pseudo-count when re-fitting changed CPTs (default 1)
+  nodes?: string[];               // Only move edges among these nodes (default: all)
+  whitelist?: Edge[];             // Always present; never removed or reversed
+  blacklist?: Edge[];             // Never present
+  maxParents?: number;            // Default 3
+  maxIterations?: number;         // Default 100
+}
+
+export interface StructureOperation {
+  type: 'add' | 'remove' | 'reverse';
+  edge: Edge;          // As it was before the move; reversing [a, b] leaves b -> a
+  scoreGain: number;
+}
+
+export interface StructureLearningResult {
+  score: StructureScore;
+  initialScore: number;
+  finalScore: number;
+  iterations: number;
+  operations: StructureOperation[];
+  edges: Edge[];       // Of the whole network, after learning
+}
+
+export interface StructureComparison {
+  shared: Edge[];
+  added: Edge[];       // Only in the learned structure
+  removed: Edge[];     // Only in the reference structure
+  reversed: Edge[];    // In the learned orientation
+  hammingDistance: number; // Additions + removals + reversals to turn one into the other
+}
+
+const DEFAULT_MAX_PARENTS = 3;
+const DEFAULT_MAX_ITERATIONS = 100;
+const MIN_SCORE_GAIN = 1e-9;
+
+// One case with every node filled in: node → distribution over its states
+type CompletedCase = Map<string, Map<string, number>>;
+
+interface CandidateMove {
+  type: StructureOperation['type'];
+  edge: Edge;
+  scoreGain: number;
+}
+
+export class StructureLearner {
+  private network: BayesianNetwork;
+  private inferenceEngine: InferenceEngine;
+  private familyScores: Map<string, number> = new Map();
+
+  constructor(network: BayesianNetwork, inferenceEngine: InferenceEngine = new InferenceEngine(network)) {
+    this.network = network;
+    this.inferenceEngine = inferenceEngine;
+  }
+
+  /**
+   * Search for the structure the cases support best, starting from the
+   * network's current edges, and apply it. Every case counts toward every
+   * family, so scores of different parent sets are comparable: observed nodes
+   * take their normalized likelihoods, the rest their posteriors given the
+   * case under the starting network (expected counts). CPTs of nodes whose
+   * parents changed are re-fitted from the same cases.
+   */
+  learn(cases: SoftEvidenceCase[], options: StructureLearningOptions = {}): StructureLearningResult {
+    const score = options.score ?? 'bic';
+    const nodes = (options.nodes ?? this.network.getAllNodes().map(n => n.id))
+      .filter(id => this.network.getNode(id));
+    const whitelist = options.whitelist ?? [];
+    const blacklist = options.blacklist ?? [];
+    const maxParents = options.maxParents ?? DEFAULT_MAX_PARENTS;
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+    const originalParents = new Map(this.network.getAllNodes().map(n => [n.id, [...n.parents]] as [string, string[]]));
+    const originalCPTs = new Map<string, ConditionalProbabilityTable | undefined>(
+      this.network.getAllNodes().map(n => [n.id, this.network.getCPT(n.id)] as [string, ConditionalProbabilityTable | undefined]));
+
+    const completed = this.completeCases(cases);
+    this.familyScores.clear();
+    const initialScore = this.scoreCompleted(completed, score, options.equivalentSampleSize);
+    const operations: StructureOperation[] = [];
+
+    // Constraints first: they hold regardless of score
+    for (const [parent, child] of blacklist) {
+      if (this.network.hasEdge(parent, child)) {
+        const scoreGain = this.removalGain(completed, parent, child, score, options.equivalentSampleSize);
+        this.network.removeEdge(parent, child);
+        operations.push({ type: 'remove', edge: [parent, child], scoreGain });
+      }
+    }
+    for (const [parent, child] of whitelist) {
+      if (this.network.hasEdge(parent, child)) continue;
+      if (!this.network.getNode(parent) || !this.network.getNode(child) || this.network.wouldCreateCycle(parent, child)) {
+        throw new Error(`Whitelisted edge cannot be added: ${parent} -> ${child}`);
+      }
+      const scoreGain = this.additionGain(completed, parent, child, score, options.equivalentSampleSize);
+      this.network.addEdge(parent, child);
+      operations.push({ type: 'add', edge: [parent, child], scoreGain });
+    }
+
+    const isListed = (list: Edge[], parent: string, child: string) =>
+      list.some(([p, c]) => p === parent && c === child);
+
+    let iterations = 0;
+    while (iterations < maxIterations) {
+      const candidates: CandidateMove[] = [];
+
+      for (const parent of nodes) {
+        for (const child of nodes) {
+          if (parent === child) continue;
+
+          if (this.network.hasEdge(parent, child)) {
+            if (isListed(whitelist, parent, child)) continue;
+
+            candidates.push({
+              type: 'remove',
+              edge: [parent, child],
+              scoreGain: this.removalGain(completed, parent, child, score, options.equivalentSampleSize)
+            });
+
+            if (!isListed(blacklist, child, parent) && this.network.getNode(parent)!.parents.length < maxParents) {
+              candidates.push({
+                type: 'reverse',
+                edge: [parent, child],
+                scoreGain: this.removalGain(completed, parent, child, score, options.equivalentSampleSize) +
+                  this.additionGain(completed, child, parent, score, options.equivalentSampleSize)
+              });
+            }
+          } else if (!this.network.hasEdge(child, parent) &&
+                     !isListed(blacklist, parent, child) &&
+                     this.network.getNode(child)!.parents.length < maxParents) {
+            candidates.push({
+              type: 'add',
+              edge: [parent, child],
+              scoreGain: this.additionGain(completed, parent, child, score, options.equivalentSampleSize)
+            });
+          }
+        }
+      }
+
+      // Best first; moves that would close a cycle are skipped
+      const move = candidates
+        .filter(candidate => candidate.scoreGain > MIN_SCORE_GAIN)
+        .sort((a, b) => b.scoreGain - a.scoreGain)
+        .find(candidate => this.tryMove(candidate));
+      if (!move) break;
+
+      operations.push({ type: move.type, edge: move.edge, scoreGain: move.scoreGain });
+      iterations++;
+    }
+
+    this.refitChangedFamilies(cases, originalParents, originalCPTs, options.priorStrength);
+    this.inferenceEngine.clearCache();
+
+    return {
+      score,
+      initialScore,
+      finalScore: this.scoreCompleted(completed, score, options.equivalentSampleSize),
+      iterations,
+      operations,
+      edges: this.getEdges()
+    };
+  }
+
+  /**
+   * Score of the network's current structure for the cases (higher is better)
+   */
+  scoreNetwork(cases: SoftEvidenceCase[], score: StructureScore = 'bic', equivalentSampleSize: number = 1): number {
+    // Family scores are cached for one set of cases, which this starts
+    this.familyScores.clear();
+    return this.scoreCompleted(this.completeCases(cases), score, equivalentSampleSize);
+  }
+
+  /**
+   * Edges of the network as [parent, child] pairs
+   */
+  getEdges(): Edge[] {
+    const edges: Edge[] = [];
+    for (const node of this.network.getAllNodes()) {
+      for (const childId of node.children) {
+        edges.push([node.id, childId]);
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * How a learned structure differs from a reference one, e.g. the heuristic
+   * edges it replaced
+   */
+  static compareStructures(learned: Edge[], reference: Edge[]): StructureComparison {
+    const has = (edges: Edge[], [parent, child]: Edge) => edges.some(([p, c]) => p === parent && c === child);
+
+    const shared = learned.filter(edge => has(reference, edge));
+    const reversed = learned.filter(([parent, child]) => !has(reference, [parent, child]) && has(reference, [child, parent]));
+    const added = learned.filter(edge => !has(reference, edge) && !has(reversed, edge));
+    const removed = reference.filter(([parent, child]) => !has(learned, [parent, child]) && !has(learned, [child, parent]));
+
+    return {
+      shared,
+      added,
+      removed,
+      reversed,
+      hammingDistance: added.length + removed.length + reversed.length
+    };
+  }
+
+  // === Private helpers ===
+
+  private scoreCompleted(cases: CompletedCase[], score: StructureScore, equivalentSampleSize?: number): number {
+    return this.network.getAllNodes().reduce((total, node) =>
+      total + this.familyScore(cases, node.id, node.parents, score, equivalentSampleSize), 0);
+  }
+
+  /**
+   * Every node's distribution in each case: normalized likelihoods where
+   * observed, posteriors given the case's evidence elsewhere
+   */
+  private completeCases(cases: SoftEvidenceCase[]): CompletedCase[] {
+    const tree = new JunctionTree(this.network);
+    const nodes = this.network.getAllNodes();
+
+    return cases.map(c => {
+      const likelihoods = new Map(Array.from(c.entries()).filter(([nodeId, likelihood]) =>
+        this.network.getNode(nodeId)?.states.some(state => (likelihood.get(state) ?? 1) > 0)));
+      tree.setEvidence(new Map(), likelihoods);
+
+      const completed: CompletedCase = new Map();
+      for (const node of nodes) {
+        const likelihood = likelihoods.get(node.id);
+        if (!likelihood) {
+          completed.set(node.id, tree.getMarginal(node.id));
+          continue;
+        }
+        const weights = node.states.map(state => likelihood.get(state) ?? 1);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        completed.set(node.id, new Map(node.states.map((state, i) => [state, weights[i] / total] as [string, number])));
+      }
+      return completed;
+    });
+  }
+
+  /**
+   * Apply a move if it keeps the network acyclic
+   */
+  private tryMove(move: CandidateMove): boolean {
+    const [parent, child] = move.edge;
+
+    switch (move.type) {
+      case 'add':
+        if (this.network.wouldCreateCycle(parent, child)) return false;
+        this.network.addEdge(parent, child);
+        return true;
+
+      case 'remove':
+        this.network.removeEdge(parent, child);
+        return true;
+
+      case 'reverse':
+        this.network.removeEdge(parent, child);
+        if (this.network.wouldCreateCycle(child, parent)) {
+          this.network.addEdge(parent, child);
+          return false;
+        }
+        this.network.addEdge(child, parent);
+        return true;
+    }
+  }
+
+  private additionGain(
+    cases: CompletedCase[],
+    parent: string,
+    child: string,
+    score: StructureScore,
+    equivalentSampleSize?: number
+  ): number {
+    const parents = this.network.getNode(child)!.parents;
+    return this.familyScore(cases, child, [...parents, parent], score, equivalentSampleSize) -
+      this.familyScore(cases, child, parents, score, equivalentSampleSize);
+  }
+
+  private removalGain(
+    cases: CompletedCase[],
+    parent: string,
+    child: string,
+    score: StructureScore,
+    equivalentSampleSize?: number
+  ): number {
+    const parents = this.network.getNode(child)!.parents;
+    return this.familyScore(cases, child, parents.filter(p => p !== parent), score, equivalentSampleSize) -
+      this.familyScore(cases, child, parents, score, equivalentSampleSize);
+  }
+
+  /**
+   * Decomposable score of one node given a parent set, from expected counts:
+   * each case spreads one count over the family's states, members taken as
+   * independent
+   */
+  private familyScore(
+    cases: CompletedCase[],
+    nodeId: string,
+    parents: string[],
+    score: StructureScore,
+    equivalentSampleSize: number = 1
+  ): number {
+    const sortedParents = [...parents].sort();
+    const cacheKey = `${score}|${equivalentSampleSize}|${nodeId}|${sortedParents.join(',')}`;
+    const cached = this.familyScores.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const node = this.network.getNode(nodeId)!;
+    const stateCount = node.states.length;
+    const configurationCount = sortedParents.reduce(
+      (count, parent) => count * this.network.getNode(parent)!.states.length, 1);
+
+    // N_ijk: expected cases per parent configuration and state
+    const counts = new Map<string, Map<string, number>>();
+    for (const c of cases) {
+      let configurations = [{ key: [] as string[], weight: 1 }];
+      for (const parent of sortedParents) {
+        const distribution = c.get(parent)!;
+        const extended: Array<{ key: string[]; weight: number }> = [];
+        configurations.forEach(({ key, weight }) => distribution.forEach((p, parentState) => {
+          if (p > 0) extended.push({ key: [...key, parentState], weight: weight * p });
+        }));
+        configurations = extended;
+      }
+
+      for (const { key, weight } of configurations) {
+        const configuration = key.join(',');
+        if (!counts.has(configuration)) counts.set(configuration, new Map());
+        const byState = counts.get(configuration)!;
+        c.get(nodeId)!.forEach((p, state) => {
+          if (p > 0) byState.set(state, (byState.get(state) || 0) + weight * p);
+        });
+      }
+    }
+    const caseCount = cases.length;
+
+    let value = 0;
+    if (score === 'bic') {
+      for (const byState of counts.values()) {
+        const total = Array.from(byState.values()).reduce((sum, n) => sum + n, 0);
+        byState.forEach(n => {
+          if (n > 0) value += n * Math.log(n / total);
+        });
+      }
+      const freeParameters = (stateCount - 1) * configurationCount;
+      value -= 0.5 * Math.log(Math.max(caseCount, 1)) * freeParameters;
+    } else {
+      // Configurations never observed contribute nothing
+      const alphaJ = equivalentSampleSize / configurationCount;
+      const alphaJK = alphaJ / stateCount;
+      for (const byState of counts.values()) {
+        const total = Array.from(byState.values()).reduce((sum, n) => sum + n, 0);
+        value += logGamma(alphaJ) - logGamma(alphaJ + total);
+        byState.forEach(n => {
+          value += logGamma(alphaJK + n) - logGamma(alphaJK);
+        });
+      }
+    }
+
+    this.familyScores.set(cacheKey, value);
+    return value;
+  }
+
+  /**
+   * Families whose parents changed get CPTs fitted to their new parents;
+   * the rest keep theirs, even if a rejected move touched them
+   */
+  private refitChangedFamilies(
+    cases: SoftEvidenceCase[],
+    originalParents: Map<string, string[]>,
+    originalCPTs: Map<string, ConditionalProbabilityTable | undefined>,
+    priorStrength?: number
+  ): void {
+    const changed: string[] = [];
+
+    for (const node of this.network.getAllNodes()) {
+      const before = originalParents.get(node.id) ?? [];
+      const same = before.length === node.parents.length && before.every(p => node.parents.includes(p));
+      if (!same) {
+        changed.push(node.id);
+      } else {
+        const cpt = originalCPTs.get(node.id);
+        if (cpt && !this.network.getCPT(node.id)) {
+          this.network.setCPT(node.id, cpt);
+        }
+      }
+    }
+
+    if (changed.length > 0) {
+      new ParameterLearner(this.network, this.inferenceEngine, priorStrength)
+        .learnSoft(cases, { nodes: changed });
+    }
+  }
+}
+
+/**
+ * Stirling's series, shifted up by the recurrence where it is inaccurate
+ */
+function logGamma(x: number): number {
+  if (x < 7) return logGamma(x + 1) - Math.log(x);
+
+  return (x - 0.5) * Math.log(x) - x + 0.5 * Math.log(2 * Math.PI) +
+         1 / (12 * x) - 1 / (360 * x * x * x);
+}
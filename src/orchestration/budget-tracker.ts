@@ -0,0 +1,197 @@
+/**
+ * Budget Tracker for orchestration
+ * Enforces OrchestrationConstraints.maxCost and maxTime: every adapter call
+ * reports its usage here, and the deadline aborts in-flight work through an AbortSignal.
+ */
+
+import { setMaxListeners } from 'events';
+import {
+  OrchestrationConstraints,
+  LLMRequest,
+  LLMModel,
+  TokenUsage,
+  BudgetReport,
+  LLMError
+} from '../types/index.js';
+import { Tokenizer, getTokenizer } from '../adapters/tokenizer.js';
+
+export interface BudgetTrackerOptions {
+  reserveRatio?: number; // Fraction of either budget at which to start conserving (default 0.1)
+}
+
+export class BudgetTracker {
+  private readonly maxCost: number;
+  private readonly maxTime: number;
+  private readonly reserveRatio: number;
+  private readonly startTime: number;
+  private readonly controller: AbortController;
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private spentCost: number = 0;
+  private truncationReason: 'cost' | 'time' | null = null;
+  private skippedAgents: number = 0;
+  private skippedOptionalCalls: number = 0;
+
+  constructor(constraints: Partial<OrchestrationConstraints>, options: BudgetTrackerOptions = {}) {
+    // Missing or non-positive limits mean unlimited
+    this.maxCost = constraints.maxCost && constraints.maxCost > 0 ? constraints.maxCost : 0;
+    this.maxTime = constraints.maxTime && constraints.maxTime > 0 ? constraints.maxTime : 0;
+    this.reserveRatio = options.reserveRatio ?? 0.1;
+    this.startTime = Date.now();
+    this.controller = new AbortController();
+    setMaxListeners(0, this.controller.signal); // Every in-flight call listens on it
+
+    if (this.maxTime > 0) {
+      this.deadlineTimer = setTimeout(() => {
+        this.deadlineTimer = null;
+        this.truncate('time');
+        this.controller.abort(new LLMError(
+          `Orchestration deadline of ${this.maxTime}ms reached`,
+          'BUDGET_DEADLINE',
+          { maxTime: this.maxTime },
+          false
+        ));
+      }, this.maxTime);
+    }
+  }
+
+  /**
+   * Aborts when the hard deadline passes
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Expected cost of a request before it is made: prompt tokens, counted with
+   * the model's tokenizer, plus the full completion budget
+   */
+  estimateCost(request: LLMRequest, model?: LLMModel, tokenizer: Tokenizer = getTokenizer()): number {
+    if (!model) return 0;
+
+    const promptTokens = tokenizer.countTokens(request.systemPrompt || '') + tokenizer.countTokens(request.prompt);
+    return (promptTokens + (request.maxTokens || 0)) * model.costPerToken;
+  }
+
+  /**
+   * Record actual usage of a completed call and return the cost charged.
+   * Falls back to the model's per-token price when the adapter reports no cost.
+   */
+  record(usage: TokenUsage, model?: LLMModel): number {
+    const cost = usage.cost > 0 ? usage.cost : usage.totalTokens * (model?.costPerToken ?? 0);
+    this.spentCost += cost;
+
+    if (this.maxCost > 0 && this.spentCost >= this.maxCost) {
+      this.truncate('cost');
+    }
+
+    return cost;
+  }
+
+  /**
+   * Whether a call of the given estimated cost fits in what is left
+   */
+  canAfford(estimatedCost: number): boolean {
+    if (this.signal.aborted) return false;
+    return this.maxCost === 0 || this.spentCost + estimatedCost <= this.maxCost;
+  }
+
+  /**
+   * Whether either budget is inside its reserve, so optional work should be skipped
+   */
+  isLow(): boolean {
+    if (this.signal.aborted) return true;
+
+    const costLow = this.maxCost > 0 && this.getRemainingCost() <= this.maxCost * this.reserveRatio;
+    const timeLow = this.maxTime > 0 && this.getRemainingTime() <= this.maxTime * this.reserveRatio;
+    return costLow || timeLow;
+  }
+
+  getRemainingCost(): number {
+    return this.maxCost > 0 ? Math.max(0, this.maxCost - this.spentCost) : Infinity;
+  }
+
+  getRemainingTime(): number {
+    return this.maxTime > 0 ? Math.max(0, this.maxTime - (Date.now() - this.startTime)) : Infinity;
+  }
+
+  /**
+   * Mark the result as cut short. The first reason wins.
+   */
+  truncate(reason: 'cost' | 'time'): void {
+    if (!this.truncationReason) {
+      this.truncationReason = reason;
+    }
+  }
+
+  /**
+   * Reason to give for truncating now, based on which budget is closer to running out
+   */
+  getLimitingReason(): 'cost' | 'time' {
+    if (this.signal.aborted || this.maxCost === 0) return 'time';
+    if (this.maxTime === 0) return 'cost';
+    return this.getRemainingCost() / this.maxCost <= this.getRemainingTime() / this.maxTime ? 'cost' : 'time';
+  }
+
+  isTruncated(): boolean {
+    return this.truncationReason !== null;
+  }
+
+  recordSkippedAgent(): void {
+    this.skippedAgents++;
+  }
+
+  recordSkippedOptionalCall(): void {
+    this.skippedOptionalCalls++;
+  }
+
+  /**
+   * Reject with the deadline error if the signal aborts before the promise settles
+   */
+  guard<T>(promise: Promise<T>): Promise<T> {
+    if (this.maxTime === 0) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(this.signal.reason);
+      if (this.signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      this.signal.addEventListener('abort', onAbort);
+      promise.then(
+        value => {
+          this.signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          this.signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  getReport(): BudgetReport {
+    return {
+      truncated: this.isTruncated(),
+      reason: this.truncationReason ?? undefined,
+      spentCost: this.spentCost,
+      maxCost: this.maxCost,
+      elapsedTime: Date.now() - this.startTime,
+      maxTime: this.maxTime,
+      skippedAgents: this.skippedAgents,
+      skippedOptionalCalls: this.skippedOptionalCalls
+    };
+  }
+
+  /**
+   * Stop the deadline timer once the orchestration has finished
+   */
+  dispose(): void {
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
+    }
+  }
+}
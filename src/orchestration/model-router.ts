@@ -0,0 +1,161 @@
+/**
+ * Model Router
+ * Chooses the provider and model for an LLM call from its metadata.purpose,
+ * following the declarative RoutingConfig: capability, context window, cost
+ * and latency constraints, provider preference, and fallbacks.
+ */
+
+import {
+  LLMProvider,
+  LLMModel,
+  LLMRequest,
+  RoutingConfig,
+  RoutePolicy,
+  LLMError
+} from '../types/index.js';
+import { Tokenizer, getTokenizer } from '../adapters/tokenizer.js';
+
+export interface ModelRoute {
+  provider: LLMProvider;
+  model: LLMModel;
+}
+
+export interface RouteOptions {
+  estimatedTokens?: number; // Prompt plus completion budget, checked against contextWindow
+  providerId?: string; // Only consider this provider's models
+}
+
+/**
+ * Auxiliary steps default to the cheapest model; reasoning keeps the most capable one
+ */
+export const DEFAULT_ROUTING_CONFIG: Required<RoutingConfig> = {
+  defaultPolicy: { optimizeFor: 'capability' },
+  policies: {
+    'semantic_feature_extraction': { optimizeFor: 'cost' },
+    'normalize-single': { optimizeFor: 'cost' },
+    'normalize-many': { optimizeFor: 'cost' },
+    'analyze-logical-stmt': { optimizeFor: 'cost' },
+    'query-contradiction': { optimizeFor: 'cost' },
+    'plan-query-decomposition': { optimizeFor: 'capability' }
+  }
+};
+
+export class ModelRouter {
+  private readonly providers: LLMProvider[];
+  private readonly config: Required<RoutingConfig>;
+
+  constructor(providers: LLMProvider[], config: RoutingConfig = {}) {
+    this.providers = providers;
+    this.config = {
+      defaultPolicy: { ...DEFAULT_ROUTING_CONFIG.defaultPolicy, ...config.defaultPolicy },
+      policies: { ...DEFAULT_ROUTING_CONFIG.policies, ...config.policies }
+    };
+  }
+
+  /**
+   * Whether calls with this purpose are routed by their own policy
+   */
+  hasPolicy(purpose?: string): boolean {
+    return !!purpose && purpose in this.config.policies;
+  }
+
+  getPolicy(purpose?: string): RoutePolicy {
+    return (purpose && this.config.policies[purpose]) || this.config.defaultPolicy;
+  }
+
+  /**
+   * Candidate routes, best first: models meeting the policy's constraints,
+   * ranked, then its configured fallbacks
+   */
+  route(purpose?: string, options: RouteOptions = {}): ModelRoute[] {
+    const policy = this.getPolicy(purpose);
+    const providers = options.providerId
+      ? this.providers.filter(p => p.id === options.providerId)
+      : this.providers;
+
+    const matching: ModelRoute[] = [];
+    providers.forEach(provider => {
+      provider.models
+        .filter(model => this.satisfies(model, policy, options.estimatedTokens))
+        .forEach(model => matching.push({ provider, model }));
+    });
+    matching.sort((a, b) => this.compare(a, b, policy));
+
+    const fallbacks = (policy.fallbacks || [])
+      .map(ref => this.resolve(ref.providerId, ref.modelId))
+      .filter((route): route is ModelRoute => route !== null)
+      .filter(route => !options.providerId || route.provider.id === options.providerId);
+
+    // A fallback that also matched keeps its ranked position
+    const routes = [...matching];
+    fallbacks.forEach(route => {
+      if (!routes.some(r => r.provider.id === route.provider.id && r.model.id === route.model.id)) {
+        routes.push(route);
+      }
+    });
+
+    return routes;
+  }
+
+  /**
+   * Best route for the purpose
+   */
+  select(purpose?: string, options: RouteOptions = {}): ModelRoute {
+    const [best] = this.route(purpose, options);
+    if (!best) {
+      throw new LLMError(
+        `No model satisfies the routing policy for ${purpose ?? 'default'} calls`,
+        'NO_MODEL_ROUTE',
+        { purpose, policy: this.getPolicy(purpose), providerId: options.providerId },
+        false
+      );
+    }
+    return best;
+  }
+
+  /**
+   * Tokens a request may occupy in the context window
+   */
+  static estimateTokens(request: LLMRequest, tokenizer: Tokenizer = getTokenizer()): number {
+    return tokenizer.countTokens(request.systemPrompt || '') + tokenizer.countTokens(request.prompt) +
+      (request.maxTokens || 0);
+  }
+
+  // === Private helpers ===
+
+  private satisfies(model: LLMModel, policy: RoutePolicy, estimatedTokens?: number): boolean {
+    const minContext = Math.max(policy.minContextWindow ?? 0, estimatedTokens ?? 0);
+
+    return (policy.requiredCapabilities || []).every(c => model.capabilities.includes(c)) &&
+      model.contextWindow >= minContext &&
+      (policy.maxCostPerToken === undefined || model.costPerToken <= policy.maxCostPerToken) &&
+      (policy.maxLatency === undefined || model.latency <= policy.maxLatency);
+  }
+
+  private compare(a: ModelRoute, b: ModelRoute, policy: RoutePolicy): number {
+    const preferred = policy.preferProviders || [];
+    const rank = (route: ModelRoute) => {
+      const index = preferred.indexOf(route.provider.id);
+      return index === -1 ? preferred.length : index;
+    };
+
+    const byPreference = rank(a) - rank(b);
+    if (byPreference !== 0) return byPreference;
+
+    switch (policy.optimizeFor ?? 'capability') {
+      case 'cost':
+        return a.model.costPerToken - b.model.costPerToken || a.model.latency - b.model.latency;
+      case 'latency':
+        return a.model.latency - b.model.latency || a.model.costPerToken - b.model.costPerToken;
+      default:
+        return b.model.capabilities.length - a.model.capabilities.length ||
+          a.model.costPerToken - b.model.costPerToken;
+    }
+  }
+
+  private resolve(providerId: string, modelId: string): ModelRoute | null {
+    const provider = this.providers.find(p => p.id === providerId);
+    const model = provider?.models.find(m => m.id === modelId);
+    return provider && model ? { provider, model } : null;
+  }
+}
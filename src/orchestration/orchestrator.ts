@@ -8,23 +8,44 @@ import {
   OrchestrationResult,
   ConsensusRequest,
   ConsensusResult,
+  ConsensusMethod,
+  ConsensusParticipant,
+  ConsensusMethodImplementation,
+  ConsensusRound,
   Message,
   AgentCapability,
   PerformanceReport,
+  QueryPlan,
+  PlannedSubQuery,
   LLMRequest,
   LLMResponse,
   LLMProvider,
+  LLMModel,
+  EmbeddingInterface,
+  TokenUsage,
+  ContextTrimRecord,
   Config,
   ConsensusError,
   LLMError
 } from '../types/index.js';
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { Agent, AgentConfig } from '../core/agent';
+import { SemanticEncoder } from '../core/semantic/index.js';
+import { BaseLLMAdapter } from '../adapters/base-llm-adapter.js';
+import { RateLimiter, RateLimiterStats } from '../adapters/rate-limiter.js';
+import { BudgetTracker } from './budget-tracker.js';
+import { QueryPlanner } from './query-planner.js';
+import { ModelRouter } from './model-router.js';
+import { PromptBudget, fitTexts } from '../core/context-budget.js';
 
 export interface OrchestratorConfig {
   providers: LLMProvider[];
+  adapters: Map<string, BaseLLMAdapter>; // Keyed by LLMProvider.id (createAdapters keys by providerId, else adapter type)
   config: Partial<Config>;
   agentTemplates?: AgentTemplate[];
+  sharedSemanticEncoder?: boolean | SemanticEncoder; // One encoder for every agent (true builds one), so concepts map to the same columns
+  embeddingProvider?: string; // Provider whose default embedding model the encoders built here use for similarity
 }
 
 export interface AgentTemplate {
@@ -35,36 +56,53 @@ export interface AgentTemplate {
   preferredProvider?: string;
 }
 
-interface ActiveAgent {
-  agent: Agent;
+// Where an LLM call is sent and what it is charged to
+interface LLMRoute {
   provider: LLMProvider;
+  adapter: BaseLLMAdapter;
   model: string;
-  workload: number;
-  specialization: string[];
+  tokenUsage: TokenUsage; // Accumulated over the current orchestration
+  budget: BudgetTracker | null; // Budget of the current orchestration
 }
 
-interface ConsensusParticipant {
-  agent: ActiveAgent;
-  message: Message;
-  contribution: number;
+// Budget and usage record of one orchestration
+interface CallCharge {
+  budget: BudgetTracker | null;
+  tokenUsage: TokenUsage;
+}
+
+interface ActiveAgent extends LLMRoute {
+  agent: Agent;
+  templateId: string;
+  workload: number;
+  specialization: string[];
 }
 
 export class Orchestrator {
   // Configuration
   private config: Config;
   private providers: Map<string, LLMProvider>;
+  private adapters: Map<string, BaseLLMAdapter>;
+  private rateLimiters: Map<string, RateLimiter>;
+  private modelRouter: ModelRouter;
   private agentTemplates: Map<string, AgentTemplate>;
   
   // Active agents
   private activeAgents: Map<string, ActiveAgent>;
   private agentPool: Agent[];
   
+  // Shared semantic encoding, when enabled
+  private semanticEncoder: SemanticEncoder | null = null;
+  private semanticRoute: LLMRoute | null = null; // Route of an encoder built here
+  private semanticCharges = new AsyncLocalStorage<CallCharge>(); // Orchestration each encoder call is made from
+  private embeddingInterface?: EmbeddingInterface;
+  
   // Performance tracking
   private orchestrationHistory: OrchestrationResult[];
   private performanceMetrics: Map<string, number[]>;
   
   // Consensus mechanisms
-  private consensusMethods: Map<string, ConsensusMethod>;
+  private consensusMethods: Map<string, ConsensusMethodImplementation>;
 
   constructor(config: OrchestratorConfig) {
     this.config = this.mergeWithDefaults(config.config);
@@ -75,6 +113,30 @@ export class Orchestrator {
       this.providers.set(provider.id, provider);
     });
     
+    // Every provider must be backed by a real adapter
+    this.adapters = new Map(config.adapters);
+    this.providers.forEach(provider => {
+      if (!this.adapters.has(provider.id)) {
+        throw new LLMError(
+          `No adapter registered for provider: ${provider.id}`,
+          'ADAPTER_NOT_FOUND',
+          { providerId: provider.id, registered: Array.from(this.adapters.keys()) },
+          false
+        );
+      }
+    });
+    
+    // One scheduler per provider, shared by every agent routed to it
+    this.rateLimiters = new Map();
+    this.providers.forEach(provider => {
+      const rateLimiter = new RateLimiter(provider.rateLimit);
+      this.rateLimiters.set(provider.id, rateLimiter);
+      this.adapters.get(provider.id)!.setRateLimiter(rateLimiter);
+    });
+    
+    // Models are chosen per call purpose
+    this.modelRouter = new ModelRouter(config.providers, this.config.routing);
+    
     // Initialize agent templates
     this.agentTemplates = new Map();
     const templates = config.agentTemplates || this.getDefaultTemplates();
@@ -85,6 +147,19 @@ export class Orchestrator {
     // Initialize agent management
     this.activeAgents = new Map();
     this.agentPool = [];
+    if (config.embeddingProvider) {
+      const adapter = this.adapters.get(config.embeddingProvider);
+      if (!adapter) {
+        throw new LLMError(
+          `No adapter registered for embedding provider: ${config.embeddingProvider}`,
+          'ADAPTER_NOT_FOUND',
+          { providerId: config.embeddingProvider, registered: Array.from(this.adapters.keys()) },
+          false
+        );
+      }
+      this.embeddingInterface = this.createEmbeddingInterface(adapter);
+    }
+    this.initializeSemanticEncoder(config.sharedSemanticEncoder);
     
     // Initialize tracking
     this.orchestrationHistory = [];
@@ -101,49 +176,15 @@ export class Orchestrator {
   async orchestrate(request: OrchestrationRequest): Promise<OrchestrationResult> {
     const startTime = Date.now();
     const orchestrationId = this.generateId('orchestration');
+    const budget = new BudgetTracker(request.constraints);
+    const planningUsage = this.createEmptyUsage();
     
     try {
-      // 1. Analyze request complexity
-      const complexity = await this.analyzeRequestComplexity(request);
-      
-      // 2. Spawn appropriate agents
-      const agents = await this.spawnAgents(request, complexity);
-      
-      // 3. Distribute work to agents
-      const agentMessages = await this.distributeWork(agents, request);
-      
-      // 4. Build consensus
-      const consensus = await this.buildConsensus(agentMessages, request);
-      
-      // 5. Synthesize final response
-      const response = await this.synthesizeResponse(consensus, agentMessages);
-      
-      // 6. Generate performance report
-      const performance = this.generatePerformanceReport(
-        startTime,
-        agents,
-        consensus
+      // Shared encoding serves every agent, so it is charged alongside planning
+      return await this.semanticCharges.run(
+        { budget, tokenUsage: planningUsage },
+        () => this.runOrchestration(request, startTime, budget, planningUsage)
       );
-      
-      // 7. Create result
-      const result: OrchestrationResult = {
-        response: response.content,
-        confidence: response.confidence,
-        reasoning: response.reasoning,
-        evidence: response.evidence,
-        consensus: consensus,
-        performance: performance,
-        predictions: response.predictions
-      };
-      
-      // 8. Update tracking
-      this.updateTracking(result);
-      
-      // 9. Adapt orchestration strategy
-      await this.adaptOrchestration(result, request);
-      
-      return result;
-      
     } catch (error) {
       throw new LLMError(
         `Orchestration failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -151,11 +192,102 @@ export class Orchestrator {
         { orchestrationId, request, error }
       );
     } finally {
+      budget.dispose();
+      
       // Clean up agents if needed
       await this.cleanupAgents(request);
     }
   }
 
+  private async runOrchestration(
+    request: OrchestrationRequest,
+    startTime: number,
+    budget: BudgetTracker,
+    planningUsage: TokenUsage
+  ): Promise<OrchestrationResult> {
+    // 1. Analyze request complexity
+    const complexity = await this.analyzeRequestComplexity(request);
+    
+    // 2. Split the query into a plan of sub-questions
+    const plan = await this.planQuery(request, complexity, budget, planningUsage);
+    
+    // 3. Spawn agents to cover the plan
+    const agents = await this.spawnAgents(request, complexity, budget, plan);
+    
+    // 4. Run the plan, prerequisites first
+    const agentMessages = await this.distributeWork(agents, request, plan, budget);
+    
+    // 5. Build consensus, deliberating over further rounds if configured
+    const { consensus, participants } = await this.buildConsensus(agentMessages, agents, request, budget);
+    
+    // 6. Synthesize final response from the final positions
+    const response = await this.synthesizeResponse(consensus, participants);
+    
+    // 7. Generate performance report
+    const performance = this.generatePerformanceReport(
+      startTime,
+      agents,
+      consensus,
+      planningUsage
+    );
+    
+    // 8. Create result
+    const result: OrchestrationResult = {
+      response: response.content,
+      confidence: response.confidence,
+      reasoning: response.reasoning,
+      evidence: response.evidence,
+      consensus: consensus,
+      performance: performance,
+      predictions: response.predictions,
+      budget: budget.getReport(),
+      plan
+    };
+    
+    // 9. Update tracking
+    this.updateTracking(result);
+    
+    // 10. Adapt orchestration strategy
+    await this.adaptOrchestration(result, request);
+    
+    return result;
+  }
+
+  /**
+   * Register a consensus method under name, replacing any method already registered there.
+   * Select it with Config.consensus.defaultMethod.
+   */
+  registerConsensusMethod(name: string, implementation: ConsensusMethodImplementation): void {
+    if (!name) {
+      throw new LLMError(
+        'Consensus method name must not be empty',
+        'INVALID_CONSENSUS_METHOD',
+        { registered: this.getConsensusMethods() },
+        false
+      );
+    }
+    
+    this.consensusMethods.set(name, implementation);
+  }
+
+  /**
+   * Names of all registered consensus methods, built-ins first
+   */
+  getConsensusMethods(): string[] {
+    return Array.from(this.consensusMethods.keys());
+  }
+
+  /**
+   * Queue and budget state of each provider's rate limiter
+   */
+  getRateLimiterStats(): Map<string, RateLimiterStats> {
+    const stats = new Map<string, RateLimiterStats>();
+    this.rateLimiters.forEach((rateLimiter, providerId) => {
+      stats.set(providerId, rateLimiter.getStats());
+    });
+    return stats;
+  }
+
   /**
    * Analyze request complexity to determine agent requirements
    */
@@ -200,7 +332,9 @@ export class Orchestrator {
    */
   private async spawnAgents(
     request: OrchestrationRequest,
-    complexity: RequestComplexity
+    complexity: RequestComplexity,
+    budget: BudgetTracker,
+    plan: QueryPlan
   ): Promise<ActiveAgent[]> {
     const agents: ActiveAgent[] = [];
     
@@ -208,20 +342,47 @@ export class Orchestrator {
     const reusableAgents = this.findReusableAgents(complexity.requiredCapabilities);
     agents.push(...reusableAgents);
     
+    // Cost the work already committed to before adding more
+    let projectedCost = agents.reduce((sum, agent) =>
+      sum + this.estimateAgentCost(agent.specialization.length, agent.provider, agent.model, request, budget), 0);
+    
     // Spawn new agents as needed
     const additionalNeeded = complexity.recommendedAgentCount - agents.length;
     
     for (let i = 0; i < additionalNeeded; i++) {
-      const template = this.selectAgentTemplate(complexity.requiredCapabilities, agents);
-      const agent = await this.createAgent(template, request);
+      // Cover the templates the plan asks for first
+      const uncovered = plan.subQueries.find(sq =>
+        this.agentTemplates.has(sq.templateId) && !agents.some(agent => agent.templateId === sq.templateId)
+      );
+      const template = uncovered
+        ? this.agentTemplates.get(uncovered.templateId)!
+        : this.selectAgentTemplate(complexity.requiredCapabilities, agents);
       const provider = this.selectProvider(template);
+      const model = this.selectModel(provider);
+      const agentCost = this.estimateAgentCost(template.capabilities.length, provider, model, request, budget);
+      
+      // Stop spawning once the budget cannot cover another agent (always keep at least one)
+      if (agents.length > 0 && (budget.isLow() || !budget.canAfford(projectedCost + agentCost))) {
+        budget.truncate(budget.getLimitingReason());
+        for (let skipped = i; skipped < additionalNeeded; skipped++) {
+          budget.recordSkippedAgent();
+        }
+        break;
+      }
+      
+      const agent = await this.createAgent(template, request);
+      projectedCost += agentCost;
       
       const activeAgent: ActiveAgent = {
         agent,
         provider,
-        model: this.selectModel(provider, template),
+        adapter: this.adapters.get(provider.id)!,
+        model,
+        templateId: template.id,
         workload: 0,
-        specialization: template.capabilities.map(c => c.id)
+        specialization: template.capabilities.map(c => c.id),
+        tokenUsage: this.createEmptyUsage(),
+        budget: null
       };
       
       agents.push(activeAgent);
@@ -232,54 +393,161 @@ export class Orchestrator {
   }
 
   /**
-   * Distribute work to agents with load balancing
+   * Split the query into sub-questions with an LLM, routed like an integrator agent's calls
+   */
+  private async planQuery(
+    request: OrchestrationRequest,
+    complexity: RequestComplexity,
+    budget: BudgetTracker,
+    usage: TokenUsage
+  ): Promise<QueryPlan> {
+    const templates = Array.from(this.agentTemplates.values());
+    const plannerTemplate = this.agentTemplates.get('integrator') ?? templates[0];
+    const provider = this.selectProvider(plannerTemplate);
+    
+    const route: LLMRoute = {
+      provider,
+      adapter: this.adapters.get(provider.id)!,
+      model: this.selectModel(provider),
+      tokenUsage: usage,
+      budget
+    };
+    
+    const planner = new QueryPlanner(this.createLLMInterface(route), route.model);
+    return planner.plan(
+      request.query,
+      templates.map(t => ({ id: t.id, description: t.description })),
+      complexity.recommendedAgentCount
+    );
+  }
+
+  /**
+   * Run the plan level by level. Each sub-query goes to an agent of its template and
+   * sees its prerequisites' answers; agents left without one answer the full query.
    */
   private async distributeWork(
     agents: ActiveAgent[],
-    request: OrchestrationRequest
+    request: OrchestrationRequest,
+    plan: QueryPlan,
+    budget: BudgetTracker
   ): Promise<ConsensusParticipant[]> {
     const participants: ConsensusParticipant[] = [];
     
-    // Create sub-queries based on agent specializations
-    const subQueries = this.decomposeQuery(request.query, agents);
+    // Start usage accounting fresh for this orchestration
+    agents.forEach(agent => {
+      agent.tokenUsage = this.createEmptyUsage();
+      agent.budget = budget;
+    });
     
-    // Assign work to agents
-    const promises = agents.map(async (activeAgent, index) => {
-      const subQuery = subQueries[index % subQueries.length];
+    const assignments = this.assignSubQueries(plan, agents);
+    const subQueries = new Map(plan.subQueries.map(sq => [sq.id, sq]));
+    const answers = new Map<string, Message>();
+    const latestMessages = new Map<ActiveAgent, Message>();
+    const latestQuestions = new Map<ActiveAgent, string>();
+    const latestContexts = new Map<ActiveAgent, any>();
+    
+    const answer = async (activeAgent: ActiveAgent, question: string, context: any): Promise<Message> => {
+      // Earlier answers share the agent's context window with everything else
+      const promptBudget = this.getPromptBudget(activeAgent);
+      const fitted = this.fitPrerequisites(context.prerequisites, promptBudget);
       
-      // Create LLM interface for this agent
-      const llmInterface = this.createLLMInterface(activeAgent);
+      // Process query, giving up on it at the deadline
+      const agentContext = { ...context, prerequisites: fitted.prerequisites };
+      const message = await budget.guard(activeAgent.agent.processQuery(
+        question,
+        { ...request.context, ...agentContext },
+        this.createLLMInterface(activeAgent),
+        promptBudget
+      ));
       
-      // Process query
-      const message = await activeAgent.agent.processQuery(
-        subQuery.query,
-        {
-          ...request.context,
-          subQueryContext: subQuery.context
-        },
-        llmInterface
-      );
+      if (fitted.trimming) {
+        message.metadata.contextTrimming = [fitted.trimming, ...(message.metadata.contextTrimming || [])];
+      }
       
       // Update workload
       activeAgent.workload++;
+      latestMessages.set(activeAgent, message);
+      latestQuestions.set(activeAgent, question);
+      latestContexts.set(activeAgent, agentContext);
+      return message;
+    };
+    
+    for (const level of plan.levels) {
+      if (budget.signal.aborted) break;
       
-      return {
-        agent: activeAgent,
-        message,
-        contribution: this.assessContribution(message, request)
-      };
-    });
+      // Agents work in parallel; one agent's sub-queries in a level run in turn
+      const byAgent = new Map<ActiveAgent, PlannedSubQuery[]>();
+      level.forEach(id => {
+        const agent = assignments.get(id)!;
+        byAgent.set(agent, [...(byAgent.get(agent) || []), subQueries.get(id)!]);
+      });
+      
+      await this.prefetchSemanticFeatures(byAgent, budget);
+      
+      await Promise.allSettled(Array.from(byAgent.entries()).map(async ([activeAgent, queue]) => {
+        for (const subQuery of queue) {
+          try {
+            const message = await answer(activeAgent, subQuery.question, {
+              subQuery: {
+                id: subQuery.id,
+                type: subQuery.templateId,
+                originalQuery: request.query
+              },
+              prerequisites: subQuery.dependsOn.map(dep => this.describeAnswer(subQueries.get(dep)!, answers.get(dep)))
+            });
+            answers.set(subQuery.id, message);
+            subQuery.status = 'completed';
+          } catch (error) {
+            subQuery.status = 'failed';
+          }
+        }
+      }));
+    }
     
-    // Wait for all agents with timeout
-    const results = await Promise.allSettled(promises);
+    plan.subQueries.forEach(sq => {
+      if (sq.status === 'pending') sq.status = 'skipped';
+    });
     
-    // Collect successful results
-    results.forEach(result => {
-      if (result.status === 'fulfilled') {
-        participants.push(result.value);
+    // Agents without a sub-query answer the whole question, informed by every answer so far
+    const idleAgents = agents.filter(agent => !latestMessages.has(agent) &&
+      !plan.subQueries.some(sq => sq.assignedAgentId === agent.agent.getId()));
+    
+    await Promise.allSettled(idleAgents.map(activeAgent => answer(activeAgent, request.query, {
+      subQueryContext: { focus: activeAgent.specialization },
+      prerequisites: plan.subQueries
+        .filter(sq => answers.has(sq.id))
+        .map(sq => this.describeAnswer(sq, answers.get(sq.id)))
+    })));
+    
+    // Each agent takes part with its latest answer
+    agents.forEach(activeAgent => {
+      const message = latestMessages.get(activeAgent);
+      if (message) {
+        const question = latestQuestions.get(activeAgent);
+        participants.push({
+          agentId: activeAgent.agent.getId(),
+          capabilities: activeAgent.specialization,
+          message,
+          contribution: this.assessContribution(message, request),
+          question: question !== request.query ? question : undefined,
+          context: latestContexts.get(activeAgent)
+        });
       }
     });
     
+    // A budget-truncated run continues with whatever finished
+    if (budget.isTruncated()) {
+      if (participants.length === 0) {
+        throw new LLMError(
+          'Budget exhausted before any agent finished',
+          'BUDGET_EXHAUSTED',
+          { budget: budget.getReport() },
+          false
+        );
+      }
+      return participants;
+    }
+    
     if (participants.length < this.config.consensus.minParticipants) {
       throw new ConsensusError(
         `Insufficient participants: ${participants.length} < ${this.config.consensus.minParticipants}`,
@@ -294,9 +562,13 @@ export class Orchestrator {
    * Build  consensus from agent messages
    */
   private async buildConsensus(
-    participants: ConsensusParticipant[],
-    request: OrchestrationRequest
-  ): Promise<ConsensusResult> {
+    initialParticipants: ConsensusParticipant[],
+    agents: ActiveAgent[],
+    request: OrchestrationRequest,
+    budget: BudgetTracker
+  ): Promise<DeliberationOutcome> {
+    let participants = initialParticipants;
+    
     // Select consensus method based on configuration and context
     const method = this.selectConsensusMethod(participants, request);
     const consensusMethod = this.consensusMethods.get(method);
@@ -321,10 +593,36 @@ export class Orchestrator {
     };
     
     // Execute consensus method
-    const result = await consensusMethod.execute(participants, consensusRequest);
+    let result = await consensusMethod.execute(participants, consensusRequest);
+    const rounds: ConsensusRound[] = [this.recordRound(1, result, null)];
+    
+    // Deliberate: agents see each other's positions and revise until they settle
+    const maxRounds = this.config.consensus.maxRounds ?? 1;
+    const convergenceThreshold = this.config.consensus.convergenceThreshold ?? 0.02;
+    
+    while (
+      rounds.length < maxRounds &&
+      Date.now() < consensusRequest.deadline.getTime() &&
+      !budget.isLow()
+    ) {
+      const revised = await this.runDeliberationRound(participants, result, agents, request, rounds.length + 1, budget);
+      const next = await consensusMethod.execute(revised, consensusRequest);
+      const round = this.recordRound(rounds.length + 1, next, rounds[rounds.length - 1]);
+      rounds.push(round);
+      
+      const confidenceChange = Math.abs(next.confidence.mean - result.confidence.mean);
+      participants = revised;
+      result = next;
+      
+      if (round.changedPositions === 0 || confidenceChange < convergenceThreshold) {
+        break;
+      }
+    }
     
-    // Validate consensus quality
-    if (result.confidence.mean < consensusRequest.constraints.consensusThreshold) {
+    result.rounds = rounds;
+    
+    // Validate consensus quality (a truncated run returns what it has, flagged as such)
+    if (!budget.isTruncated() && result.confidence.mean < consensusRequest.constraints.consensusThreshold) {
       throw new ConsensusError(
         `Consensus quality below threshold: ${result.confidence.mean} < ${consensusRequest.constraints.consensusThreshold}`,
         request.query,
@@ -332,7 +630,99 @@ export class Orchestrator {
       );
     }
     
-    return result;
+    return { consensus: result, participants };
+  }
+
+  /**
+   * Give every agent the other agents' conclusions and dissent, and have it answer
+   * its own question again, with the sub-query and prerequisite answers it had the
+   * first time. An agent that fails to answer keeps its previous position.
+   */
+  private async runDeliberationRound(
+    participants: ConsensusParticipant[],
+    previous: ConsensusResult,
+    agents: ActiveAgent[],
+    request: OrchestrationRequest,
+    round: number,
+    budget: BudgetTracker
+  ): Promise<ConsensusParticipant[]> {
+    const votes = new Map(previous.participants.map(p => [p.agentId, p]));
+    
+    const results = await Promise.allSettled(participants.map(async participant => {
+      const activeAgent = agents.find(a => a.agent.getId() === participant.agentId);
+      if (!activeAgent) {
+        return participant;
+      }
+      
+      const deliberation = {
+        round,
+        instructions: 'Other agents reached the conclusions below. Revise your reasoning if persuaded, ' +
+          'rebut positions you disagree with, or concede to the current consensus.',
+        yourPreviousPosition: votes.get(participant.agentId)?.vote,
+        currentConsensus: previous.consensus,
+        otherPositions: previous.participants
+          .filter(p => p.agentId !== participant.agentId)
+          .map(p => ({ agentId: p.agentId, position: p.vote, confidence: p.confidence })),
+        dissent: previous.dissent.filter(d => d.agentId !== participant.agentId)
+      };
+      
+      // The question and its context are the ones answered before, so the agent
+      // does not learn from them again
+      const message = await budget.guard(activeAgent.agent.processQuery(
+        participant.question ?? request.query,
+        { ...request.context, ...participant.context, deliberation },
+        this.createLLMInterface(activeAgent),
+        this.getPromptBudget(activeAgent)
+      ));
+      
+      activeAgent.workload++;
+      
+      const revised: ConsensusParticipant = {
+        ...participant,
+        message,
+        contribution: this.assessContribution(message, request)
+      };
+      return revised;
+    }));
+    
+    return results.map((result, i) => result.status === 'fulfilled' ? result.value : participants[i]);
+  }
+
+  /**
+   * Snapshot the positions of one round, classifying each against the previous round
+   */
+  private recordRound(round: number, result: ConsensusResult, previous: ConsensusRound | null): ConsensusRound {
+    const previousPositions = new Map(previous?.positions.map(p => [p.agentId, p.position]) ?? []);
+    let changedPositions = 0;
+    
+    const positions = result.participants.map(p => {
+      const before = previousPositions.get(p.agentId);
+      let stance: 'initial' | 'maintained' | 'revised' | 'conceded' = 'initial';
+      
+      if (previous && before !== undefined) {
+        if (p.vote === before) {
+          stance = 'maintained';
+        } else {
+          changedPositions++;
+          stance = p.vote === previous.consensus ? 'conceded' : 'revised';
+        }
+      }
+      
+      return {
+        agentId: p.agentId,
+        position: p.vote,
+        confidence: p.confidence,
+        stance
+      };
+    });
+    
+    return {
+      round,
+      consensus: result.consensus,
+      confidence: result.confidence,
+      positions,
+      changedPositions
+    };
   }
 
   /**
@@ -382,16 +772,17 @@ export class Orchestrator {
   private generatePerformanceReport(
     startTime: number,
     agents: ActiveAgent[],
-    consensus: ConsensusResult
+    consensus: ConsensusResult,
+    planningUsage: TokenUsage
   ): PerformanceReport {
     const totalTime = Date.now() - startTime;
     
-    // Calculate token usage
-    let tokenUsage = 0;
+    // Sum actual token usage and cost reported by the adapters
+    let tokenUsage = planningUsage.totalTokens;
+    let cost = planningUsage.cost;
     agents.forEach(agent => {
-      // Estimate based on message size
-      const messageSize = JSON.stringify(agent).length;
-      tokenUsage += Math.ceil(messageSize / 4); // Rough estimate
+      tokenUsage += agent.tokenUsage.totalTokens;
+      cost += agent.tokenUsage.cost;
     });
     
     // Calculate HTM utilization
@@ -418,9 +809,10 @@ export class Orchestrator {
       totalTime,
       agentCount: agents.length,
       tokenUsage,
+      cost,
       htmUtilization,
       bayesianUpdates,
-      consensusRounds: 1 // Simplified for now
+      consensusRounds: consensus.rounds?.length ?? 1
     };
   }
 
@@ -429,24 +821,34 @@ export class Orchestrator {
    */
   private initializeConsensusMethods(): void {
     // Simple majority
-    this.consensusMethods.set('simple_majority', {
+    this.registerConsensusMethod('simple_majority', {
       execute: async (participants, request) => this.simpleMajorityConsensus(participants, request)
     });
     
     // Weighted voting
-    this.consensusMethods.set('weighted_voting', {
+    this.registerConsensusMethod('weighted_voting', {
       execute: async (participants, request) => this.weightedVotingConsensus(participants, request)
     });
     
     // Bayesian aggregation
-    this.consensusMethods.set('bayesian_aggregation', {
+    this.registerConsensusMethod('bayesian_aggregation', {
       execute: async (participants, request) => this.bayesianAggregationConsensus(participants, request)
     });
     
     // Game theoretic
-    this.consensusMethods.set('game_theoretic', {
+    this.registerConsensusMethod('game_theoretic', {
       execute: async (participants, request) => this.gameTheoreticConsensus(participants, request)
     });
+    
+    // Borda count over extracted positions
+    this.registerConsensusMethod('borda_count', {
+      execute: async (participants, request) => this.bordaCountConsensus(participants, request)
+    });
+    
+    // Delphi-style iterative convergence
+    this.registerConsensusMethod('delphi', {
+      execute: async (participants, request) => this.delphiConsensus(participants, request)
+    });
   }
 
   /**
@@ -489,8 +891,8 @@ export class Orchestrator {
       consensus: majorityPosition,
       confidence,
       participants: participants.map(p => ({
-        agentId: p.agent.agent.getId(),
-        capabilities: p.agent.specialization,
+        agentId: p.agentId,
+        capabilities: p.capabilities,
         contribution: p.contribution,
         vote: this.extractPosition(p.message),
         confidence: p.message.content.reasoning.confidence.mean
@@ -544,8 +946,8 @@ export class Orchestrator {
       consensus: bestPosition,
       confidence,
       participants: participants.map(p => ({
-        agentId: p.agent.agent.getId(),
-        capabilities: p.agent.specialization,
+        agentId: p.agentId,
+        capabilities: p.capabilities,
         contribution: p.contribution,
         vote: this.extractPosition(p.message),
         confidence: p.message.content.reasoning.confidence.mean
@@ -598,8 +1000,8 @@ export class Orchestrator {
       consensus,
       confidence,
       participants: participants.map(p => ({
-        agentId: p.agent.agent.getId(),
-        capabilities: p.agent.specialization,
+        agentId: p.agentId,
+        capabilities: p.capabilities,
         contribution: p.contribution,
         vote: this.extractPosition(p.message),
         confidence: p.message.content.reasoning.confidence.mean
@@ -643,8 +1045,8 @@ export class Orchestrator {
       consensus,
       confidence,
       participants: participants.map(p => ({
-        agentId: p.agent.agent.getId(),
-        capabilities: p.agent.specialization,
+        agentId: p.agentId,
+        capabilities: p.capabilities,
         contribution: p.contribution,
         vote: this.extractPosition(p.message),
         confidence: p.message.content.reasoning.confidence.mean
@@ -655,6 +1057,143 @@ export class Orchestrator {
     };
   }
 
+  /**
+   * Borda count consensus: every participant ranks all extracted positions,
+   * its own first and the rest by how closely they match its reasoning
+   */
+  private async bordaCountConsensus(
+    participants: ConsensusParticipant[],
+    request: ConsensusRequest
+  ): Promise<ConsensusResult> {
+    const candidates = this.extractStrategies(participants);
+    const points = new Map<string, number>(candidates.map(c => [c, 0]));
+    
+    participants.forEach(p => {
+      this.rankPositions(p, candidates).forEach((candidate, rank) => {
+        points.set(candidate, points.get(candidate)! + candidates.length - 1 - rank);
+      });
+    });
+    
+    // Highest score wins; candidates are in first-seen order, so ties go to the earliest position
+    let winner = candidates[0];
+    candidates.forEach(candidate => {
+      if (points.get(candidate)! > points.get(winner)!) {
+        winner = candidate;
+      }
+    });
+    
+    // Share of the maximum possible score; a single position is unanimous
+    const maxPoints = participants.length * (candidates.length - 1);
+    const mean = maxPoints > 0 ? points.get(winner)! / maxPoints : 1;
+    
+    // Spread across participants of the winner's normalized rank
+    const winnerScores = participants.map(p => {
+      const rank = this.rankPositions(p, candidates).indexOf(winner);
+      return candidates.length > 1 ? 1 - rank / (candidates.length - 1) : 1;
+    });
+    
+    const confidence = {
+      mean,
+      lower: Math.min(mean, ...winnerScores),
+      upper: Math.max(mean, ...winnerScores),
+      method: 'normal' as const
+    };
+    
+    return {
+      id: this.generateId('consensus'),
+      requestId: request.id,
+      consensus: winner,
+      confidence,
+      participants: participants.map(p => ({
+        agentId: p.agentId,
+        capabilities: p.capabilities,
+        contribution: p.contribution,
+        vote: this.extractPosition(p.message),
+        confidence: p.message.content.reasoning.confidence.mean
+      })),
+      dissent: this.extractDissent(participants, winner),
+      method: 'borda_count',
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Delphi-style consensus: participants hold a distribution over positions and,
+   * round by round, see the anonymous group aggregate and revise toward it in
+   * proportion to their own uncertainty, until the group agrees or stops moving
+   */
+  private async delphiConsensus(
+    participants: ConsensusParticipant[],
+    request: ConsensusRequest
+  ): Promise<ConsensusResult> {
+    const maxRounds = 5;
+    const stabilityThreshold = 0.01;
+    const candidates = this.extractStrategies(participants);
+    
+    // Initial estimates: own position weighted by confidence, the rest shared by similarity
+    let estimates = participants.map(p => this.initialDelphiEstimate(p, candidates));
+    let group = this.aggregateDelphiEstimates(estimates, participants);
+    
+    for (let round = 0; round < maxRounds; round++) {
+      if (Math.max(...group) >= request.constraints.consensusThreshold) {
+        break;
+      }
+      
+      // Confident participants hold their ground, uncertain ones move toward the group
+      estimates = estimates.map((estimate, i) => {
+        const openness = Math.min(0.9, Math.max(0.1, 1 - participants[i].message.content.reasoning.confidence.mean));
+        return estimate.map((value, c) => (1 - openness) * value + openness * group[c]);
+      });
+      
+      const revised = this.aggregateDelphiEstimates(estimates, participants);
+      const change = Math.max(...revised.map((value, c) => Math.abs(value - group[c])));
+      group = revised;
+      
+      if (change < stabilityThreshold) {
+        break;
+      }
+    }
+    
+    const winnerIndex = group.indexOf(Math.max(...group));
+    const winner = candidates[winnerIndex];
+    const support = estimates.map(estimate => estimate[winnerIndex]);
+    
+    const confidence = {
+      mean: group[winnerIndex],
+      lower: Math.min(...support),
+      upper: Math.max(...support),
+      method: 'normal' as const
+    };
+    
+    // Final votes are each participant's revised favourite
+    const finalVotes = estimates.map(estimate => candidates[estimate.indexOf(Math.max(...estimate))]);
+    
+    return {
+      id: this.generateId('consensus'),
+      requestId: request.id,
+      consensus: winner,
+      confidence,
+      participants: participants.map((p, i) => ({
+        agentId: p.agentId,
+        capabilities: p.capabilities,
+        contribution: p.contribution,
+        vote: finalVotes[i],
+        confidence: estimates[i][estimates[i].indexOf(Math.max(...estimates[i]))]
+      })),
+      dissent: participants
+        .map((p, i) => ({ p, i }))
+        .filter(({ i }) => finalVotes[i] !== winner)
+        .map(({ p, i }) => ({
+          agentId: p.agentId,
+          position: finalVotes[i],
+          reasoning: p.message.content.reasoning.steps.slice(-3).map(s => s.content).join(' '),
+          confidence: estimates[i][candidates.indexOf(finalVotes[i])]
+        })),
+      method: 'delphi',
+      timestamp: new Date()
+    };
+  }
+
   // === Helper Methods ===
 
   private mergeWithDefaults(config: Partial<Config>): Config {
@@ -687,6 +1226,8 @@ export class Orchestrator {
         timeoutMs: 30000,
         minParticipants: 3,
         qualityThreshold: 0.7,
+        maxRounds: 1,
+        convergenceThreshold: 0.02,
         ...config.consensus
       },
       performance: {
@@ -696,7 +1237,8 @@ export class Orchestrator {
         memoryLimit: 1024 * 1024 * 1024,
         adaptiveOptimization: true,
         ...config.performance
-      }
+      },
+      routing: config.routing
     };
   }
 
@@ -958,11 +1500,70 @@ export class Orchestrator {
       name: `${template.name}_${Date.now()}`,
       description: template.description,
       initialCapabilities: template.capabilities,
-      config: this.config
+      config: this.config,
+      semanticEncoder: this.semanticEncoder ?? undefined,
+      embeddingInterface: this.embeddingInterface
     };
     
     return new Agent(config);
   }
+  
+  /**
+   * Set up the encoder shared by all agents. Their HTM regions get one seed too,
+   * so equal encodings activate the same columns in every agent.
+   */
+  private initializeSemanticEncoder(shared: boolean | SemanticEncoder | undefined): void {
+    if (!shared) return;
+    
+    this.config = { ...this.config, htm: { ...this.config.htm, seed: this.config.htm.seed ?? Date.now() } };
+    
+    if (shared instanceof SemanticEncoder) {
+      this.semanticEncoder = shared;
+      return;
+    }
+    
+    const templates = Array.from(this.agentTemplates.values());
+    const provider = this.selectProvider(this.agentTemplates.get('integrator') ?? templates[0]);
+    this.semanticRoute = {
+      provider,
+      adapter: this.adapters.get(provider.id)!,
+      model: this.selectModel(provider),
+      tokenUsage: this.createEmptyUsage(),
+      budget: null
+    };
+    this.semanticEncoder = Agent.createSemanticEncoder(
+      this.createLLMInterface(this.semanticRoute),
+      this.config,
+      this.embeddingInterface
+    );
+  }
+  
+  /**
+   * Extract the semantic features of a level's questions in one batch per
+   * encoder. Failures are left for each agent's own encoding to handle.
+   */
+  private async prefetchSemanticFeatures(
+    byAgent: Map<ActiveAgent, PlannedSubQuery[]>,
+    budget: BudgetTracker
+  ): Promise<void> {
+    const queues = Array.from(byAgent.entries());
+    const batches = this.semanticEncoder
+      ? [this.semanticEncoder.prefetchFeatures(
+          ([] as string[]).concat(...queues.map(([, queue]) => queue.map(sq => sq.question))))]
+      : queues.map(([activeAgent, queue]) => activeAgent.agent.prefetchSemanticFeatures(
+          queue.map(sq => sq.question),
+          this.createLLMInterface(activeAgent)
+        ));
+    
+    await Promise.allSettled(batches.map(batch => budget.guard(batch)));
+  }
+  
+  /**
+   * The encoder shared by all agents, or null when each agent has its own
+   */
+  getSemanticEncoder(): SemanticEncoder | null {
+    return this.semanticEncoder;
+  }
 
   private selectProvider(template: AgentTemplate): LLMProvider {
     if (template.preferredProvider) {
@@ -997,53 +1598,297 @@ export class Orchestrator {
     return load;
   }
 
-  private selectModel(provider: LLMProvider, template: AgentTemplate): string {
-    // Select most capable model within cost constraints
-    const models = provider.models.sort((a, b) =>
-      b.capabilities.length - a.capabilities.length
-    );
-    
-    return models[0]?.id || 'default';
+  /**
+   * The provider's best model under the default routing policy
+   */
+  private selectModel(provider: LLMProvider): string {
+    const [route] = this.modelRouter.route(undefined, { providerId: provider.id });
+    return route?.model.id || provider.models[0]?.id || 'default';
   }
 
-  private decomposeQuery(query: string, agents: ActiveAgent[]): any[] {
-    // Simple decomposition - in production would be more 
-    const subQueries: any[] = [];
-    
-    agents.forEach((agent, index) => {
-      subQueries.push({
-        query: query,
-        context: {
-          focus: agent.specialization,
-          agentIndex: index,
-          totalAgents: agents.length
-        }
-      });
+  /**
+   * Give each sub-query to the least loaded agent of its template, or the least loaded agent overall
+   */
+  private assignSubQueries(plan: QueryPlan, agents: ActiveAgent[]): Map<string, ActiveAgent> {
+    const assignments = new Map<string, ActiveAgent>();
+    const load = new Map<ActiveAgent, number>(agents.map(agent => [agent, 0]));
+    const leastLoaded = (candidates: ActiveAgent[]) =>
+      candidates.reduce((best, agent) => load.get(agent)! < load.get(best)! ? agent : best);
+    
+    plan.levels.flat().forEach(id => {
+      const subQuery = plan.subQueries.find(sq => sq.id === id)!;
+      const matching = agents.filter(agent => agent.templateId === subQuery.templateId);
+      const agent = leastLoaded(matching.length > 0 ? matching : agents);
+      
+      assignments.set(id, agent);
+      load.set(agent, load.get(agent)! + 1);
+      subQuery.assignedAgentId = agent.agent.getId();
     });
     
-    return subQueries;
+    return assignments;
+  }
+
+  private describeAnswer(subQuery: PlannedSubQuery, message: Message | undefined): any {
+    return {
+      id: subQuery.id,
+      question: subQuery.question,
+      answer: message ? this.extractPosition(message) : 'unavailable',
+      confidence: message?.content.reasoning.confidence.mean ?? 0
+    };
   }
 
-  private createLLMInterface(activeAgent: ActiveAgent): (request: LLMRequest) => Promise<LLMResponse> {
+  /**
+   * Context window and tokenizer to fit an agent's reasoning prompts to: those of the
+   * smallest model routeCall may send them to, so they fit whichever one answers
+   */
+  private getPromptBudget(route: LLMRoute): PromptBudget | undefined {
+    const probe: LLMRequest = {
+      prompt: '',
+      systemPrompt: '',
+      temperature: 0,
+      maxTokens: 0,
+      metadata: { purpose: REASONING_PURPOSE }
+    };
+    
+    let smallest: { provider: LLMProvider; model: LLMModel } | null = null;
+    for (const candidate of this.routeCall(route, probe)) {
+      const model = this.findModel(candidate.provider, candidate.modelId);
+      if (model && (!smallest || model.contextWindow < smallest.model.contextWindow)) {
+        smallest = { provider: candidate.provider, model };
+      }
+    }
+    if (!smallest) return undefined;
+    
+    return {
+      contextWindow: smallest.model.contextWindow,
+      tokenizer: this.adapters.get(smallest.provider.id)!.getTokenizer(smallest.model.id)
+    };
+  }
+  
+  /**
+   * Truncate prerequisite answers so together they take at most a share of the context window
+   */
+  private fitPrerequisites(
+    prerequisites: any[],
+    promptBudget: PromptBudget | undefined
+  ): { prerequisites: any[]; trimming?: ContextTrimRecord } {
+    if (!promptBudget || prerequisites.length === 0) {
+      return { prerequisites };
+    }
+    
+    const { tokenizer } = promptBudget;
+    const budgetTokens = Math.floor(promptBudget.contextWindow * PREREQUISITE_CONTEXT_SHARE);
+    const originalTokens = tokenizer.countTokens(JSON.stringify(prerequisites, null, 2));
+    if (originalTokens <= budgetTokens) {
+      return { prerequisites };
+    }
+    
+    // The answers get whatever the ids, questions and confidences leave
+    const frameTokens = tokenizer.countTokens(JSON.stringify(prerequisites.map(p => ({ ...p, answer: '' })), null, 2));
+    const fitted = fitTexts(prerequisites.map(p => String(p.answer)), tokenizer, budgetTokens - frameTokens);
+    const trimmed = prerequisites.map((p, i) => ({ ...p, answer: fitted.texts[i] }));
+    
+    return {
+      prerequisites: trimmed,
+      trimming: {
+        stage: 'orchestrator:prerequisites',
+        budgetTokens,
+        originalTokens,
+        finalTokens: tokenizer.countTokens(JSON.stringify(trimmed, null, 2)),
+        actions: fitted.truncated.map(i => `truncated answer to ${prerequisites[i].id}`)
+      }
+    };
+  }
+  
+  private createLLMInterface(route: LLMRoute | ActiveAgent): (request: LLMRequest) => Promise<LLMResponse> {
     return async (request: LLMRequest) => {
-      // Simulate LLM call - in production would use actual provider API
-      const response: LLMResponse = {
-        content: `Response from ${activeAgent.agent.getName()} using ${activeAgent.model}: ${request.prompt}`,
-        model: activeAgent.model,
-        usage: {
-          promptTokens: Math.ceil(request.prompt.length / 4),
-          completionTokens: 100,
-          totalTokens: Math.ceil(request.prompt.length / 4) + 100,
-          cost: 0.01
-        },
-        latency: Math.random() * 1000 + 500,
-        metadata: { agentId: activeAgent.agent.getId() }
-      };
+      // Read at call time: pooled agents keep their first interface across orchestrations
+      const { budget, tokenUsage } = this.chargeFor(route);
+      let lastError: unknown;
+      let delivered = false;
+      const onToken = request.onToken && ((token: string) => {
+        delivered = true;
+        request.onToken!(token);
+      });
+      
+      // Try each candidate in turn; usage is charged to the caller whichever serves it
+      for (const candidate of this.routeCall(route, request)) {
+        const model = this.findModel(candidate.provider, candidate.modelId);
+        const routedRequest: LLMRequest = {
+          ...request,
+          model: candidate.modelId,
+          metadata: {
+            ...request.metadata,
+            ...('agent' in route ? { agentId: route.agent.getId() } : {}),
+            providerId: candidate.provider.id
+          },
+          signal: budget?.signal ?? request.signal
+        };
+        
+        if (budget) {
+          this.checkBudget(budget, routedRequest);
+        }
+        
+        const adapter = this.adapters.get(candidate.provider.id)!;
+        let response: LLMResponse;
+        try {
+          response = onToken
+            ? await adapter.streamCompletion({ ...routedRequest, onToken: undefined }, onToken)
+            : await adapter.generateCompletion(routedRequest);
+        } catch (error) {
+          // Tokens already delivered cannot be taken back, so only fall back before the first one
+          if (delivered || !this.canFallBack(error, routedRequest)) {
+            throw error;
+          }
+          lastError = error;
+          continue;
+        }
+        
+        const cost = budget ? budget.record(response.usage, model) : response.usage.cost;
+        
+        // Accumulate real usage for the performance report
+        this.addUsage(tokenUsage, response.usage, cost);
+        
+        return response;
+      }
+      
+      throw lastError;
+    };
+  }
+
+  /**
+   * Embeddings for every encoder, shared or an agent's own. Like shared
+   * encoding, they are charged to the orchestration the call is made from and
+   * given up at its deadline.
+   */
+  private createEmbeddingInterface(adapter: BaseLLMAdapter): EmbeddingInterface {
+    return async (texts: string[]) => {
+      const charge = this.semanticCharges.getStore();
+      const response = await adapter.embed(texts, undefined, charge?.budget?.signal);
+      
+      if (charge) {
+        const cost = charge.budget ? charge.budget.record(response.usage) : response.usage.cost;
+        this.addUsage(charge.tokenUsage, response.usage, cost);
+      }
       
       return response;
     };
   }
 
+  private addUsage(tokenUsage: TokenUsage, usage: TokenUsage, cost: number): void {
+    tokenUsage.promptTokens += usage.promptTokens;
+    tokenUsage.completionTokens += usage.completionTokens;
+    tokenUsage.totalTokens += usage.totalTokens;
+    tokenUsage.cost += cost;
+  }
+
+  /**
+   * Budget and usage record a call on route is charged to. The shared encoder
+   * serves concurrent orchestrations, so its calls go to the one they are made from.
+   */
+  private chargeFor(route: LLMRoute): CallCharge {
+    if (route === this.semanticRoute) {
+      return this.semanticCharges.getStore() ?? route;
+    }
+    return route;
+  }
+
+  /**
+   * Providers and models to try for a call, in order. Purposes with a routing policy
+   * go to the router's best match; other calls use the caller's own model. Either
+   * way the policy's configured fallbacks follow.
+   */
+  private routeCall(route: LLMRoute, request: LLMRequest): Array<{ provider: LLMProvider; modelId: string }> {
+    const purpose = request.metadata?.purpose;
+    const estimatedTokens = ModelRouter.estimateTokens(request, route.adapter.getTokenizer(route.model));
+    const routed = this.modelRouter.route(purpose, { estimatedTokens })
+      .map(r => ({ provider: r.provider, modelId: r.model.id }));
+    
+    const fallbacks = (this.modelRouter.getPolicy(purpose).fallbacks || [])
+      .map(ref => routed.find(r => r.provider.id === ref.providerId && r.modelId === ref.modelId))
+      .filter((r): r is { provider: LLMProvider; modelId: string } => r !== undefined);
+    const primary = this.modelRouter.hasPolicy(purpose) && routed.length > 0
+      ? routed[0]
+      : { provider: route.provider, modelId: route.model };
+    const candidates = [primary, ...fallbacks];
+    
+    return candidates.filter((c, i) =>
+      candidates.findIndex(other => other.provider.id === c.provider.id && other.modelId === c.modelId) === i
+    );
+  }
+
+  /**
+   * A failed call may move on to the next candidate unless it was cancelled or refused by the budget
+   */
+  private canFallBack(error: any, request: LLMRequest): boolean {
+    if (request.signal?.aborted) return false;
+    
+    const code = error instanceof LLMError ? error.code : undefined;
+    return code !== 'REQUEST_ABORTED' && code !== 'BUDGET_EXHAUSTED' && code !== 'BUDGET_DEADLINE';
+  }
+
+  /**
+   * Refuse calls once the budget is spent. Optional steps are skipped earlier, once the budget is low,
+   * so agents already running can still finish their required calls.
+   */
+  private checkBudget(budget: BudgetTracker, request: LLMRequest): void {
+    if (request.metadata?.optional && budget.isLow()) {
+      budget.recordSkippedOptionalCall();
+      throw new LLMError(
+        `Skipped optional LLM step${request.metadata.purpose ? ` (${request.metadata.purpose})` : ''}: budget nearly exhausted`,
+        'BUDGET_EXHAUSTED',
+        { purpose: request.metadata.purpose, budget: budget.getReport() },
+        false
+      );
+    }
+    
+    if (budget.signal.aborted || budget.getRemainingCost() <= 0) {
+      budget.truncate(budget.getLimitingReason());
+      throw new LLMError(
+        `Orchestration budget exhausted${request.metadata?.purpose ? ` before ${request.metadata.purpose}` : ''}`,
+        'BUDGET_EXHAUSTED',
+        { purpose: request.metadata?.purpose, budget: budget.getReport() },
+        false
+      );
+    }
+  }
+
+  /**
+   * Rough cost of one agent run: semantic feature extraction plus one reasoning call per capability
+   */
+  private estimateAgentCost(
+    capabilityCount: number,
+    provider: LLMProvider,
+    modelId: string,
+    request: OrchestrationRequest,
+    budget: BudgetTracker
+  ): number {
+    const reasoningRequest: LLMRequest = {
+      model: modelId,
+      prompt: request.query,
+      systemPrompt: '',
+      temperature: 0.7,
+      maxTokens: 500, // Agent reasoning budget per capability
+      metadata: {}
+    };
+    
+    return (capabilityCount + 1) *
+      budget.estimateCost(reasoningRequest, this.findModel(provider, modelId), this.adapters.get(provider.id)!.getTokenizer(modelId));
+  }
+
+  private findModel(provider: LLMProvider, modelId: string): LLMModel | undefined {
+    return provider.models.find(model => model.id === modelId);
+  }
+
+  private createEmptyUsage(): TokenUsage {
+    return {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0
+    };
+  }
+
   private assessContribution(message: Message, request: OrchestrationRequest): number {
     // Assess based on relevance, quality, and uncertainty
     const relevance = this.assessRelevance(message, request.query);
@@ -1071,6 +1916,11 @@ export class Orchestrator {
   }
 
   private selectConsensusMethod(participants: ConsensusParticipant[], request: OrchestrationRequest): string {
+    const configured = this.config.consensus.defaultMethod;
+    if (!AUTO_SELECTED_CONSENSUS_METHODS.includes(configured)) {
+      return configured;
+    }
+    
     // Select based on participant characteristics and request constraints
     if (participants.length > 10) {
       return 'bayesian_aggregation'; // Better for large groups
@@ -1080,7 +1930,7 @@ export class Orchestrator {
       return 'game_theoretic'; // Most rigorous
     }
     
-    return this.config.consensus.defaultMethod;
+    return configured;
   }
 
   private extractPosition(message: Message): string {
@@ -1101,7 +1951,7 @@ export class Orchestrator {
       const position = this.extractPosition(p.message);
       if (position !== consensus) {
         dissent.push({
-          agentId: p.agent.agent.getId(),
+          agentId: p.agentId,
           position,
           reasoning: p.message.content.reasoning.steps.slice(-3).map(s => s.content).join(' '),
           confidence: p.message.content.reasoning.confidence.mean
@@ -1243,12 +2093,11 @@ export class Orchestrator {
     if (recentResults.length >= 5) {
       const avgConfidence = recentResults.reduce((sum, r) => sum + r.confidence.mean, 0) / recentResults.length;
       
-      // Adapt consensus method if confidence is low
-      if (avgConfidence < 0.7) {
-        const currentMethod = this.config.consensus.defaultMethod;
-        const methods = ['simple_majority', 'weighted_voting', 'bayesian_aggregation', 'game_theoretic'];
-        const nextIndex = (methods.indexOf(currentMethod) + 1) % methods.length;
-        this.config.consensus.defaultMethod = methods[nextIndex] as any;
+      // Adapt consensus method if confidence is low, unless the caller chose one outside the rotation
+      const currentMethod = this.config.consensus.defaultMethod;
+      if (avgConfidence < 0.7 && AUTO_SELECTED_CONSENSUS_METHODS.includes(currentMethod)) {
+        const nextIndex = (AUTO_SELECTED_CONSENSUS_METHODS.indexOf(currentMethod) + 1) % AUTO_SELECTED_CONSENSUS_METHODS.length;
+        this.config.consensus.defaultMethod = AUTO_SELECTED_CONSENSUS_METHODS[nextIndex];
       }
       
       // Adapt agent count if performance is poor
@@ -1314,6 +2163,68 @@ export class Orchestrator {
     return 'No clear consensus reached';
   }
 
+  /**
+   * A participant's ranking of candidate positions: its own first, then by overlap with its reasoning
+   */
+  private rankPositions(participant: ConsensusParticipant, candidates: string[]): string[] {
+    const own = this.extractPosition(participant.message);
+    const reasoningText = participant.message.content.reasoning.steps.map(s => s.content).join(' ');
+    
+    return candidates
+      .map((candidate, order) => ({
+        candidate,
+        order,
+        score: candidate === own ? Infinity : this.textOverlap(candidate, reasoningText)
+      }))
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .map(entry => entry.candidate);
+  }
+
+  private initialDelphiEstimate(participant: ConsensusParticipant, candidates: string[]): number[] {
+    const own = this.extractPosition(participant.message);
+    const confidence = participant.message.content.reasoning.confidence.mean;
+    const reasoningText = participant.message.content.reasoning.steps.map(s => s.content).join(' ');
+    
+    if (candidates.length === 1) {
+      return [1];
+    }
+    
+    // Small floor so an unrelated position still gets some mass
+    const affinities = candidates.map(c => c === own ? 0 : this.textOverlap(c, reasoningText) + 0.01);
+    const affinityTotal = affinities.reduce((a, b) => a + b, 0);
+    
+    return candidates.map((c, i) =>
+      c === own ? confidence : (1 - confidence) * affinities[i] / affinityTotal
+    );
+  }
+
+  private aggregateDelphiEstimates(estimates: number[][], participants: ConsensusParticipant[]): number[] {
+    const weights = participants.map(p => Math.max(p.contribution, 0.01));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    
+    return estimates[0].map((_, c) =>
+      estimates.reduce((sum, estimate, i) => sum + estimate[c] * weights[i], 0) / totalWeight
+    );
+  }
+
+  /**
+   * Jaccard overlap of the significant words in two texts
+   */
+  private textOverlap(text1: string, text2: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(w => w.length > 2));
+    const words1 = words(text1);
+    const words2 = words(text2);
+    
+    if (words1.size === 0 || words2.size === 0) return 0;
+    
+    let shared = 0;
+    words1.forEach(w => {
+      if (words2.has(w)) shared++;
+    });
+    
+    return shared / (words1.size + words2.size - shared);
+  }
+
   private extractStrategies(participants: ConsensusParticipant[]): string[] {
     const strategies = new Set<string>();
     
@@ -1416,6 +2327,11 @@ export class Orchestrator {
 
 // Type definitions for internal use
 
+interface DeliberationOutcome {
+  consensus: ConsensusResult;
+  participants: ConsensusParticipant[]; // Final round's participants
+}
+
 interface RequestComplexity {
   score: number;
   factors: any;
@@ -1423,6 +2339,16 @@ interface RequestComplexity {
   recommendedAgentCount: number;
 }
 
-interface ConsensusMethod {
-  execute: (participants: ConsensusParticipant[], request: ConsensusRequest) => Promise<ConsensusResult>;
-}
\ No newline at end of file
+// Share of an agent's context window that earlier sub-query answers may fill
+const PREREQUISITE_CONTEXT_SHARE = 0.25;
+
+// Purpose of the agents' reasoning calls, whose prompts are fitted to the context window
+const REASONING_PURPOSE = 'generate-reasoning';
+
+// Methods the orchestrator may switch between on its own; any other configured method is kept as chosen
+const AUTO_SELECTED_CONSENSUS_METHODS: ConsensusMethod[] = [
+  'simple_majority',
+  'weighted_voting',
+  'bayesian_aggregation',
+  'game_theoretic'
+];
\ No newline at end of file
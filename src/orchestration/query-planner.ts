@@ -0,0 +1,198 @@
+/**
+ * Query Planner
+ * Asks an LLM to split a request into a DAG of typed sub-questions, each
+ * matched to an agent template, and orders them by their dependencies.
+ */
+
+import {
+  LLMRequest,
+  LLMResponse,
+  QueryPlan,
+  PlannedSubQuery
+} from '../types/index.js';
+
+export interface PlannerTemplate {
+  id: string;
+  description: string;
+}
+
+export class QueryPlanner {
+  constructor(
+    private llmInterface: (request: LLMRequest) => Promise<LLMResponse>,
+    private model: string
+  ) {}
+
+  /**
+   * Plan the query. Falls back to giving every template the full query when
+   * the LLM is unavailable or returns an unusable plan.
+   */
+  async plan(query: string, templates: PlannerTemplate[], maxSubQueries: number): Promise<QueryPlan> {
+    try {
+      const response = await this.llmInterface({
+        model: this.model,
+        prompt: this.buildPlanningPrompt(query, templates, maxSubQueries),
+        systemPrompt: 'You are a research planner that decomposes questions for a team of specialist agents. Always respond with valid JSON only.',
+        temperature: 0.2,
+        maxTokens: 800,
+        metadata: {
+          purpose: 'plan-query-decomposition',
+          optional: true
+        }
+      });
+
+      const plan = this.parsePlan(response.content, query, templates, maxSubQueries);
+      if (plan) {
+        return plan;
+      }
+      console.warn('Query plan was unusable, answering the full query with every agent');
+    } catch (error) {
+      console.warn('Query planning failed, answering the full query with every agent:', error instanceof Error ? error.message : error);
+    }
+
+    return QueryPlanner.fallbackPlan(query, templates, maxSubQueries);
+  }
+
+  /**
+   * One independent sub-query per template, each the full query
+   */
+  static fallbackPlan(query: string, templates: PlannerTemplate[], count: number): QueryPlan {
+    const subQueries: PlannedSubQuery[] = [];
+
+    for (let i = 0; i < count && templates.length > 0; i++) {
+      subQueries.push({
+        id: `q${i + 1}`,
+        templateId: templates[i % templates.length].id,
+        question: query,
+        dependsOn: [],
+        status: 'pending'
+      });
+    }
+
+    return {
+      query,
+      source: 'fallback',
+      subQueries,
+      levels: subQueries.length > 0 ? [subQueries.map(sq => sq.id)] : []
+    };
+  }
+
+  // === Private helpers ===
+
+  private buildPlanningPrompt(query: string, templates: PlannerTemplate[], maxSubQueries: number): string {
+    return `Split the following question into at most ${maxSubQueries} focused sub-questions for a team of specialist agents.
+
+QUESTION: ${query}
+
+AVAILABLE SPECIALISTS (use the id as "type"):
+${templates.map(t => `- ${t.id}: ${t.description}`).join('\n')}
+
+Rules:
+- Each sub-question must be answerable on its own by one specialist
+- Use "dependsOn" to list sub-question ids whose answers are needed first
+- Dependencies must not form cycles
+- End with a sub-question that combines the others when a specialist for integration is available
+
+Return ONLY a JSON object like:
+{
+  "subQueries": [
+    {"id": "q1", "type": "analytical", "question": "...", "dependsOn": []},
+    {"id": "q2", "type": "temporal", "question": "...", "dependsOn": []},
+    {"id": "q3", "type": "integrator", "question": "...", "dependsOn": ["q1", "q2"]}
+  ]
+}`;
+  }
+
+  private parsePlan(
+    content: string,
+    query: string,
+    templates: PlannerTemplate[],
+    maxSubQueries: number
+  ): QueryPlan | null {
+    const items = this.extractItems(content);
+    if (!items || items.length === 0) {
+      return null;
+    }
+
+    const templateIds = new Map(templates.map(t => [t.id.toLowerCase(), t.id]));
+    const defaultTemplateId = templateIds.get('analytical') ?? templates[0]?.id;
+    if (!defaultTemplateId) {
+      return null;
+    }
+
+    // Normalize entries, keeping the first maxSubQueries with a question
+    const subQueries: PlannedSubQuery[] = [];
+    const seenIds = new Set<string>();
+
+    for (const item of items) {
+      if (subQueries.length >= maxSubQueries) break;
+      if (!item || typeof item.question !== 'string' || !item.question.trim()) continue;
+
+      let id = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `q${subQueries.length + 1}`;
+      while (seenIds.has(id)) {
+        id = `${id}_`;
+      }
+      seenIds.add(id);
+
+      const type = typeof item.type === 'string' ? item.type.trim().toLowerCase() : '';
+
+      subQueries.push({
+        id,
+        templateId: templateIds.get(type) ?? defaultTemplateId,
+        question: item.question.trim(),
+        dependsOn: Array.isArray(item.dependsOn) ? item.dependsOn.filter((dep: any) => typeof dep === 'string') : [],
+        status: 'pending'
+      });
+    }
+
+    // Drop references to unknown or dropped sub-queries
+    subQueries.forEach(sq => {
+      sq.dependsOn = Array.from(new Set(sq.dependsOn)).filter(dep => dep !== sq.id && seenIds.has(dep));
+    });
+
+    const levels = this.orderByDependencies(subQueries);
+    if (!levels) {
+      return null; // Cycle
+    }
+
+    return { query, source: 'llm', subQueries, levels };
+  }
+
+  private extractItems(content: string): any[] | null {
+    const start = content.search(/[[{]/);
+    if (start === -1) return null;
+
+    const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'));
+
+    try {
+      const parsed = JSON.parse(content.slice(start, end + 1));
+      if (Array.isArray(parsed)) return parsed;
+      return Array.isArray(parsed?.subQueries) ? parsed.subQueries : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Group sub-queries into levels whose prerequisites are all in earlier levels (Kahn's algorithm)
+   */
+  private orderByDependencies(subQueries: PlannedSubQuery[]): string[][] | null {
+    const remaining = new Map(subQueries.map(sq => [sq.id, new Set(sq.dependsOn)]));
+    const levels: string[][] = [];
+
+    while (remaining.size > 0) {
+      const ready = Array.from(remaining.entries())
+        .filter(([, deps]) => deps.size === 0)
+        .map(([id]) => id);
+
+      if (ready.length === 0) {
+        return null;
+      }
+
+      ready.forEach(id => remaining.delete(id));
+      remaining.forEach(deps => ready.forEach(id => deps.delete(id)));
+      levels.push(ready);
+    }
+
+    return levels;
+  }
+}
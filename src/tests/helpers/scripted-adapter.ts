@@ -0,0 +1,76 @@
+/**
+ * Scripted adapter shared by the test scripts: stands in for a real provider,
+ * answering each request with whatever its script returns or throws
+ */
+
+import { BaseLLMAdapter } from '../../adapters/base-llm-adapter.js';
+import { LLMRequest, LLMResponse, TokenUsage } from '../../types/index.js';
+
+export type Script = (request: LLMRequest) => string;
+
+export class ScriptedAdapter extends BaseLLMAdapter {
+  public calls = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly script: Script,
+    maxRetries?: number
+  ) {
+    super({ apiKey: 'not-required', maxRetries });
+  }
+
+  protected getProviderName(): string { return this.name; }
+  protected getDefaultBaseURL(): string { return ''; }
+  protected getDefaultModel(): string { return `${this.name}-model`; }
+  protected prepareRequest(request: LLMRequest): any { return request; }
+
+  protected async makeAPICall(request: LLMRequest): Promise<any> {
+    this.calls++;
+    return this.script(request);
+  }
+
+  protected processResponse(content: string, request: LLMRequest): LLMResponse {
+    const usage: TokenUsage = {
+      promptTokens: this.estimateTokens(request.prompt),
+      completionTokens: this.estimateTokens(content),
+      totalTokens: 0,
+      cost: 0
+    };
+    usage.totalTokens = usage.promptTokens + usage.completionTokens;
+
+    return { content, model: request.model || this.defaultModel, usage, latency: 0, metadata: { ...request.metadata } };
+  }
+
+  protected calculateCost(usage: TokenUsage, model: string): number { return 0; }
+}
+
+/**
+ * Script for Agent.processQuery about tides: semantic features, then a
+ * three-step reasoning chain over moon_gravity, tidal_bulge and tides
+ */
+export function tidesScript(request: LLMRequest): string {
+  if (request.metadata?.purpose === 'semantic_feature_extraction') {
+    return JSON.stringify({
+      concepts: ['ocean', 'tides'],
+      categories: ['science'],
+      attributes: {
+        abstractness: 0.3,
+        specificity: 0.7,
+        technicality: 0.6,
+        certainty: 0.8,
+        actionability: 0.2,
+        temporality: 0.5
+      },
+      relationships: ['causes'],
+      intent: 'question',
+      complexity: 0.5,
+      temporalAspect: true
+    });
+  }
+
+  return [
+    '[OBSERVATION:moon_gravity|Gravity(moon, earth)] The moon pulls on the oceans',
+    '[INFERENCE:tidal_bulge|Gravity(moon, earth) → Bulge(ocean)] The pull creates tidal bulges',
+    '[DEDUCTION:tides|Bulge(ocean) ∧ Rotation(earth) → Tides(daily)] Rotation through the bulges causes tides'
+  ].join('\n');
+}
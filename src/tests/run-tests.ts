@@ -0,0 +1,31 @@
+/**
+ * Runs the offline regression checks, each in its own process, and fails if
+ * any of them does. Demos that need a live provider are not included.
+ *
+ * Run with: npm test
+ */
+
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+
+const TESTS = [
+  'test-snapshot-codec',
+  'test-rate-limiter',
+  'test-junction-tree',
+  'test-dynamic-bayesian-network',
+  'test-parameter-learner',
+  'test-belief-updates',
+  'test-fallback-adapter',
+  'test-record-replay'
+];
+
+const failures = TESTS.filter(test => {
+  console.log(`\n▶️  ${test}\n`);
+  const result = spawnSync(process.execPath, [path.join(__dirname, `${test}.js`)], { stdio: 'inherit' });
+  return result.status !== 0;
+});
+
+console.log(failures.length === 0
+  ? `\n✅ All ${TESTS.length} test scripts passed`
+  : `\n❌ Failed: ${failures.join(', ')}`);
+process.exitCode = failures.length === 0 ? 0 : 1;
@@ -0,0 +1,109 @@
+/**
+ * Test for an agent's belief updates
+ * Runs queries end to end against a scripted adapter and checks that the
+ * evidence from each reasoning step reaches that step's concept, that revising
+ * an answer in deliberation learns nothing, and that the periodic structure
+ * refit links concepts whose evidence varies together
+ */
+
+import { Agent } from '../core/agent.js';
+import { LLMRequest } from '../types/index.js';
+import { ScriptedAdapter, tidesScript } from './helpers/scripted-adapter.js';
+
+const CONCEPTS = ['moon_gravity', 'tidal_bulge', 'tides'];
+const STRUCTURE_REFITS = 2;
+const QUERIES_PER_REFIT = 10; // The agent refits its structure every 10 queries
+
+// The same steps, refuted by a last one: every tides concept turns false at once
+function lakeScript(request: LLMRequest): string {
+  const response = tidesScript(request);
+  if (request.metadata?.purpose === 'semantic_feature_extraction') return response;
+
+  return `${response}\n[OBSERVATION:still_water|¬Tides(lake)] However moon gravity, tidal bulge and tides are absent in a lake`;
+}
+
+function createAgent(): Agent {
+  return new Agent({
+    id: 'belief_agent',
+    name: 'Belief Agent',
+    description: 'Agent used to test belief updates',
+    initialCapabilities: [{
+      id: 'analytical',
+      name: 'Analytical',
+      description: 'Structured analytical reasoning',
+      strength: 0.8,
+      adaptationRate: 0.1,
+      specializations: ['analysis'],
+      morphology: {
+        structure: {},
+        connections: new Map(),
+        emergentProperties: [],
+        adaptationHistory: []
+      },
+      lastUsed: new Date(),
+      performanceHistory: []
+    }],
+    config: {
+      htm: { columnCount: 512, cellsPerColumn: 8, learningRadius: 256, learningRate: 0.1, maxSequenceLength: 100 }
+    }
+  });
+}
+
+async function testBeliefUpdates() {
+  console.log('🧪 Testing belief updates\n');
+  let failed = false;
+  const check = (label: string, ok: boolean) => {
+    console.log(`  - ${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed = true;
+  };
+
+  const scripted = new ScriptedAdapter('scripted', tidesScript);
+  const agent = createAgent();
+  const message = await agent.processQuery('What causes ocean tides?', {}, request => scripted.generateCompletion(request));
+
+  console.log('🎯 Evidence reaches its concept');
+  const deltas = message.metadata.beliefDeltas || [];
+  for (const concept of CONCEPTS) {
+    const delta = deltas.find(d => d.variable === concept);
+    // The delta reports whichever state moved most; either way 'true' must have gained
+    const towardTrue = !!delta && (delta.state === 'true') === (delta.change > 0);
+    check(`${concept}: P(${delta?.state}) ${delta ? `${delta.prior.toFixed(3)} → ${delta.posterior.toFixed(3)}` : 'unchanged'}`, towardTrue);
+  }
+  check('Soft evidence stays uncertain', deltas.every(d => d.posterior < 1));
+
+  console.log('\n🗣️ Deliberation');
+  const performance = agent.getPerformanceHistory().length;
+  const trajectory = agent.getBeliefTrajectory().length;
+  const revised = await agent.processQuery('What causes ocean tides?', { deliberation: { round: 2 } },
+    request => scripted.generateCompletion(request));
+  check('Revising an answer leaves performance and belief history alone',
+    agent.getPerformanceHistory().length === performance && agent.getBeliefTrajectory().length === trajectory);
+  check('Revising an answer does not learn from HTM', !revised.metadata.htmState.learningEnabled);
+
+  console.log('\n🕸️ Periodic structure refit');
+  const lake = new ScriptedAdapter('lake', lakeScript);
+  const learner = createAgent();
+  for (let i = 0; i < STRUCTURE_REFITS * QUERIES_PER_REFIT; i++) {
+    const adapter = i % 2 === 0 ? scripted : lake;
+    await learner.processQuery(i % 2 === 0 ? 'What causes ocean tides?' : 'Why does a lake have no tides?', {},
+      request => adapter.generateCompletion(request));
+  }
+  const fit = learner.getLastStructureFit();
+  const linked = (fit?.comparison.added || []).filter(([parent, child]) =>
+    CONCEPTS.includes(parent) && CONCEPTS.includes(child));
+  check(`Refit adds edges between concepts (${linked.map(([parent, child]) => `${parent} → ${child}`).join(', ') || 'none'})`,
+    linked.length > 0);
+  console.log();
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+
+  console.log('✅ Belief update test completed!');
+}
+
+// Run the test
+testBeliefUpdates().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
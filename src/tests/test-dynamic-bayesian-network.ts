@@ -0,0 +1,122 @@
+/**
+ * Test for the dynamic Bayesian network
+ * On a single node (where factoring the carried belief is exact), compares
+ * filtering, smoothing and forecasting with a direct hidden Markov model
+ * forward-backward computation
+ */
+
+import { BayesianNetwork } from '../evidence/bayesian/bayesian-network.js';
+import { DynamicBayesianNetwork } from '../evidence/bayesian/dynamic-bayesian-network.js';
+
+const TOLERANCE = 1e-9;
+const STATES = ['calm', 'choppy', 'rough'];
+const PRIOR = [0.5, 0.3, 0.2];
+const PERSISTENCE = 0.7;
+
+// Observation likelihoods per step, over STATES
+const OBSERVATIONS = [
+  [0.9, 0.3, 0.1],
+  [0.2, 0.8, 0.4],
+  [0.1, 0.4, 0.9],
+  [1, 1, 1],
+  [0.3, 0.9, 0.5]
+];
+
+// P(state j | previous state i): keep the state, or redraw from the prior
+function transition(i: number, j: number): number {
+  return PERSISTENCE * (i === j ? 1 : 0) + (1 - PERSISTENCE) * PRIOR[j];
+}
+
+function normalize(values: number[]): number[] {
+  const total = values.reduce((a, b) => a + b, 0);
+  return values.map(v => v / total);
+}
+
+function predict(belief: number[]): number[] {
+  return STATES.map((_, j) => belief.reduce((sum, p, i) => sum + p * transition(i, j), 0));
+}
+
+function forwardBackward(): { filtered: number[][]; smoothed: number[][] } {
+  const filtered: number[][] = [];
+  OBSERVATIONS.forEach((likelihood, t) => {
+    const predicted = t === 0 ? PRIOR : predict(filtered[t - 1]);
+    filtered.push(normalize(predicted.map((p, j) => p * likelihood[j])));
+  });
+
+  const smoothed: number[][] = new Array(OBSERVATIONS.length);
+  let backward = STATES.map(() => 1);
+  for (let t = OBSERVATIONS.length - 1; t >= 0; t--) {
+    smoothed[t] = normalize(filtered[t].map((p, i) => p * backward[i]));
+    const likelihood = OBSERVATIONS[t];
+    backward = normalize(STATES.map((_, i) =>
+      STATES.reduce((sum, __, j) => sum + transition(i, j) * likelihood[j] * backward[j], 0)));
+  }
+
+  return { filtered, smoothed };
+}
+
+function maxDifference(actual: Array<Map<string, Map<string, number>>>, expected: number[][]): number {
+  return Math.max(...expected.map((belief, t) =>
+    Math.max(...belief.map((p, j) => Math.abs((actual[t]?.get('sea')?.get(STATES[j]) ?? NaN) - p)))));
+}
+
+async function testDynamicBayesianNetwork() {
+  console.log('🧪 Testing dynamic Bayesian network\n');
+  let failed = false;
+  const check = (label: string, ok: boolean) => {
+    console.log(`  - ${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed = true;
+  };
+
+  const network = new BayesianNetwork();
+  network.addNode({
+    id: 'sea',
+    name: 'sea',
+    states: [...STATES],
+    probabilities: new Map(STATES.map((state, i) => [state, PRIOR[i]] as [string, number])),
+    parents: [],
+    children: []
+  });
+  const dbn = new DynamicBayesianNetwork(network, { persistence: PERSISTENCE });
+
+  for (const likelihood of OBSERVATIONS) {
+    dbn.step({ likelihoods: new Map([['sea', new Map(STATES.map((state, j) => [state, likelihood[j]] as [string, number]))]]) });
+  }
+  const expected = forwardBackward();
+
+  console.log('⏩ Filtering');
+  const filteredDifference = maxDifference(dbn.getFilteredBeliefs(), expected.filtered);
+  check(`Matches the forward pass (max difference ${filteredDifference.toExponential(1)})`, filteredDifference < TOLERANCE);
+
+  console.log('\n⏪ Smoothing');
+  const smoothedDifference = maxDifference(dbn.smooth(), expected.smoothed);
+  check(`Matches forward-backward (max difference ${smoothedDifference.toExponential(1)})`, smoothedDifference < TOLERANCE);
+  const smoothed = dbn.smooth();
+  const latest = smoothed[smoothed.length - 1].get('sea')!;
+  check('Latest slice equals its filtered belief', STATES.every(state =>
+    latest.get(state) === dbn.getCurrentBelief()!.get('sea')!.get(state)));
+
+  console.log('\n🔮 Forecasting');
+  const forecasts: number[][] = [];
+  let belief = expected.filtered[expected.filtered.length - 1];
+  for (let i = 0; i < 3; i++) {
+    belief = predict(belief);
+    forecasts.push(belief);
+  }
+  const forecastDifference = maxDifference(dbn.forecast(3), forecasts);
+  check(`Matches repeated prediction (max difference ${forecastDifference.toExponential(1)})`, forecastDifference < TOLERANCE);
+  check('Forecasting leaves the history alone', dbn.getFilteredBeliefs().length === OBSERVATIONS.length);
+  console.log();
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+
+  console.log('✅ Dynamic Bayesian network test completed!');
+}
+
+// Run the test
+testDynamicBayesianNetwork().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,90 @@
+/**
+ * Test for FallbackAdapter circuit breakers
+ * Trips the primary provider's circuit, then checks that a half-open probe
+ * ended by the caller (abort or budget) does not leave the provider skipped
+ */
+
+import { FallbackAdapter } from '../adapters/fallback-adapter.js';
+import { LLMRequest, LLMError } from '../types/index.js';
+import { ScriptedAdapter } from './helpers/scripted-adapter.js';
+
+type Mode = 'ok' | 'server_error' | 'aborted' | 'budget';
+
+// Adapter whose next calls succeed or fail as its mode says
+function scriptedAdapter(name: string, modes: Record<string, Mode>): ScriptedAdapter {
+  return new ScriptedAdapter(name, () => {
+    switch (modes[name]) {
+      case 'server_error':
+        throw Object.assign(new Error('Service unavailable'), { status: 503 });
+      case 'aborted':
+        throw new LLMError('Request aborted by caller', 'REQUEST_ABORTED', {}, false);
+      case 'budget':
+        throw new LLMError('Budget exhausted', 'BUDGET_EXHAUSTED', {}, false);
+      default:
+        return `answer from ${name}`;
+    }
+  }, 1);
+}
+
+const request: LLMRequest = {
+  prompt: 'ping',
+  systemPrompt: '',
+  temperature: 0,
+  maxTokens: 10,
+  metadata: {}
+};
+
+async function testFallbackAdapter() {
+  console.log('🧪 Testing FallbackAdapter circuit breakers\n');
+  let failed = false;
+  const check = (label: string, ok: boolean) => {
+    console.log(`  - ${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed = true;
+  };
+
+  for (const mode of ['aborted', 'budget'] as Mode[]) {
+    const modes: Record<string, Mode> = { primary: 'ok', backup: 'ok' };
+    const primary = scriptedAdapter('primary', modes);
+    const backup = scriptedAdapter('backup', modes);
+    const fallback = new FallbackAdapter({
+      targets: [{ name: 'primary', adapter: primary }, { name: 'backup', adapter: backup }],
+      circuitBreaker: { consecutiveServerErrors: 1, cooldownMs: 0 }
+    });
+
+    console.log(`🔌 Probe ended by the caller (${mode})`);
+
+    // Trip the primary's circuit; the backup answers
+    modes.primary = 'server_error';
+    const failedOver = await fallback.generateCompletion(request);
+    check('Backup answers while the primary fails', failedOver.metadata.answeredBy === 'backup');
+
+    // The cooldown has passed, so the next call probes the primary, and the caller ends it
+    modes.primary = mode;
+    try {
+      await fallback.generateCompletion(request);
+      check('Caller-side failure is rethrown', false);
+    } catch (error) {
+      check('Caller-side failure is rethrown', error instanceof LLMError);
+    }
+    check('Probe does not count as a trip', fallback.getCircuitStates().primary.tripCount === 1);
+
+    // The primary recovered: the next probe must reach it
+    modes.primary = 'ok';
+    const recovered = await fallback.generateCompletion(request);
+    check('Primary is probed again and answers', recovered.metadata.answeredBy === 'primary');
+    check('Circuit closes after the probe', fallback.getCircuitStates().primary.state === 'closed');
+    console.log();
+  }
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+
+  console.log('✅ FallbackAdapter test completed!');
+}
+
+// Run the test
+testFallbackAdapter().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,114 @@
+/**
+ * Test for soft evidence parameter learning
+ * Checks that EM over soft cases reduces to counting when every case is
+ * certain, that weak evidence moves the estimates less than strong evidence,
+ * and that each EM iteration raises the likelihood of the evidence
+ */
+
+import { BayesianNetwork } from '../evidence/bayesian/bayesian-network.js';
+import { EvidenceCase, ParameterLearner, SoftEvidenceCase } from '../evidence/bayesian/parameter-learner.js';
+
+const TOLERANCE = 1e-9;
+
+function createNetwork(): BayesianNetwork {
+  const network = new BayesianNetwork();
+  for (const id of ['moon_gravity', 'tidal_bulge']) {
+    network.addNode({
+      id,
+      name: id,
+      states: ['true', 'false'],
+      probabilities: new Map([['true', 0.5], ['false', 0.5]]),
+      parents: [],
+      children: []
+    });
+  }
+  network.addEdge('moon_gravity', 'tidal_bulge');
+  network.setCPT('tidal_bulge', {
+    node: 'tidal_bulge',
+    conditions: new Map([
+      ['moon_gravity:true', new Map([['true', 0.5], ['false', 0.5]])],
+      ['moon_gravity:false', new Map([['true', 0.5], ['false', 0.5]])]
+    ])
+  });
+  return network;
+}
+
+// Likelihood of a soft finding for state at the given strength
+function finding(state: string, strength: number): Map<string, number> {
+  return new Map([['true', state === 'true' ? 1 : 1 - strength], ['false', state === 'false' ? 1 : 1 - strength]]);
+}
+
+function probabilities(network: BayesianNetwork): number[] {
+  const bulge = network.getCPT('tidal_bulge')!.conditions;
+  return [
+    network.getNode('moon_gravity')!.probabilities.get('true')!,
+    bulge.get('moon_gravity:true')!.get('true')!,
+    bulge.get('moon_gravity:false')!.get('true')!
+  ];
+}
+
+async function testParameterLearner() {
+  console.log('🧪 Testing soft evidence parameter learning\n');
+  let failed = false;
+  const check = (label: string, ok: boolean) => {
+    console.log(`  - ${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed = true;
+  };
+
+  const observations: Array<[string, string]> = [
+    ['true', 'true'], ['true', 'true'], ['true', 'false'], ['false', 'false'], ['false', 'true'], ['true', 'true']
+  ];
+
+  console.log('🎯 Certain soft cases');
+  const counted = createNetwork();
+  new ParameterLearner(counted, undefined, 1).learn(observations.map(([moon, bulge]): EvidenceCase =>
+    new Map([['moon_gravity', moon], ['tidal_bulge', bulge]])), { method: 'dirichlet' });
+  const soft = createNetwork();
+  new ParameterLearner(soft, undefined, 1).learnSoft(observations.map(([moon, bulge]): SoftEvidenceCase =>
+    new Map([['moon_gravity', finding(moon, 1)], ['tidal_bulge', finding(bulge, 1)]])));
+  const difference = Math.max(...probabilities(counted).map((p, i) => Math.abs(p - probabilities(soft)[i])));
+  check(`Match Dirichlet counting (max difference ${difference.toExponential(1)})`, difference < TOLERANCE);
+
+  console.log('\n🪶 Evidence strength');
+  const learned = [0.1, 0.5, 0.9].map(strength => {
+    const network = createNetwork();
+    new ParameterLearner(network, undefined, 1).learnSoft(
+      [1, 2, 3].map(() => new Map([['moon_gravity', finding('true', strength)]])), { maxIterations: 10 });
+    return network.getNode('moon_gravity')!.probabilities.get('true')!;
+  });
+  check(`Stronger evidence moves further (${learned.map(p => p.toFixed(3)).join(' < ')})`,
+    learned[0] > 0.5 && learned[0] < learned[1] && learned[1] < learned[2]);
+  const against = createNetwork();
+  new ParameterLearner(against, undefined, 1).learnSoft([new Map([['moon_gravity', finding('false', 0.8)]])]);
+  check('Evidence against a state lowers it', against.getNode('moon_gravity')!.probabilities.get('true')! < 0.5);
+
+  console.log('\n📈 EM');
+  const cases: SoftEvidenceCase[] = [
+    new Map([['tidal_bulge', finding('true', 0.9)]]),
+    new Map([['moon_gravity', finding('true', 0.6)], ['tidal_bulge', finding('true', 0.7)]]),
+    new Map([['moon_gravity', finding('false', 0.8)]]),
+    new Map([['tidal_bulge', finding('false', 0.4)]])
+  ];
+  const network = createNetwork();
+  const learner = new ParameterLearner(network, undefined, 1);
+  const likelihoods: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    likelihoods.push(learner.learnSoft(cases, { maxIterations: 1 }).logLikelihood);
+  }
+  check('Each iteration raises the likelihood of the evidence',
+    likelihoods.every((value, i) => i === 0 || value >= likelihoods[i - 1] - TOLERANCE));
+  check('Converges', learner.learnSoft(cases).converged);
+  console.log();
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+
+  console.log('✅ Parameter learning test completed!');
+}
+
+// Run the test
+testParameterLearner().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
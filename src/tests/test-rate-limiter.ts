@@ -0,0 +1,97 @@
+/**
+ * Test for the rate limiter
+ * Checks the token bucket's waits, the concurrency limit, refunds for calls
+ * never sent, and callers that abort while queued
+ */
+
+import { RateLimiter } from '../adapters/rate-limiter.js';
+import { LLMError } from '../types/index.js';
+
+// Timer slack allowed on measured waits
+const SLACK_MS = 60;
+
+async function testRateLimiter() {
+  console.log('🧪 Testing rate limiter\n');
+  let failed = false;
+  const check = (label: string, ok: boolean) => {
+    console.log(`  - ${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed = true;
+  };
+
+  console.log('🪣 Token bucket');
+  {
+    // 6000 tokens/minute refill at 100 per second
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 6000, concurrentRequests: 0 });
+    const start = Date.now();
+    (await limiter.acquire(6000)).release(6000);
+    check('A full bucket grants at once', Date.now() - start < SLACK_MS);
+
+    const waitStart = Date.now();
+    (await limiter.acquire(30)).release(30);
+    const waited = Date.now() - waitStart;
+    check(`An empty bucket waits for the refill (${waited}ms for 300ms)`, waited >= 300 - 5 && waited < 300 + SLACK_MS * 3);
+
+    // The call used 100 tokens more than it reserved, which the next one waits out
+    (await limiter.acquire(0)).release(100);
+    const debtStart = Date.now();
+    (await limiter.acquire(10)).release(10);
+    const debtWait = Date.now() - debtStart;
+    check(`Usage above the estimate is paid back (${debtWait}ms for 1100ms)`,
+      debtWait >= 1100 - 5 && debtWait < 1100 + SLACK_MS * 3);
+  }
+
+  console.log('\n🚦 Concurrency');
+  {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0, concurrentRequests: 1 });
+    const first = await limiter.acquire(1);
+    let secondGranted = false;
+    const second = limiter.acquire(1).then(permit => { secondGranted = true; return permit; });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    check('A second call waits while one is in flight', !secondGranted && limiter.getStats().queued === 1);
+    first.release(1);
+    (await second).release(1);
+    check('It starts once the first is released', secondGranted && limiter.getStats().inFlight === 0);
+  }
+
+  console.log('\n↩️  Refunds');
+  {
+    const limiter = new RateLimiter({ requestsPerMinute: 1, tokensPerMinute: 1000, concurrentRequests: 0 });
+    const permit = await limiter.acquire(400);
+    check('Granting reserves a request and the tokens', limiter.getStats().availableRequests === 0 &&
+      limiter.getStats().availableTokens === 600);
+    permit.cancel();
+    check('Cancelling refunds both', limiter.getStats().availableRequests === 1 &&
+      limiter.getStats().availableTokens === 1000);
+  }
+
+  console.log('\n🛑 Abort while queued');
+  {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0, concurrentRequests: 1 });
+    const holder = await limiter.acquire(1);
+    const controller = new AbortController();
+    const aborted = limiter.acquire(1, controller.signal).then(
+      () => 'granted',
+      error => error instanceof LLMError ? error.code : String(error)
+    );
+    const behind = limiter.acquire(1);
+    controller.abort();
+    check('The caller is rejected with REQUEST_ABORTED', await aborted === 'REQUEST_ABORTED');
+    check('It leaves the queue', limiter.getStats().queued === 1);
+    holder.release(1);
+    (await behind).release(1);
+    check('The call behind it is still served', limiter.getStats().queued === 0 && limiter.getStats().inFlight === 0);
+  }
+  console.log();
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+
+  console.log('✅ Rate limiter test completed!');
+}
+
+// Run the test
+testRateLimiter().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,142 @@
+/**
+ * Test for RecordingAdapter and ReplayAdapter
+ * Records a full Agent.processQuery run against a scripted adapter,
+ * then replays it offline and checks the results match, and that structured
+ * requests only replay for the schema they were recorded with
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Agent } from '../core/agent.js';
+import { RecordingAdapter } from '../adapters/recording-adapter.js';
+import { ReplayAdapter } from '../adapters/replay-adapter.js';
+import { LLMError, LLMRequest } from '../types/index.js';
+import { ScriptedAdapter, tidesScript } from './helpers/scripted-adapter.js';
+
+function createAgent(): Agent {
+  return new Agent({
+    id: 'replay_agent',
+    name: 'Replay Agent',
+    description: 'Agent used to test record/replay',
+    initialCapabilities: [{
+      id: 'analytical',
+      name: 'Analytical',
+      description: 'Structured analytical reasoning',
+      strength: 0.8,
+      adaptationRate: 0.1,
+      specializations: ['analysis'],
+      morphology: {
+        structure: {},
+        connections: new Map(),
+        emergentProperties: [],
+        adaptationHistory: []
+      },
+      lastUsed: new Date(),
+      performanceHistory: []
+    }],
+    config: {
+      htm: { columnCount: 512, cellsPerColumn: 8, learningRadius: 256, learningRate: 0.1, maxSequenceLength: 100 }
+    }
+  });
+}
+
+async function testRecordReplay() {
+  console.log('🧪 Testing record/replay adapters\n');
+
+  const fixturePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-')), 'agent.json');
+  const query = 'What causes ocean tides?';
+
+  // Test 1: Record a live run
+  console.log('📼 Test 1: Recording Agent.processQuery');
+  const scripted = new ScriptedAdapter('scripted', tidesScript);
+  const recorder = new RecordingAdapter({ adapter: scripted, fixturePath });
+  const recorded = await createAgent().processQuery(query, {}, request => recorder.generateCompletion(request));
+  console.log(`  - Provider calls: ${scripted.calls}`);
+  console.log(`  - Recorded entries: ${recorder.getRecordedCount()}`);
+
+  // Test 2: Replay with no provider at all
+  console.log('\n▶️  Test 2: Replaying from fixtures');
+  const replay = new ReplayAdapter({ fixturePath });
+  const replayed = await createAgent().processQuery(query, {}, request => replay.generateCompletion(request));
+
+  const recordedSteps = recorded.content.reasoning.steps.map(s => `${s.type}:${s.concept}:${s.content}`);
+  const replayedSteps = replayed.content.reasoning.steps.map(s => `${s.type}:${s.concept}:${s.content}`);
+  const identical = JSON.stringify(recordedSteps) === JSON.stringify(replayedSteps);
+  console.log(`  - Reasoning steps: ${replayedSteps.length}`);
+  console.log(`  - Identical to recording: ${identical ? '✅' : '❌'}`);
+  console.log(`  - Unused fixtures: ${replay.getUnusedFixtureKeys().length}`);
+
+  // Test 3: Unrecorded request fails loudly
+  console.log('\n🚫 Test 3: Unrecorded request');
+  try {
+    await replay.generateCompletion({
+      model: 'gpt-3.5-turbo',
+      prompt: 'never recorded',
+      systemPrompt: '',
+      temperature: 0,
+      maxTokens: 10,
+      metadata: {}
+    });
+    console.log('  - ❌ Expected a REPLAY_FIXTURE_MISSING error');
+    process.exitCode = 1;
+  } catch (error) {
+    const code = error instanceof LLMError ? error.code : String(error);
+    console.log(`  - ${code === 'REPLAY_FIXTURE_MISSING' ? '✅' : '❌'} Rejected with ${code}`);
+    if (code !== 'REPLAY_FIXTURE_MISSING') {
+      process.exitCode = 1;
+    }
+  }
+
+  // Test 4: Structured requests are keyed by their schema, not just its name
+  console.log('\n🧩 Test 4: Same-named schemas');
+  const structuredPath = path.join(path.dirname(fixturePath), 'structured.json');
+  const structuredRecorder = new RecordingAdapter({
+    adapter: new ScriptedAdapter('structured', () => '{"cause": "moon_gravity", "confidence": 0.9}'),
+    fixturePath: structuredPath
+  });
+  const structuredRequest = (properties: Record<string, any>): LLMRequest => ({
+    model: 'gpt-3.5-turbo',
+    prompt: query,
+    systemPrompt: '',
+    temperature: 0,
+    maxTokens: 50,
+    metadata: {},
+    responseSchema: { name: 'tide_cause', schema: { type: 'object', properties } }
+  });
+  await structuredRecorder.generateCompletion(structuredRequest({ cause: { type: 'string' }, confidence: { type: 'number' } }));
+  const structuredReplay = new ReplayAdapter({ fixturePath: structuredPath });
+
+  // Key order within the schema does not matter
+  const reordered = await structuredReplay.generateCompletion<{ cause: string }>(
+    structuredRequest({ confidence: { type: 'number' }, cause: { type: 'string' } }));
+  const sameSchemaReplayed = reordered.parsed?.cause === 'moon_gravity';
+  console.log(`  - ${sameSchemaReplayed ? '✅' : '❌'} Same schema replays`);
+  if (!sameSchemaReplayed) {
+    process.exitCode = 1;
+  }
+
+  try {
+    await structuredReplay.generateCompletion(structuredRequest({ cause: { type: 'string' } }));
+    console.log('  - ❌ Expected a REPLAY_FIXTURE_MISSING error for a different schema');
+    process.exitCode = 1;
+  } catch (error) {
+    const code = error instanceof LLMError ? error.code : String(error);
+    console.log(`  - ${code === 'REPLAY_FIXTURE_MISSING' ? '✅' : '❌'} Different schema rejected with ${code}`);
+    if (code !== 'REPLAY_FIXTURE_MISSING') {
+      process.exitCode = 1;
+    }
+  }
+
+  if (!identical) {
+    process.exitCode = 1;
+  }
+
+  console.log('\n✅ Record/replay test completed!');
+}
+
+// Run the test
+testRecordReplay().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,96 @@
+/**
+ * Test for the snapshot codec
+ * Round-trips a snapshot holding every supported value type through each
+ * format and checks it comes back exactly
+ */
+
+import { encodeSnapshot, decodeSnapshot, detectSnapshotFormat, packBooleans, unpackBooleans, SnapshotFormat } from '../core/snapshot-codec.js';
+
+function createSnapshot(): any {
+  return {
+    version: 3,
+    name: 'agent-α',
+    createdAt: new Date('2024-05-01T12:34:56.789Z'),
+    weights: new Float64Array([0, -0, 1 / 3, Math.PI, -1e-300, 1e300, Number.MAX_VALUE, NaN, Infinity]),
+    activations: new Float32Array([0.1, -2.5, 3.4028234663852886e38]),
+    cells: new Uint32Array([0, 1, 4294967295]),
+    offsets: new Int32Array([-2147483648, 0, 2147483647]),
+    counts: new Uint16Array([0, 65535]),
+    bytes: new Uint8Array([0, 127, 255]),
+    empty: new Float64Array(0),
+    beliefs: new Map<string, Map<string, number>>([
+      ['tides', new Map([['true', 0.75], ['false', 0.25]])],
+      ['moon_gravity', new Map([['true', 1], ['false', 0]])]
+    ]),
+    tags: new Set(['science', 'ocean']),
+    nested: { list: [1, 'two', null, { deep: new Set([new Date(0)]) }], flag: false }
+  };
+}
+
+/**
+ * Structural equality; numbers compare by value bits, so -0 and NaN must survive
+ */
+function same(a: any, b: any): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Object.is(a, b);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    const x = a as any;
+    const y = b as any;
+    return x.constructor === y.constructor && x.length === y.length &&
+      Array.from(x as ArrayLike<number>).every((value, i) => Object.is(value, y[i]));
+  }
+  if (a instanceof Map && b instanceof Map) {
+    return a.size === b.size && Array.from(a.entries()).every(([key, value]) => b.has(key) && same(value, b.get(key)));
+  }
+  if (a instanceof Set && b instanceof Set) {
+    return same(Array.from(a), Array.from(b));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => same(value, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => same(a[key], b[key]));
+  }
+  return a === b;
+}
+
+async function testSnapshotCodec() {
+  console.log('🧪 Testing snapshot codec\n');
+  let failed = false;
+  const check = (label: string, ok: boolean) => {
+    console.log(`  - ${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed = true;
+  };
+
+  const snapshot = createSnapshot();
+  for (const format of ['json', 'gzip', 'binary'] as SnapshotFormat[]) {
+    console.log(`📦 Format: ${format}`);
+    const encoded = encodeSnapshot(snapshot, format);
+    check('Format is detected', detectSnapshotFormat(encoded) === format);
+    check('Round trip is exact', same(decodeSnapshot(encoded), snapshot));
+    check('Encoding is deterministic', encodeSnapshot(snapshot, format).equals(encoded));
+    console.log();
+  }
+
+  console.log('🔢 Packed booleans');
+  const bits = Array.from({ length: 37 }, (_, i) => i % 3 === 0 || i === 36);
+  check('Pack and unpack are inverse', same(unpackBooleans(packBooleans(bits)), bits));
+  console.log();
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+
+  console.log('✅ Snapshot codec test completed!');
+}
+
+// Run the test
+testSnapshotCodec().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
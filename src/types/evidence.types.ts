@@ -24,7 +24,7 @@ export interface InferenceResult {
   nodeId: string;
   posterior: Map<string, number>;
   confidence: number;
-  method: 'exact' | 'sampling' | 'variational';
+  method: 'exact' | 'sampling' | 'variational' | 'junction_tree';
   samples?: number;
   converged?: boolean;
 }
@@ -70,6 +70,24 @@ export interface MessageMetadata {
   uncertainty: UncertaintyEstimate;
   morphologySnapshot: any;
   processingTime: number;
+  contextTrimming?: ContextTrimRecord[]; // Prompts cut down to fit the model's context window
+  beliefDeltas?: BeliefDelta[];          // Beliefs this query's evidence moved, largest change first
+}
+
+export interface BeliefDelta {
+  variable: string;
+  state: string;      // The state whose probability moved most
+  prior: number;      // Before this query's evidence
+  posterior: number;
+  change: number;     // posterior - prior
+}
+
+export interface ContextTrimRecord {
+  stage: string;          // What was trimmed, e.g. 'reasoning:<capabilityId>' or 'orchestrator:prerequisites'
+  budgetTokens: number;   // Tokens the trimmed part was allowed
+  originalTokens: number;
+  finalTokens: number;
+  actions: string[];      // Trimming steps taken, in order
 }
 
 // ===============================================
@@ -430,6 +448,22 @@ export interface ConsensusResult {
   dissent: DissentInfo[];
   method: ConsensusMethod;
   timestamp: Date;
+  rounds?: ConsensusRound[]; // Positions per deliberation round, first round first
+}
+
+export interface ConsensusRound {
+  round: number; // 1-based
+  consensus: string;
+  confidence: ConfidenceInterval;
+  positions: RoundPosition[];
+  changedPositions: number; // Participants whose position differs from the previous round
+}
+
+export interface RoundPosition {
+  agentId: string;
+  position: string;
+  confidence: number;
+  stance: 'initial' | 'maintained' | 'revised' | 'conceded';
 }
 
 export interface ParticipantInfo {
@@ -447,12 +481,30 @@ export interface DissentInfo {
   confidence: number;
 }
 
-export type ConsensusMethod = 
+export type BuiltInConsensusMethod = 
   | 'simple_majority'
   | 'weighted_voting'
   | 'bayesian_aggregation'
   | 'game_theoretic'
-  | 'hierarchical';
+  | 'hierarchical'
+  | 'borda_count'
+  | 'delphi';
+
+// Built-ins plus any name registered with Orchestrator.registerConsensusMethod
+export type ConsensusMethod = BuiltInConsensusMethod | (string & {});
+
+export interface ConsensusParticipant {
+  agentId: string;
+  capabilities: string[];
+  message: Message;
+  contribution: number; // Assessed quality of the message, 0-1
+  question?: string;    // Sub-question the message answers, when not the whole query
+  context?: any;        // What the agent was given with the question (sub-query, fitted prerequisites)
+}
+
+export interface ConsensusMethodImplementation {
+  execute(participants: ConsensusParticipant[], request: ConsensusRequest): Promise<ConsensusResult>;
+}
 
 // ===============================================
 // Orchestration Types
@@ -487,12 +539,42 @@ export interface OrchestrationResult {
   consensus: ConsensusResult;
   performance: PerformanceReport;
   predictions: Prediction[];
+  budget: BudgetReport;
+  plan: QueryPlan; // How the query was split across agents
+}
+
+export interface QueryPlan {
+  query: string;
+  source: 'llm' | 'fallback'; // fallback: every agent answers the full query
+  subQueries: PlannedSubQuery[];
+  levels: string[][];         // Sub-query ids by dependency depth; each level runs after the previous one
+}
+
+export interface PlannedSubQuery {
+  id: string;
+  templateId: string; // Agent template best suited to answer it
+  question: string;
+  dependsOn: string[];
+  assignedAgentId?: string;
+  status: 'pending' | 'completed' | 'failed' | 'skipped';
+}
+
+export interface BudgetReport {
+  truncated: boolean; // Work was cut short to stay within the constraints
+  reason?: 'cost' | 'time';
+  spentCost: number;
+  maxCost: number;     // 0 when unlimited
+  elapsedTime: number;
+  maxTime: number;     // 0 when unlimited
+  skippedAgents: number;
+  skippedOptionalCalls: number;
 }
 
 export interface PerformanceReport {
   totalTime: number;
   agentCount: number;
   tokenUsage: number;
+  cost: number;
   htmUtilization: number;
   bayesianUpdates: number;
   consensusRounds: number;
@@ -510,6 +592,7 @@ export interface Config {
   performance: PerformanceConfig;
   semantic?: SemanticConfig;
   anomaly?: AnomalyConfig;
+  routing?: RoutingConfig;
 }
 
 export interface AgentConfig {
@@ -526,6 +609,7 @@ export interface HTMConfig {
   learningRadius: number;
   learningRate: number;
   maxSequenceLength: number;
+  seed?: number; // Spatial pooler seed; agents sharing it map the same input to the same columns
 }
 
 export interface BayesianConfig {
@@ -540,6 +624,8 @@ export interface ConsensusConfig {
   timeoutMs: number;
   minParticipants: number;
   qualityThreshold: number;
+  maxRounds?: number;            // Deliberation rounds including the first (1 disables deliberation)
+  convergenceThreshold?: number; // Stop deliberating once confidence moves less than this between rounds
 }
 
 export interface PerformanceConfig {
@@ -550,6 +636,29 @@ export interface PerformanceConfig {
   adaptiveOptimization: boolean;
 }
 
+/**
+ * Which provider and model serve each kind of LLM call, keyed by LLMRequest.metadata.purpose
+ */
+export interface RoutingConfig {
+  defaultPolicy?: RoutePolicy; // Calls without a purpose policy, and each agent's own model
+  policies?: Record<string, RoutePolicy>;
+}
+
+export interface RoutePolicy {
+  requiredCapabilities?: string[]; // Model must have every one
+  minContextWindow?: number;
+  maxCostPerToken?: number;
+  maxLatency?: number; // ms
+  preferProviders?: string[]; // Provider ids, most preferred first
+  optimizeFor?: 'capability' | 'cost' | 'latency';
+  fallbacks?: ModelReference[]; // Tried in order after the matching models fail
+}
+
+export interface ModelReference {
+  providerId: string;
+  modelId: string;
+}
+
 export interface SemanticConfig {
   enableHierarchicalEncoding?: boolean;
   enablePhase2Enhancements?: boolean;
@@ -575,6 +684,12 @@ export interface SemanticConfig {
   enableEdgeToggling?: boolean;
   maxGhostTokens?: number;
   minGhostTokenProbability?: number;
+  // Local feature extraction
+  featureSource?: 'llm' | 'local';
+  cacheSimilarity?: 'word_overlap' | 'embedding';
+  embeddingDimensions?: number;
+  embeddingSimilarityThreshold?: number;
+  maxFeatureBatchSize?: number;
 }
 
 export interface AnomalyConfig {
@@ -633,22 +748,46 @@ export interface RateLimit {
 }
 
 export interface LLMRequest {
-  model: string;
+  model?: string; // Omit to let the router or the adapter choose
   prompt: string;
   systemPrompt: string;
   temperature: number;
   maxTokens: number;
-  metadata: any;
+  metadata: any; // purpose, and optional: true for steps that may be skipped under budget pressure
+  onToken?: (token: string) => void; // Request a streamed completion, called per text chunk
+  signal?: AbortSignal;               // Cancels the call, e.g. at an orchestration deadline
+  responseSchema?: StructuredOutputSchema; // Ask for JSON matching the schema, returned parsed in LLMResponse.parsed
+}
+
+export type JSONSchema = Record<string, any>;
+
+export interface StructuredOutputSchema {
+  name: string;         // Schema (OpenAI) or tool (Anthropic) name; letters, digits, _ and -
+  schema: JSONSchema;
+  description?: string;
+  strict?: boolean;     // OpenAI strict mode: every property required, no additional properties
 }
 
-export interface LLMResponse {
+export interface LLMResponse<T = any> {
   content: string;
   model: string;
   usage: TokenUsage;
   latency: number;
   metadata: any;
+  parsed?: T;                  // Content parsed as JSON, for requests with a responseSchema
+  validationErrors?: string[]; // Schema violations left after any repair attempts; empty when valid
 }
 
+export interface EmbeddingResponse {
+  embeddings: number[][]; // One vector per input text, in input order
+  model: string;
+  usage: TokenUsage; // completionTokens is always 0
+  latency: number;
+  metadata: any;
+}
+
+export type EmbeddingInterface = (texts: string[]) => Promise<EmbeddingResponse>;
+
 export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;